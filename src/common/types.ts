@@ -1,13 +1,31 @@
 import { WebDriver } from 'selenium-webdriver';
+import { BrowserAutomationCore } from '../core/browser-automation-core.js';
+import { CdpSession } from '../utils/cdp.js';
+import { NetworkCollector } from '../utils/networkCollector.js';
+import { RequestInterceptor } from '../utils/requestInterceptor.js';
+import { HarReplay } from '../utils/har.js';
+import { ErrorCollector } from '../utils/errorCollector.js';
+import { WebSocketCollector } from '../utils/websocketCollector.js';
+import { WaitCondition } from '../utils/waitConditions.js';
+import { NetworkEmulation } from '../utils/networkConditions.js';
 
 export interface BrowserSession {
   sessionId: string;
   browserId: string;
   driver: WebDriver;
+  core: BrowserAutomationCore; // Interaction, inspection and history engine bound to this session's driver
   createdAt: Date;
   lastUsed: Date;
   isActive: boolean;
   badge?: string; // Store badge text to persist across navigations - identifies what Cursor is doing
+  instrumentationId?: string; // CDP identifier of the dev tools script injected into every new document
+  cdp?: CdpSession; // DevTools event connection shared by the server-side collectors
+  network?: NetworkCollector; // Server-side network capture, started by enable_dev_tools
+  interceptor?: RequestInterceptor; // Block/mock/modify rules installed with network_rules
+  harReplay?: HarReplay; // Recorded responses served for requests no rule handles
+  errors?: ErrorCollector; // Server-side exception and browser error capture, started by enable_dev_tools
+  websockets?: WebSocketCollector; // WebSocket sockets and frames, started with network capture
+  networkEmulation?: NetworkEmulation; // Throttling and cache settings, reapplied when the DevTools connection reopens
 }
 
 // Enhanced Scenario interface with variable substitution
@@ -43,9 +61,19 @@ export interface ScenarioStep {
   url?: string;
   pattern?: string; // For wait_for_page_change
   timeout?: number;
-  fields?: Record<string, { selector: string; value: string }>; // For fill_form
+  fields?: Record<string, { selector: string; value: string; by?: string }>; // For fill_form
+  submitAfter?: boolean; // For fill_form: submit once the fields are filled
+  submitSelector?: string; // For fill_form: submit button, found automatically when omitted
+  submitBy?: string; // For fill_form: locator strategy of submitSelector
   option?: { by: 'text' | 'value' | 'index'; text?: string; value?: string; index?: number }; // For select_option
   script?: string; // For execute_script
   args?: string[]; // For execute_script
+  frame?: number | string | Array<number | string>; // Frame the step runs in, as accepted by click_element/type_text/select_option
+  mode?: 'script' | 'native'; // Input mode for click/type
+  append?: boolean; // For type: keep the current value
+  delay?: number; // For native type: milliseconds between keystrokes
+  force?: boolean; // For click/type: skip actionability checks
+  waitBefore?: WaitCondition | WaitCondition[]; // For navigate/click/type: conditions met before the action
+  waitAfter?: WaitCondition | WaitCondition[]; // For navigate/click/type: conditions met after the action
 }
 
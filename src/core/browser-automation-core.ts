@@ -2,6 +2,8 @@ import { Builder, By, WebDriver, until, Key, Actions, Button } from 'selenium-we
 import chrome from 'selenium-webdriver/chrome.js';
 import { promises as fs, existsSync, mkdirSync } from 'fs';
 import { join, resolve } from 'path';
+import { LocatorStrategy, locate, locateAll } from '../utils/locator.js';
+import { captureScreenshot } from '../utils/screenshot.js';
 
 export interface BrowserOptions {
   headless?: boolean;
@@ -18,7 +20,7 @@ export interface BrowserOptions {
 
 export interface ElementOptions {
   selector: string;
-  by?: 'css' | 'xpath' | 'id' | 'name' | 'className' | 'tagName';
+  by?: LocatorStrategy;
   timeout?: number;
 }
 
@@ -92,6 +94,29 @@ export interface ScreenRecording {
   error?: string;
 }
 
+// Bounds on the command history kept for export_session_history
+const MAX_HISTORY_ENTRIES = 500;
+const MAX_HISTORY_STRING = 300;
+const MAX_HISTORY_ITEMS = 10;
+const MAX_HISTORY_DEPTH = 3;
+
+/**
+ * Shrink a tool's args or result data for the history: long strings (screenshots, markdown, scripts) are cut,
+ * long arrays (element lists, logs) keep their first items and deep objects are elided
+ */
+function summarizeForHistory(value: any, depth = 0): any {
+  if (typeof value === 'string') {
+    return value.length > MAX_HISTORY_STRING ? `${value.slice(0, MAX_HISTORY_STRING)}… (${value.length} chars)` : value;
+  }
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_HISTORY_DEPTH) return Array.isArray(value) ? `[${value.length} items]` : '[Object]';
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_HISTORY_ITEMS).map(item => summarizeForHistory(item, depth + 1));
+    return value.length > MAX_HISTORY_ITEMS ? [...items, `… ${value.length - MAX_HISTORY_ITEMS} more`] : items;
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, summarizeForHistory(item, depth + 1)]));
+}
+
 export class BrowserAutomationCore {
   private driver: WebDriver | null = null;
   private consoleLogs: ConsoleLogEntry[] = [];
@@ -100,6 +125,16 @@ export class BrowserAutomationCore {
   private commandHistory: CommandHistory[] = [];
   private screenRecording: ScreenRecording | null = null;
   private debugPort: number | null = null;
+  private browserId: string | null = null;
+
+  /**
+   * A core can own its browser (via openBrowser) or drive one that was opened elsewhere,
+   * which is how each multi-session BrowserSession gets its own core.
+   */
+  constructor(driver: WebDriver | null = null, browserId: string | null = null) {
+    this.driver = driver;
+    this.browserId = browserId;
+  }
 
   private getMonitorPosition(monitor: number | 'primary' | 'secondary' | 'auto' | undefined): { x: number; y: number } {
     // Default to primary monitor (0, 0)
@@ -448,8 +483,7 @@ export class BrowserAutomationCore {
     }
 
     try {
-      const byMethod = this.getByMethod(options.by || 'css');
-      const element = await this.driver.wait(until.elementLocated(byMethod(options.selector)), options.timeout || 3000);
+      const element = await locate(this.driver, options.selector, options.by, options.timeout || 3000);
       await this.driver.wait(until.elementIsVisible(element), options.timeout || 3000);
       await element.click();
 
@@ -475,8 +509,7 @@ export class BrowserAutomationCore {
     }
 
     try {
-      const byMethod = this.getByMethod(options.by || 'css');
-      const element = await this.driver.wait(until.elementLocated(byMethod(options.selector)), options.timeout || 3000);
+      const element = await locate(this.driver, options.selector, options.by, options.timeout || 3000);
       await this.driver.wait(until.elementIsVisible(element), options.timeout || 3000);
       await element.clear();
       await element.sendKeys(options.text);
@@ -572,7 +605,7 @@ export class BrowserAutomationCore {
     }
 
     try {
-      const screenshot = await this.driver.takeScreenshot();
+      const { data: screenshot } = await captureScreenshot(this.driver, { fullPage });
       // Save to 'images' directory in the user's current project directory (where Cursor is running)
       // process.cwd() returns the working directory of the process, which should be the user's project
       // Try to get project directory from environment variable first, then fallback to process.cwd()
@@ -616,11 +649,8 @@ export class BrowserAutomationCore {
     }
 
     try {
-      const sourceByMethod = this.getByMethod(sourceOptions.by || 'css');
-      const targetByMethod = this.getByMethod(targetOptions.by || 'css');
-
-      const sourceElement = await this.driver.wait(until.elementLocated(sourceByMethod(sourceOptions.selector)), sourceOptions.timeout || 3000);
-      const targetElement = await this.driver.wait(until.elementLocated(targetByMethod(targetOptions.selector)), targetOptions.timeout || 3000);
+      const sourceElement = await locate(this.driver, sourceOptions.selector, sourceOptions.by, sourceOptions.timeout || 3000);
+      const targetElement = await locate(this.driver, targetOptions.selector, targetOptions.by, targetOptions.timeout || 3000);
 
       await this.driver.wait(until.elementIsVisible(sourceElement), sourceOptions.timeout || 3000);
       await this.driver.wait(until.elementIsVisible(targetElement), targetOptions.timeout || 3000);
@@ -1077,33 +1107,13 @@ export class BrowserAutomationCore {
     }
   }
 
-  private getByMethod(by: string) {
-    switch (by.toLowerCase()) {
-      case 'css':
-        return By.css;
-      case 'xpath':
-        return By.xpath;
-      case 'id':
-        return By.id;
-      case 'name':
-        return By.name;
-      case 'classname':
-        return By.className;
-      case 'tagname':
-        return By.tagName;
-      default:
-        return By.css;
-    }
-  }
-
   async hoverElement(options: ElementOptions): Promise<ActionResult> {
     if (!this.driver) {
       return { success: false, message: 'Browser not opened. Please call openBrowser first.' };
     }
 
     try {
-      const byMethod = this.getByMethod(options.by || 'css');
-      const element = await this.driver.wait(until.elementLocated(byMethod(options.selector)), options.timeout || 3000);
+      const element = await locate(this.driver, options.selector, options.by, options.timeout || 3000);
       await this.driver.wait(until.elementIsVisible(element), options.timeout || 3000);
 
       const actions = this.driver.actions();
@@ -1127,8 +1137,7 @@ export class BrowserAutomationCore {
     }
 
     try {
-      const byMethod = this.getByMethod(options.by || 'css');
-      const element = await this.driver.wait(until.elementLocated(byMethod(options.selector)), options.timeout || 3000);
+      const element = await locate(this.driver, options.selector, options.by, options.timeout || 3000);
       await this.driver.wait(until.elementIsVisible(element), options.timeout || 3000);
 
       const actions = this.driver.actions();
@@ -1152,8 +1161,7 @@ export class BrowserAutomationCore {
     }
 
     try {
-      const byMethod = this.getByMethod(options.by || 'css');
-      const element = await this.driver.wait(until.elementLocated(byMethod(options.selector)), options.timeout || 3000);
+      const element = await locate(this.driver, options.selector, options.by, options.timeout || 3000);
       await this.driver.wait(until.elementIsVisible(element), options.timeout || 3000);
 
       const actions = this.driver.actions();
@@ -1224,9 +1232,7 @@ export class BrowserAutomationCore {
     }
 
     try {
-      const byMethod = this.getByMethod(options.by || 'css');
-      await this.driver.wait(until.elementLocated(byMethod(options.selector)), options.timeout || 3000);
-      const element = this.driver.findElement(byMethod(options.selector));
+      const element = await locate(this.driver, options.selector, options.by, options.timeout || 3000);
       await this.driver.wait(until.elementIsVisible(element), options.timeout || 3000);
 
       return {
@@ -1341,20 +1347,23 @@ export class BrowserAutomationCore {
     return this.driver;
   }
 
-  private addCommandToHistory(command: string, args: any, result: ActionResult, browserId?: string, duration?: number): void {
+  addCommandToHistory(command: string, args: any, result: ActionResult, browserId?: string, duration?: number): void {
     const commandEntry: CommandHistory = {
       id: `cmd_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       command,
-      arguments: args,
+      arguments: summarizeForHistory(args),
       timestamp: new Date().toISOString(),
       success: result.success,
-      result: result.data,
+      result: summarizeForHistory(result.data),
       error: result.success ? undefined : result.message,
       browserId,
       duration
     };
 
     this.commandHistory.push(commandEntry);
+    if (this.commandHistory.length > MAX_HISTORY_ENTRIES) {
+      this.commandHistory.splice(0, this.commandHistory.length - MAX_HISTORY_ENTRIES);
+    }
   }
 
   getCommandHistory(): CommandHistory[] {
@@ -1378,7 +1387,7 @@ export class BrowserAutomationCore {
       if (format === 'json') {
         const sessionData = {
           metadata: {
-            browserId: this.debugPort ? `browser_${this.debugPort}` : 'unknown',
+            browserId: this.browserId || (this.debugPort ? `browser_${this.debugPort}` : 'unknown'),
             currentUrl,
             pageTitle,
             exportTimestamp: timestamp,
@@ -2382,18 +2391,7 @@ export class BrowserAutomationCore {
     }
   }
 
-  private async findElement(selector: string, by: 'css' | 'xpath' | 'id' | 'name' | 'className' | 'tagName' = 'css') {
-    if (!this.driver) return null;
-
-    const byMethod = this.getByMethod(by);
-    try {
-      return await this.driver.findElement(byMethod(selector));
-    } catch (error) {
-      return null;
-    }
-  }
-
-  async inspectElement(selector: string, by: 'css' | 'xpath' | 'id' | 'name' | 'className' | 'tagName' = 'css'): Promise<ActionResult> {
+  async inspectElement(selector: string, by: LocatorStrategy = 'css'): Promise<ActionResult> {
     if (!this.driver) {
       return {
         success: false,
@@ -2403,11 +2401,11 @@ export class BrowserAutomationCore {
     }
 
     try {
-      const element = await this.findElement(selector, by);
+      const { elements: [element], reason } = await locateAll(this.driver, selector, by);
       if (!element) {
         return {
           success: false,
-          message: `Element not found with selector: ${selector}`,
+          message: reason || `Element not found with selector: ${selector}`,
           error: 'ELEMENT_NOT_FOUND',
           data: { selector, by }
         };
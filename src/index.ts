@@ -1,7 +1,7 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
-import { Builder, By, Capabilities, WebDriver, WebElement } from 'selenium-webdriver';
+import { Builder, By, Capabilities, WebDriver } from 'selenium-webdriver';
 import * as chrome from 'selenium-webdriver/chrome';
 import { Session } from 'selenium-webdriver';
 import { ServiceBuilder } from 'selenium-webdriver/chrome.js';
@@ -10,7 +10,7 @@ import * as path from 'path';
 import { execSync } from 'child_process';
 import { Logger } from './utils/logger.js';
 import { ChromeDriverManager } from './utils/chromeDriverManager.js';
-import { BrowserSession } from './common/types.js';
+import { BrowserSession, ScenarioStep } from './common/types.js';
 import { openBrowserTool } from './tools/browser/openBrowser.js';
 import { navigateToTool } from './tools/browser/navigateTo.js';
 import { clickElementTool } from './tools/browser/clickElement.js';
@@ -21,6 +21,38 @@ import { closeBrowserTool } from './tools/browser/closeBrowser.js';
 import { getPageElementsTool } from './tools/browser/getPageElements.js';
 import { getPageCodeTool } from './tools/browser/getPageCode.js';
 import { devToolsTool } from './tools/browser/devTools.js';
+import { fillFormTool } from './tools/browser/fillForm.js';
+import { selectOptionTool } from './tools/browser/selectOption.js';
+import { waitForPageChangeTool } from './tools/browser/waitForPageChange.js';
+import { checkElementExistsTool } from './tools/browser/checkElementExists.js';
+import { listElementsTool } from './tools/browser/listElements.js';
+import { findByDescriptionTool } from './tools/browser/findByDescription.js';
+import { setBadgeTool } from './tools/browser/setBadge.js';
+import { hoverElementTool } from './tools/browser/hoverElement.js';
+import { doubleClickElementTool } from './tools/browser/doubleClickElement.js';
+import { rightClickElementTool } from './tools/browser/rightClickElement.js';
+import { dragAndDropTool } from './tools/browser/dragAndDrop.js';
+import { inspectElementTool } from './tools/browser/inspectElement.js';
+import { debugPageTool } from './tools/browser/debugPage.js';
+import { disableUserInteractionsTool } from './tools/browser/disableUserInteractions.js';
+import { enableUserInteractionsTool } from './tools/browser/enableUserInteractions.js';
+import { toggleMobileViewTool } from './tools/browser/toggleMobileView.js';
+import { exportSessionHistoryTool } from './tools/browser/exportSessionHistory.js';
+import { listFramesTool } from './tools/browser/listFrames.js';
+import { waitForTool } from './tools/browser/waitFor.js';
+import { compareScreenshotTool } from './tools/browser/compareScreenshot.js';
+import { networkRulesTool } from './tools/browser/networkRules.js';
+import { runActionsTool } from './tools/browser/runActions.js';
+import { startRecordingTool } from './tools/scenario/startRecording.js';
+import { stopRecordingTool } from './tools/scenario/stopRecording.js';
+import { listScenariosTool } from './tools/scenario/listScenarios.js';
+import { replayScenarioTool } from './tools/scenario/replayScenario.js';
+import { runScenarioDatasetTool } from './tools/scenario/runScenarioDataset.js';
+import { exportScenarioTool } from './tools/scenario/exportScenario.js';
+import { ScenarioManager } from './utils/scenarioManager.js';
+import { LOCATOR_DESCRIPTION, LOCATOR_STRATEGIES } from './utils/locator.js';
+import { FrameLocator, hasFrame, switchToFrame } from './utils/frames.js';
+import { WAIT_CONDITION_SCHEMA, withWaitConditions } from './utils/waitConditions.js';
 import { PluginManager } from './utils/pluginManager.js';
 import { MCPPlugin } from './types/plugin.js';
 import { fileURLToPath } from 'url';
@@ -36,6 +68,7 @@ class MCPSeleniumServer {
   private browserSessions: Map<string, BrowserSession> = new Map();
   private chromeDriverManager: ChromeDriverManager;
   private pluginManager: PluginManager;
+  private scenarioManager: ScenarioManager;
   private pluginsPath: string;
 
   constructor() {
@@ -48,6 +81,7 @@ class MCPSeleniumServer {
     this.pluginsPath = path.join(__dirname, '..', 'plugins');
     this.pluginManager = new PluginManager(this.logger);
     this.chromeDriverManager = new ChromeDriverManager(this.logger);
+    this.scenarioManager = new ScenarioManager(this.logger);
     // Load plugins first, then setup handlers (plugins are loaded synchronously in setupToolHandlers)
     this.loadPlugins().then(() => {
       this.logger.info('Plugins loaded, server ready');
@@ -114,6 +148,10 @@ class MCPSeleniumServer {
                 enum: ['primary', 'secondary', 'auto'],
                 description: 'Monitor to display browser on. primary=0,0; secondary=1920,0; auto=detect. Can be combined with x/y for fine-tuning',
               },
+              devTools: {
+                type: 'boolean',
+                description: 'Turn on dev tools capture (console, errors, network, interactions) at launch. It is injected at the start of every document, so page-load activity is captured. Default: false',
+              },
             },
             required: ['browserId'],
           },
@@ -140,13 +178,21 @@ class MCPSeleniumServer {
                 type: 'string',
                 description: 'URL to navigate to',
               },
+              waitBefore: {
+                oneOf: [WAIT_CONDITION_SCHEMA, { type: 'array', items: WAIT_CONDITION_SCHEMA }],
+                description: 'Condition(s) to wait for before navigating, as in wait_for. Evaluated in the top-level document',
+              },
+              waitAfter: {
+                oneOf: [WAIT_CONDITION_SCHEMA, { type: 'array', items: WAIT_CONDITION_SCHEMA }],
+                description: 'Condition(s) to wait for after navigating, as in wait_for (e.g. network_idle or a selector for the next view). The call fails if they are not met',
+              },
             },
             required: ['browserId', 'url'],
           },
         },
         {
           name: 'click_element',
-          description: 'Click an element. Provide CSS selector. Use browserId to identify the browser instance.',
+          description: 'Click an element. Provide a selector (CSS by default, or text, role, label, placeholder, testId and more via by) or a ref from get_page_elements. Waits until the element is visible, stable, enabled and not covered by another element; on timeout the failed check and any covering element are returned in data.reason. Use browserId to identify the browser instance.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -156,15 +202,53 @@ class MCPSeleniumServer {
               },
               selector: {
                 type: 'string',
-                description: 'CSS selector for the element to click',
+                description: 'Selector for the element to click',
+              },
+              ref: {
+                type: 'string',
+                description: 'Element ref from get_page_elements (e.g. e12), instead of selector. Refs last until the page navigates; inside a frame, also pass the element\'s frame',
+              },
+              by: {
+                type: 'string',
+                enum: LOCATOR_STRATEGIES,
+                description: LOCATOR_DESCRIPTION,
+              },
+              timeout: {
+                type: 'number',
+                description: 'Maximum time to wait for the element to be actionable in milliseconds. Default: 5000',
+              },
+              force: {
+                type: 'boolean',
+                description: 'Skip the actionability checks (visible, stable, enabled, not covered by another element) and act as soon as the element exists. Default: false',
+              },
+              mode: {
+                type: 'string',
+                enum: ['script', 'native'],
+                description: 'script clicks through JavaScript (default). native moves the real pointer to the element centre and clicks with the WebDriver Actions API, firing pointer and mouse events like a user',
+              },
+              frame: {
+                oneOf: [
+                  { type: 'number' },
+                  { type: 'string' },
+                  { type: 'array', items: { oneOf: [{ type: 'number' }, { type: 'string' }] } },
+                ],
+                description: 'Frame to run in: index, name/id, CSS selector of the iframe, or the path from list_frames (e.g. "0/1"). Arrays chain into nested frames, outermost first. Default: top-level document',
+              },
+              waitBefore: {
+                oneOf: [WAIT_CONDITION_SCHEMA, { type: 'array', items: WAIT_CONDITION_SCHEMA }],
+                description: 'Condition(s) to wait for before clicking, as in wait_for. Evaluated in the top-level document',
+              },
+              waitAfter: {
+                oneOf: [WAIT_CONDITION_SCHEMA, { type: 'array', items: WAIT_CONDITION_SCHEMA }],
+                description: 'Condition(s) to wait for after clicking, as in wait_for (e.g. network_idle or a selector for the next view). The call fails if they are not met',
               },
             },
-            required: ['browserId', 'selector'],
+            required: ['browserId'],
           },
         },
         {
           name: 'type_text',
-          description: 'Type text into an input field. Provide CSS selector and text. Use browserId to identify the browser instance.',
+          description: 'Type text into an input field. Provide a selector (CSS by default, or label, placeholder, role and more via by) or a ref from get_page_elements, and text. Waits until the element is visible, enabled and editable; on timeout the failed check is returned in data.reason. Use browserId to identify the browser instance.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -174,19 +258,65 @@ class MCPSeleniumServer {
               },
               selector: {
                 type: 'string',
-                description: 'CSS selector for the element to type into',
+                description: 'Selector for the element to type into',
+              },
+              ref: {
+                type: 'string',
+                description: 'Element ref from get_page_elements (e.g. e12), instead of selector. Refs last until the page navigates; inside a frame, also pass the element\'s frame',
+              },
+              by: {
+                type: 'string',
+                enum: LOCATOR_STRATEGIES,
+                description: LOCATOR_DESCRIPTION,
+              },
+              timeout: {
+                type: 'number',
+                description: 'Maximum time to wait for the element to be actionable in milliseconds. Default: 5000',
+              },
+              force: {
+                type: 'boolean',
+                description: 'Skip the actionability checks (visible, enabled, editable) and type as soon as the element exists. Default: false',
+              },
+              mode: {
+                type: 'string',
+                enum: ['script', 'native'],
+                description: 'script sets the value and dispatches input/change events (default). native types real keystrokes with WebDriver sendKeys, for widgets with key handlers, input masks or autocomplete',
+              },
+              append: {
+                type: 'boolean',
+                description: 'Add to the current value instead of replacing it. Default: false',
+              },
+              delay: {
+                type: 'number',
+                description: 'Milliseconds to wait between keystrokes in native mode. Default: 0',
+              },
+              frame: {
+                oneOf: [
+                  { type: 'number' },
+                  { type: 'string' },
+                  { type: 'array', items: { oneOf: [{ type: 'number' }, { type: 'string' }] } },
+                ],
+                description: 'Frame to run in: index, name/id, CSS selector of the iframe, or the path from list_frames (e.g. "0/1"). Arrays chain into nested frames, outermost first. Default: top-level document',
               },
               text: {
                 type: 'string',
                 description: 'Text to type',
               },
+              waitBefore: {
+                oneOf: [WAIT_CONDITION_SCHEMA, { type: 'array', items: WAIT_CONDITION_SCHEMA }],
+                description: 'Condition(s) to wait for before typing, as in wait_for. Evaluated in the top-level document',
+              },
+              waitAfter: {
+                oneOf: [WAIT_CONDITION_SCHEMA, { type: 'array', items: WAIT_CONDITION_SCHEMA }],
+                description: 'Condition(s) to wait for after typing, as in wait_for (e.g. network_idle or a selector for the next view). The call fails if they are not met',
+              },
             },
-            required: ['browserId', 'selector', 'text'],
+            required: ['browserId', 'text'],
           },
         },
         {
           name: 'take_screenshot',
-          description: 'Take a screenshot of the current page. Use browserId to identify the browser instance.',
+          description: 'Take a screenshot of the viewport, the full page or one element, with optional masking of sensitive elements. Saved under images/ and/or returned inline as image content (PNG or JPEG, optionally downscaled). With annotate, interactive elements are boxed and numbered (set-of-marks) and a legend maps each number to its ref, role, text and selector. Use browserId to identify the browser instance.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -202,6 +332,62 @@ class MCPSeleniumServer {
                 type: 'string',
                 description: 'Optional project directory path. If not provided, will try to detect from environment or use current working directory',
               },
+              inline: {
+                type: 'boolean',
+                description: 'Return the image in the response as MCP image content, so the client can see it without file access. Default: false',
+              },
+              save: {
+                type: 'boolean',
+                description: 'Write the image under images/. Set to false with inline to only return it. Default: true',
+              },
+              format: {
+                type: 'string',
+                enum: ['png', 'jpeg'],
+                description: 'Image format. Default: png',
+              },
+              quality: {
+                type: 'number',
+                description: 'JPEG quality from 0 to 100. Default: 80',
+              },
+              maxDimension: {
+                type: 'number',
+                description: 'Downscale so the longest side is at most this many pixels, e.g. 1280 to keep inline images small. Default: no limit',
+              },
+              selector: {
+                type: 'string',
+                description: 'Capture only this element instead of the viewport',
+              },
+              ref: {
+                type: 'string',
+                description: 'Element ref from get_page_elements to capture, instead of selector',
+              },
+              by: {
+                type: 'string',
+                enum: LOCATOR_STRATEGIES,
+                description: LOCATOR_DESCRIPTION,
+              },
+              fullPage: {
+                type: 'boolean',
+                description: 'Capture the whole scrollable page instead of the viewport. Ignored with selector. Default: false',
+              },
+              mask: {
+                type: 'array',
+                items: {
+                  oneOf: [
+                    { type: 'string' },
+                    { type: 'object', properties: { selector: { type: 'string' }, by: { type: 'string', enum: LOCATOR_STRATEGIES } }, required: ['selector'] },
+                  ],
+                },
+                description: 'Selectors (CSS, or {selector, by}) of elements to black out before capturing, e.g. emails or balances. The page itself is not changed',
+              },
+              annotate: {
+                type: 'boolean',
+                description: 'Overlay numbered boxes on the interactive elements visible in the viewport and return the legend in data.marks. Default: false',
+              },
+              maxMarks: {
+                type: 'number',
+                description: 'Maximum number of elements to mark when annotating. Default: 100',
+              },
             },
             required: ['browserId'],
           },
@@ -233,6 +419,14 @@ class MCPSeleniumServer {
                   ],
                 },
               },
+              frame: {
+                oneOf: [
+                  { type: 'number' },
+                  { type: 'string' },
+                  { type: 'array', items: { oneOf: [{ type: 'number' }, { type: 'string' }] } },
+                ],
+                description: 'Frame to run in: index, name/id, CSS selector of the iframe, or the path from list_frames (e.g. "0/1"). Arrays chain into nested frames, outermost first. Default: top-level document',
+              },
             },
             required: ['browserId', 'script'],
           },
@@ -253,7 +447,7 @@ class MCPSeleniumServer {
         },
         {
           name: 'get_page_elements',
-          description: 'Get DOM tree structure as a simple nested tree. Returns hierarchical tree of DOM elements that Cursor can understand and interact with. All data in TOON format. Use browserId to identify the browser instance.',
+          description: 'Get DOM tree structure as a simple nested tree. Returns hierarchical tree of DOM elements that Cursor can understand and interact with. Each element has a ref (e.g. e12) that click_element, type_text and hover_element accept; it stays the same for the element until the page navigates. All data in TOON format. Use browserId to identify the browser instance.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -277,6 +471,22 @@ class MCPSeleniumServer {
                 type: 'number',
                 description: 'Maximum number of elements to return. Default: 50 (keeps output small, prevents file storage)',
               },
+              pierceShadow: {
+                type: 'boolean',
+                description: 'Descend into open shadow roots of web components. Selectors of elements inside them use host >>> inner. Default: false',
+              },
+              frame: {
+                oneOf: [
+                  { type: 'number' },
+                  { type: 'string' },
+                  { type: 'array', items: { oneOf: [{ type: 'number' }, { type: 'string' }] } },
+                ],
+                description: 'Frame to run in: index, name/id, CSS selector of the iframe, or the path from list_frames (e.g. "0/1"). Arrays chain into nested frames, outermost first. Default: top-level document',
+              },
+              includeFrames: {
+                type: 'boolean',
+                description: 'Also extract every frame of the page into frames[], each element tagged with the frame it lives in. Default: false',
+              },
             },
             required: ['browserId'],
           },
@@ -324,8 +534,8 @@ class MCPSeleniumServer {
               action: {
                 type: 'string',
                 enum: [
-                  'enable_dev_tools',
-                  'get_console_logs', 'get_network_requests', 'get_performance_metrics', 'get_performance_feedback',
+                  'enable_dev_tools', 'disable_dev_tools',
+                  'get_console_logs', 'get_errors', 'get_network_requests', 'export_har', 'get_websocket_frames', 'get_performance_metrics', 'get_performance_feedback',
                   'get_storage', 'get_cookies', 'get_accessibility', 'get_security', 'get_manifest', 'get_service_workers',
                   'get_memory', 'get_layout', 'get_computed_styles', 'get_event_listeners', 'get_all',
                   'get_element_interactions',
@@ -334,9 +544,10 @@ class MCPSeleniumServer {
                   'clear_localStorage', 'set_localStorage', 'remove_localStorage',
                   'clear_sessionStorage', 'set_sessionStorage',
                   'clear_cookies', 'set_cookie', 'remove_cookie',
-                  'set_viewport_size', 'get_viewport_size', 'set_device_preset', 'reset_viewport'
+                  'set_viewport_size', 'get_viewport_size', 'set_device_preset', 'reset_viewport',
+                  'set_network_conditions', 'set_cache_disabled', 'set_bypass_service_worker'
                 ],
-                description: 'Action to perform. Setup: enable_dev_tools (enables console capture, network monitoring, and element tracking automatically). Console: get_console_logs. Network: get_network_requests. Performance: get_performance_metrics, get_performance_feedback. Storage: get_storage, clear_localStorage, set_localStorage, remove_localStorage, clear_sessionStorage, set_sessionStorage. Cookies: get_cookies, clear_cookies, set_cookie, remove_cookie. Elements: get_element_interactions, get_css_property, set_css_property, get_layout, get_computed_styles, get_event_listeners. Scripts: get_loaded_scripts, read_script. Viewport/Device: set_viewport_size, get_viewport_size, set_device_preset, reset_viewport. Other: get_accessibility, get_security, get_manifest, get_service_workers, get_memory, get_all.',
+                description: 'Action to perform. Setup: enable_dev_tools (enables console and error capture, network monitoring, and element tracking; persistent by default so it survives navigations), disable_dev_tools (stops injecting into new pages). Console: get_console_logs, get_errors (after enable_dev_tools: every uncaught error, unhandled rejection, CSP violation and browser intervention with full, source-mapped stacks and a per-error count summary; filter with kind). Network: get_network_requests (after enable_dev_tools, every request the page makes with headers, status, timing, size and initiator; filter with urlPattern, resourceType, status, method), export_har (saves the captured requests as a HAR 1.2 file under logs/, same filters; replay it with network_rules), get_websocket_frames (after enable_dev_tools: sockets and frames in both directions; filter with urlPattern, direction, match, afterIndex; set wait to block until a matching frame arrives). Performance: get_performance_metrics, get_performance_feedback. Storage: get_storage, clear_localStorage, set_localStorage, remove_localStorage, clear_sessionStorage, set_sessionStorage. Cookies: get_cookies, clear_cookies, set_cookie, remove_cookie. Elements: get_element_interactions, get_css_property, set_css_property, get_layout, get_computed_styles, get_event_listeners. Scripts: get_loaded_scripts, read_script. Viewport/Device: set_viewport_size, get_viewport_size, set_device_preset, reset_viewport. Network conditions: set_network_conditions (preset slow-3g, fast-3g, 4g, offline or no-throttling, or custom latency/downloadKbps/uploadKbps), set_cache_disabled, set_bypass_service_worker. Other: get_accessibility, get_security, get_manifest, get_service_workers, get_memory, get_all.',
               },
               clear: {
                 type: 'boolean',
@@ -348,7 +559,82 @@ class MCPSeleniumServer {
               },
               selector: {
                 type: 'string',
-                description: 'CSS selector for element-specific actions (get_css_property, set_css_property, get_layout, get_computed_styles, get_event_listeners)',
+                description: 'Selector for element-specific actions (get_css_property, set_css_property, get_layout, get_computed_styles, get_event_listeners). host >>> inner reaches into shadow roots',
+              },
+              by: {
+                type: 'string',
+                enum: LOCATOR_STRATEGIES,
+                description: LOCATOR_DESCRIPTION,
+              },
+              pierceShadow: {
+                type: 'boolean',
+                description: 'Include open shadow root content in get_accessibility. Default: false',
+              },
+              urlPattern: {
+                type: 'string',
+                description: 'For get_network_requests, export_har and get_websocket_frames: regular expression the request or socket URL must match. Sockets already open when capture started have no known URL and are always included',
+              },
+              resourceType: {
+                type: 'string',
+                description: 'For get_network_requests: resource type, e.g. Document, Script, Stylesheet, Image, Font, XHR, Fetch, Preflight (case-insensitive)',
+              },
+              status: {
+                type: 'string',
+                description: "For get_network_requests: status code (e.g. '404'), status class (e.g. '4xx') or 'failed'",
+              },
+              method: {
+                type: 'string',
+                description: 'For get_network_requests: HTTP method, e.g. POST',
+              },
+              direction: {
+                type: 'string',
+                enum: ['sent', 'received'],
+                description: 'For get_websocket_frames: only frames sent by the page or received from the server',
+              },
+              match: {
+                type: 'string',
+                description: 'For get_websocket_frames: regular expression the frame payload must match',
+              },
+              afterIndex: {
+                type: 'number',
+                description: 'For get_websocket_frames: only frames after this index. Pass the lastIndex of a previous call to see or wait for new frames only',
+              },
+              wait: {
+                type: 'boolean',
+                description: 'For get_websocket_frames: wait until a frame matching match (and the other filters) is captured. Only frames arriving after the call count unless afterIndex is given. Default: false',
+              },
+              waitTimeout: {
+                type: 'number',
+                description: 'For get_websocket_frames with wait: timeout in milliseconds. Default: 10000',
+              },
+              decodeJson: {
+                type: 'boolean',
+                description: 'For get_websocket_frames: add the parsed value of JSON text payloads as json. Default: true',
+              },
+              kind: {
+                type: 'string',
+                enum: ['exception', 'rejection', 'csp', 'intervention', 'violation', 'network', 'log'],
+                description: 'For get_errors: only errors of this kind',
+              },
+              sourceMaps: {
+                type: 'boolean',
+                description: 'For get_errors: resolve stack frames to original file:line through the page\'s source maps. Default: true',
+              },
+              includeBodies: {
+                type: 'boolean',
+                description: 'For export_har: include response bodies the browser still holds. Default: true',
+              },
+              filename: {
+                type: 'string',
+                description: 'For export_har: file name under logs/. Default: network-<browserId>-<timestamp>.har',
+              },
+              projectDir: {
+                type: 'string',
+                description: 'Optional project directory path for export_har. If not provided, will try to detect from environment or use current working directory',
+              },
+              persistent: {
+                type: 'boolean',
+                description: 'For enable_dev_tools: inject the capture hooks at the start of every new document via CDP, so they survive navigations and see page-load activity. Default: true',
               },
               property: {
                 type: 'string',
@@ -380,7 +666,31 @@ class MCPSeleniumServer {
               },
               preset: {
                 type: 'string',
-                description: 'Device preset name (for set_device_preset). Available: iphone-se, iphone-12, iphone-14-pro-max, ipad, ipad-pro, galaxy-s20, galaxy-s21, pixel-5, desktop, desktop-hd, tablet',
+                description: 'Device preset name (for set_device_preset). Available: iphone-se, iphone-12, iphone-14-pro-max, ipad, ipad-pro, galaxy-s20, galaxy-s21, pixel-5, desktop, desktop-hd, tablet. Network preset (for set_network_conditions): slow-3g, fast-3g, 4g, offline, no-throttling',
+              },
+              offline: {
+                type: 'boolean',
+                description: 'For set_network_conditions: emulate no connectivity',
+              },
+              latency: {
+                type: 'number',
+                description: 'For set_network_conditions: added round-trip latency in ms (overrides the preset)',
+              },
+              downloadKbps: {
+                type: 'number',
+                description: 'For set_network_conditions: download throughput in kbit/s (overrides the preset)',
+              },
+              uploadKbps: {
+                type: 'number',
+                description: 'For set_network_conditions: upload throughput in kbit/s (overrides the preset)',
+              },
+              disabled: {
+                type: 'boolean',
+                description: 'For set_cache_disabled: true disables the browser cache, false restores it. Default: true',
+              },
+              bypass: {
+                type: 'boolean',
+                description: 'For set_bypass_service_worker: true sends requests past service workers, false restores them. Default: true',
               },
               index: {
                 type: 'number',
@@ -467,137 +777,1175 @@ class MCPSeleniumServer {
             required: ['browserId'],
           },
         },
-      ];
-
-      // Add plugin tools
-      const plugins = this.pluginManager.getAllPlugins();
-      for (const plugin of plugins) {
-        for (const tool of plugin.tools) {
-          try {
-            // Validate and sanitize tool schema to ensure JSON serialization works
-            const sanitizedSchema = this.sanitizeToolSchema(tool.inputSchema);
-            const toolDef = {
-              name: tool.name,
-              description: tool.description,
-              inputSchema: sanitizedSchema,
-            };
-
-            // Test JSON serialization before adding
-            JSON.stringify(toolDef);
-
-            tools.push(toolDef);
-          } catch (error) {
-            this.logger.error('Failed to add plugin tool', {
-              plugin: plugin.name,
-              tool: tool.name,
-              error: error instanceof Error ? error.message : String(error)
-            });
-          }
-        }
-      }
-
-      // Final validation - ensure the entire tools array can be serialized
-      try {
-        JSON.stringify(tools);
-      } catch (error) {
-        this.logger.error('Tools array serialization failed', {
-          error: error instanceof Error ? error.message : String(error),
-          toolCount: tools.length
-        });
-        // Return only built-in tools if plugin tools cause issues
-        return { tools: tools.slice(0, tools.length - (tools.length - 625)) };
-      }
-
-      return { tools };
-    });
-
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
-      // Log incoming tool call for debugging
-      try {
-        this.logger.debug('Handling CallTool action', {
-          toolName: name,
-          argsKeys: args ? Object.keys(args) : [],
-          argsStringified: args ? JSON.stringify(args).substring(0, 200) : 'null'
-        });
-      } catch (logError) {
-        this.logger.warn('Failed to log tool call args', {
-          toolName: name,
-          error: logError instanceof Error ? logError.message : String(logError)
-        });
-      }
-
-      try {
-        let result;
-
-        switch (name) {
-          case 'open_browser':
-            result = await openBrowserTool(args, this.browserSessions, this.chromeDriverManager, this.logger, this.setBadge.bind(this));
-            break;
-
-          case 'list_browsers':
-            result = await this.listBrowsers();
-            break;
-
-          case 'navigate_to':
-            result = await this.handleNavigateTo(args);
-            break;
-
-          case 'click_element':
-            result = await this.handleClickElement(args);
-            break;
-
-          case 'type_text':
-            result = await this.handleTypeText(args);
-            break;
-
-          case 'take_screenshot':
-            result = await this.handleTakeScreenshot(args);
-            break;
-
-          case 'execute_script':
-            result = await this.handleExecuteScript(args);
-            break;
-
-          case 'close_browser':
-            result = await closeBrowserTool(args, this.getSession.bind(this), this.browserSessions, this.logger, this.getSessionByBrowserId.bind(this));
-            break;
-
-          case 'set_window_size':
-            result = await this.setWindowSize(args);
-            break;
-
-          case 'set_window_position':
-            result = await this.setWindowPosition(args);
-            break;
-
-          case 'get_page_elements':
-            result = await this.handleGetPageElements(args);
-            break;
-
-          case 'get_page_code':
-            result = await this.handleGetPageCode(args);
-            break;
-
-          case 'dev_tools':
-            result = await this.handleDevTools(args);
-            break;
-
-          default:
-            // Check if it's a plugin tool
-            const pluginTool = this.findPluginTool(name);
-            if (pluginTool) {
-              try {
-                // Pass context to plugin (getSession function)
-                const context = {
-                  getSession: this.getSession.bind(this),
-                  browserSessions: this.browserSessions,
-                };
-                result = await this.pluginManager.executeTool(pluginTool.pluginName, pluginTool.toolName, args || {}, context);
-              } catch (error) {
-                result = {
-                  success: false,
+        {
+          name: 'fill_form',
+          description: 'Fill several form fields in one call and optionally submit the form. Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+              fields: {
+                type: 'object',
+                description: 'Map of field name to { selector, value, by? }. Example: { "email": { "selector": "#email", "value": "a@b.com" } }',
+                additionalProperties: {
+                  type: 'object',
+                  properties: {
+                    selector: { type: 'string', description: 'Selector of the field' },
+                    value: { type: 'string', description: 'Value to enter' },
+                    by: { type: 'string', enum: LOCATOR_STRATEGIES, description: 'Selector type of this field. Default: css' },
+                  },
+                  required: ['selector', 'value'],
+                },
+              },
+              submitAfter: {
+                type: 'boolean',
+                description: 'Click the submit button after filling. Default: false',
+              },
+              submitSelector: {
+                type: 'string',
+                description: 'Selector of the submit button. Default: first button[type="submit"] or input[type="submit"]',
+              },
+              submitBy: {
+                type: 'string',
+                enum: LOCATOR_STRATEGIES,
+                description: 'Selector type of submitSelector. Default: css',
+              },
+              timeout: {
+                type: 'number',
+                description: 'Maximum time to wait for each field in milliseconds. Default: 5000',
+              },
+            },
+            required: ['browserId', 'fields'],
+          },
+        },
+        {
+          name: 'select_option',
+          description: 'Select an option in a <select> dropdown by visible text, value or index. Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+              selector: {
+                type: 'string',
+                description: 'Selector of the select element',
+              },
+              by: {
+                type: 'string',
+                enum: LOCATOR_STRATEGIES,
+                description: LOCATOR_DESCRIPTION,
+              },
+              frame: {
+                oneOf: [
+                  { type: 'number' },
+                  { type: 'string' },
+                  { type: 'array', items: { oneOf: [{ type: 'number' }, { type: 'string' }] } },
+                ],
+                description: 'Frame to run in: index, name/id, CSS selector of the iframe, or the path from list_frames (e.g. "0/1"). Arrays chain into nested frames, outermost first. Default: top-level document',
+              },
+              option: {
+                type: 'object',
+                description: 'Option to select. by=text matches visible text (partial, case-insensitive), by=value matches the value attribute, by=index picks by position',
+                properties: {
+                  by: { type: 'string', enum: ['text', 'value', 'index'] },
+                  text: { type: 'string' },
+                  value: { type: 'string' },
+                  index: { type: 'number' },
+                },
+                required: ['by'],
+              },
+            },
+            required: ['browserId', 'selector', 'option'],
+          },
+        },
+        {
+          name: 'wait_for_page_change',
+          description: 'Wait until the page URL changes, or until it matches a pattern. Use after clicks that trigger navigation. Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+              fromUrl: {
+                type: 'string',
+                description: 'URL to wait to change from. Default: current URL',
+              },
+              toUrlPattern: {
+                type: 'string',
+                description: 'Regular expression the new URL must match. If omitted, any URL change counts',
+              },
+              timeout: {
+                type: 'number',
+                description: 'Timeout in milliseconds. Default: 10000',
+              },
+              takeScreenshot: {
+                type: 'boolean',
+                description: 'Include a screenshot of the new page, returned as image content. Default: false',
+              },
+            },
+            required: ['browserId'],
+          },
+        },
+        {
+          name: 'check_element_exists',
+          description: 'Check whether an element exists and report whether it is visible, enabled and clickable, with a recommended action. Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+              selector: {
+                type: 'string',
+                description: 'Selector of the element',
+              },
+              by: {
+                type: 'string',
+                enum: LOCATOR_STRATEGIES,
+                description: LOCATOR_DESCRIPTION,
+              },
+            },
+            required: ['browserId', 'selector'],
+          },
+        },
+        {
+          name: 'list_elements',
+          description: 'List elements on the page as a flat list, filtered by type, tag, CSS selector or contained text. Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+              filter: {
+                type: 'object',
+                description: 'Optional filters',
+                properties: {
+                  type: { type: 'string', enum: ['button', 'input', 'link', 'form', 'select'], description: 'Element category' },
+                  tagName: { type: 'string', description: 'Tag name to match' },
+                  cssSelector: { type: 'string', description: 'CSS selector the element must match' },
+                  containsText: { type: 'string', description: 'Text the element must contain (case-insensitive)' },
+                  visibleOnly: { type: 'boolean', description: 'Only visible elements. Default: true' },
+                },
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of elements to return. Default: 50',
+              },
+              includeHidden: {
+                type: 'boolean',
+                description: 'Include hidden elements. Default: false',
+              },
+            },
+            required: ['browserId'],
+          },
+        },
+        {
+          name: 'find_by_description',
+          description: 'Find interactive elements matching a natural language description (e.g. "login button top right"). Returns ranked matches with selectors. Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+              description: {
+                type: 'string',
+                description: 'Description of the element to find',
+              },
+              context: {
+                type: 'string',
+                description: 'Optional CSS selector of a container to search within. host >>> inner reaches into shadow roots',
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of matches to return. Default: 10',
+              },
+              pierceShadow: {
+                type: 'boolean',
+                description: 'Also search inside open shadow roots of web components. Default: false',
+              },
+            },
+            required: ['browserId', 'description'],
+          },
+        },
+        {
+          name: 'set_badge',
+          description: 'Show (or remove, with an empty badge) a debug badge on the page. The badge persists across navigations. Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+              badge: {
+                type: 'string',
+                description: 'Badge text. Empty string removes the badge',
+              },
+            },
+            required: ['browserId', 'badge'],
+          },
+        },
+        {
+          name: 'hover_element',
+          description: 'Move the mouse over an element, e.g. to open menus or show tooltips. Provide a selector or a ref from get_page_elements. Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+              selector: {
+                type: 'string',
+                description: 'Selector of the element to hover',
+              },
+              ref: {
+                type: 'string',
+                description: 'Element ref from get_page_elements (e.g. e12), instead of selector. Refs last until the page navigates; inside a frame, also pass the element\'s frame',
+              },
+              by: {
+                type: 'string',
+                enum: LOCATOR_STRATEGIES,
+                description: LOCATOR_DESCRIPTION,
+              },
+              timeout: {
+                type: 'number',
+                description: 'Maximum time to wait for the element in milliseconds. Default: 3000',
+              },
+            },
+            required: ['browserId'],
+          },
+        },
+        {
+          name: 'double_click_element',
+          description: 'Double click an element. Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+              selector: {
+                type: 'string',
+                description: 'Selector of the element to double click',
+              },
+              by: {
+                type: 'string',
+                enum: LOCATOR_STRATEGIES,
+                description: LOCATOR_DESCRIPTION,
+              },
+              timeout: {
+                type: 'number',
+                description: 'Maximum time to wait for the element in milliseconds. Default: 3000',
+              },
+            },
+            required: ['browserId', 'selector'],
+          },
+        },
+        {
+          name: 'right_click_element',
+          description: 'Right click an element to open its context menu. Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+              selector: {
+                type: 'string',
+                description: 'Selector of the element to right click',
+              },
+              by: {
+                type: 'string',
+                enum: LOCATOR_STRATEGIES,
+                description: LOCATOR_DESCRIPTION,
+              },
+              timeout: {
+                type: 'number',
+                description: 'Maximum time to wait for the element in milliseconds. Default: 3000',
+              },
+            },
+            required: ['browserId', 'selector'],
+          },
+        },
+        {
+          name: 'drag_and_drop',
+          description: 'Drag an element and drop it onto another element. Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+              sourceSelector: {
+                type: 'string',
+                description: 'Selector of the element to drag',
+              },
+              targetSelector: {
+                type: 'string',
+                description: 'Selector of the element to drop onto',
+              },
+              sourceBy: {
+                type: 'string',
+                enum: LOCATOR_STRATEGIES,
+                description: 'Selector type of sourceSelector. Default: css',
+              },
+              targetBy: {
+                type: 'string',
+                enum: LOCATOR_STRATEGIES,
+                description: 'Selector type of targetSelector. Default: css',
+              },
+              timeout: {
+                type: 'number',
+                description: 'Maximum time to wait for each element in milliseconds. Default: 3000',
+              },
+            },
+            required: ['browserId', 'sourceSelector', 'targetSelector'],
+          },
+        },
+        {
+          name: 'inspect_element',
+          description: 'Inspect an element: attributes, computed styles, bounding box, visibility and state (enabled, selected, checked). Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+              selector: {
+                type: 'string',
+                description: 'Selector of the element to inspect',
+              },
+              by: {
+                type: 'string',
+                enum: LOCATOR_STRATEGIES,
+                description: LOCATOR_DESCRIPTION,
+              },
+            },
+            required: ['browserId', 'selector'],
+          },
+        },
+        {
+          name: 'debug_page',
+          description: 'Collect a debugging overview of the current page: URL, ready state, viewport, document and timing details, error and console counts, and element counts. Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+            },
+            required: ['browserId'],
+          },
+        },
+        {
+          name: 'disable_user_interactions',
+          description: 'Block manual mouse, keyboard and touch input on the page so automation is not disturbed, optionally showing an overlay. Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+              disableMouse: {
+                type: 'boolean',
+                description: 'Block mouse input. Default: true',
+              },
+              disableKeyboard: {
+                type: 'boolean',
+                description: 'Block keyboard input. Default: true',
+              },
+              disableTouch: {
+                type: 'boolean',
+                description: 'Block touch input. Default: true',
+              },
+              showOverlay: {
+                type: 'boolean',
+                description: 'Show an overlay indicating that automation is running. Default: true',
+              },
+            },
+            required: ['browserId'],
+          },
+        },
+        {
+          name: 'enable_user_interactions',
+          description: 'Restore manual input blocked by disable_user_interactions. Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+            },
+            required: ['browserId'],
+          },
+        },
+        {
+          name: 'toggle_mobile_view',
+          description: 'Switch the page to a mobile device viewport (iPhone, iPad, Android or custom size) or back to desktop. Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+              mobile: {
+                type: 'boolean',
+                description: 'true for mobile view, false to restore desktop view. Default: true',
+              },
+              deviceType: {
+                type: 'string',
+                enum: ['iPhone', 'iPad', 'Android', 'custom'],
+                description: 'Device to emulate. Default: iPhone',
+              },
+              width: {
+                type: 'number',
+                description: 'Viewport width for custom device',
+              },
+              height: {
+                type: 'number',
+                description: 'Viewport height for custom device',
+              },
+            },
+            required: ['browserId'],
+          },
+        },
+        {
+          name: 'export_session_history',
+          description: 'Export the tool calls executed on this browser, with arguments, results, timings and replay instructions, as markdown or JSON. Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+              format: {
+                type: 'string',
+                enum: ['markdown', 'json'],
+                description: 'Export format. Default: markdown',
+              },
+              save: {
+                type: 'boolean',
+                description: 'Also write the export to the logs directory. Default: false',
+              },
+              projectDir: {
+                type: 'string',
+                description: 'Project directory used when saving. Default: current working directory',
+              },
+            },
+            required: ['browserId'],
+          },
+        },
+        {
+          name: 'run_actions',
+          description: 'Run an ordered list of actions in a single call: navigate, click, type, wait, screenshot and script. Returns per-step status, timing and output. Use browserId to identify the browser instance. Example: actions=[{"action":"navigate","url":"https://example.com/login"},{"action":"type","selector":"#email","text":"a@b.c"},{"action":"click","selector":"button[type=submit]"}]',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+              actions: {
+                type: 'array',
+                description: 'Actions to run in order',
+                items: {
+                  type: 'object',
+                  properties: {
+                    action: {
+                      type: 'string',
+                      enum: ['navigate', 'click', 'type', 'wait', 'screenshot', 'script'],
+                      description: 'Action to run',
+                    },
+                    url: {
+                      type: 'string',
+                      description: 'URL for navigate',
+                    },
+                    selector: {
+                      type: 'string',
+                      description: 'Element selector for click and type',
+                    },
+                    ref: {
+                      type: 'string',
+                      description: 'Element ref from get_page_elements for click and type, instead of selector',
+                    },
+                    by: {
+                      type: 'string',
+                      enum: LOCATOR_STRATEGIES,
+                      description: LOCATOR_DESCRIPTION,
+                    },
+                    text: {
+                      type: 'string',
+                      description: 'Text for type',
+                    },
+                    mode: {
+                      type: 'string',
+                      enum: ['script', 'native'],
+                      description: 'Input mode for click and type, as in click_element and type_text. Default: script',
+                    },
+                    append: {
+                      type: 'boolean',
+                      description: 'For type, add to the current value instead of replacing it',
+                    },
+                    delay: {
+                      type: 'number',
+                      description: 'For native type, milliseconds between keystrokes',
+                    },
+                    force: {
+                      type: 'boolean',
+                      description: 'For click and type, skip the actionability checks',
+                    },
+                    frame: {
+                      oneOf: [
+                        { type: 'number' },
+                        { type: 'string' },
+                        { type: 'array', items: { oneOf: [{ type: 'number' }, { type: 'string' }] } },
+                      ],
+                      description: 'Frame for click and type, as in click_element',
+                    },
+                    ms: {
+                      type: 'number',
+                      description: 'Milliseconds for wait. Default: 1000',
+                    },
+                    filename: {
+                      type: 'string',
+                      description: 'File name for screenshot',
+                    },
+                    script: {
+                      type: 'string',
+                      description: 'JavaScript for script, same rules as execute_script',
+                    },
+                    args: {
+                      type: 'array',
+                      description: 'Arguments passed to script',
+                    },
+                  },
+                  required: ['action'],
+                },
+              },
+              continueOnError: {
+                type: 'boolean',
+                description: 'Keep running the remaining actions after a failure. Default: false',
+              },
+              stopOnError: {
+                type: 'boolean',
+                description: 'Stop at the first failed action (ignored when continueOnError is true). Default: true',
+              },
+            },
+            required: ['browserId', 'actions'],
+          },
+        },
+        {
+          name: 'list_frames',
+          description: 'List the iframes of the page, nested frames included, with name, src, URL and the frame value to pass to click_element, type_text, execute_script and get_page_elements. Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+              maxDepth: {
+                type: 'number',
+                description: 'How deep to follow nested frames. Default: 5',
+              },
+            },
+            required: ['browserId'],
+          },
+        },
+        {
+          name: 'wait_for',
+          description: 'Wait until a condition holds: a selector is attached, detached, visible, hidden or enabled; text is present or gone; the URL matches a pattern; the network has been idle or the DOM free of mutations for idleTime ms; or a JavaScript predicate is truthy. Use after actions that update a single-page app. Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+              ...WAIT_CONDITION_SCHEMA.properties,
+              frame: {
+                oneOf: [
+                  { type: 'number' },
+                  { type: 'string' },
+                  { type: 'array', items: { oneOf: [{ type: 'number' }, { type: 'string' }] } },
+                ],
+                description: 'Frame to evaluate the condition in, as in click_element. Default: top-level document',
+              },
+            },
+            required: ['browserId'],
+          },
+        },
+        {
+          name: 'compare_screenshot',
+          description: 'Visual regression check. The first run saves the screenshot as a named baseline under baselines/; later runs diff against it pixel by pixel and report the mismatch percentage, writing <name>-diff.png (changes in red) and <name>-actual.png under images/. Fails when the mismatch exceeds maxDiffPercent. Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+              name: {
+                type: 'string',
+                description: 'Baseline name, e.g. "checkout-page"',
+              },
+              selector: {
+                type: 'string',
+                description: 'Compare only this element instead of the viewport',
+              },
+              ref: {
+                type: 'string',
+                description: 'Element ref from get_page_elements to compare, instead of selector',
+              },
+              by: {
+                type: 'string',
+                enum: LOCATOR_STRATEGIES,
+                description: LOCATOR_DESCRIPTION,
+              },
+              fullPage: {
+                type: 'boolean',
+                description: 'Compare the whole scrollable page. Default: false',
+              },
+              mask: {
+                type: 'array',
+                items: {
+                  oneOf: [
+                    { type: 'string' },
+                    { type: 'object', properties: { selector: { type: 'string' }, by: { type: 'string', enum: LOCATOR_STRATEGIES } }, required: ['selector'] },
+                  ],
+                },
+                description: 'Selectors of elements to black out in both images, e.g. timestamps or ads',
+              },
+              ignore: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: { x: { type: 'number' }, y: { type: 'number' }, width: { type: 'number' }, height: { type: 'number' } },
+                  required: ['x', 'y', 'width', 'height'],
+                },
+                description: 'Regions in image pixels that are not compared',
+              },
+              threshold: {
+                type: 'number',
+                description: 'Colour distance from 0 to 1 below which two pixels count as equal, to absorb anti-aliasing. Default: 0.1',
+              },
+              maxDiffPercent: {
+                type: 'number',
+                description: 'Percentage of differing pixels still accepted as a match. Default: 0',
+              },
+              updateBaseline: {
+                type: 'boolean',
+                description: 'Replace the baseline with the current screenshot. Default: false',
+              },
+              inline: {
+                type: 'boolean',
+                description: 'Return the diff image as image content when pixels differ. Default: false',
+              },
+              projectDir: {
+                type: 'string',
+                description: 'Optional project directory path. If not provided, will try to detect from environment or use current working directory',
+              },
+            },
+            required: ['browserId', 'name'],
+          },
+        },
+        {
+          name: 'network_rules',
+          description: 'Intercept the browser\'s requests: block them (analytics, ads), answer them with a mocked response, rewrite request headers, or fail them with a network error. Rules match by URL glob and apply until removed; the first matching rule wins. Can also replay a recorded HAR file. Every operation returns the rules with how often each matched. Use browserId to identify the browser instance.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to identify the browser instance. Use this for managing multiple browser sessions (e.g., "user1", "user2" for testing chat apps).',
+              },
+              operation: {
+                type: 'string',
+                enum: ['add', 'remove', 'list', 'clear', 'replay_har', 'stop_replay'],
+                description: 'add a rule, remove one by ruleId, list rules with match counts, or clear all rules. replay_har serves responses recorded in a HAR file (e.g. from dev_tools export_har) for requests no rule handles, so a flow runs offline against frozen responses; stop_replay ends it. Default: list',
+              },
+              harFile: {
+                type: 'string',
+                description: 'replay_har: HAR file, relative to the project directory or to its logs/ folder',
+              },
+              notFound: {
+                type: 'string',
+                enum: ['fail', 'continue'],
+                description: 'replay_har: what happens to requests missing from the HAR. fail reports them as offline; continue sends them to the network. Default: fail',
+              },
+              matchQuery: {
+                type: 'boolean',
+                description: 'replay_har: match the query string as well as the URL path. Default: true',
+              },
+              ruleId: {
+                type: 'string',
+                description: 'Rule identifier. Optional for add (generated when omitted; an existing rule with the same id is replaced), required for remove',
+              },
+              urlPattern: {
+                type: 'string',
+                description: 'Glob over the full URL: * matches any characters, ? one character. E.g. "*google-analytics.com*", "https://api.example.com/users/*"',
+              },
+              action: {
+                type: 'string',
+                enum: ['block', 'mock', 'modify', 'fail'],
+                description: 'block: fail as blocked by client. mock: respond with status, headers and body without hitting the network. modify: send the request with headers changed. fail: fail with errorReason. Default: block',
+              },
+              method: {
+                type: 'string',
+                description: 'Only match this HTTP method',
+              },
+              resourceType: {
+                type: 'string',
+                description: 'Only match this resource type, e.g. Document, Script, Stylesheet, Image, Font, XHR, Fetch',
+              },
+              status: {
+                type: 'number',
+                description: 'mock: response status code. Default: 200',
+              },
+              headers: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'mock: response headers. modify: request headers to set; an empty string removes the header',
+              },
+              body: {
+                description: 'mock: response body. A string is sent as is; an object or array is sent as JSON',
+              },
+              bodyFile: {
+                type: 'string',
+                description: 'mock: file whose content is the response body, relative to the project directory. Content-Type follows the extension unless set in headers',
+              },
+              errorReason: {
+                type: 'string',
+                enum: ['Failed', 'Aborted', 'TimedOut', 'AccessDenied', 'ConnectionClosed', 'ConnectionReset', 'ConnectionRefused', 'ConnectionAborted', 'ConnectionFailed', 'NameNotResolved', 'InternetDisconnected', 'AddressUnreachable', 'BlockedByClient', 'BlockedByResponse'],
+                description: 'fail: network error to report. Default: Failed',
+              },
+              times: {
+                type: 'number',
+                description: 'Apply the rule only to the first N matching requests',
+              },
+              projectDir: {
+                type: 'string',
+                description: 'Optional project directory path. If not provided, will try to detect from environment or use current working directory',
+              },
+            },
+            required: ['browserId'],
+          },
+        },
+        {
+          name: 'start_recording',
+          description: 'Start recording a scenario on a browser instance. While recording, navigate_to, click_element, type_text, take_screenshot, fill_form, select_option and wait_for_page_change calls on this browserId are captured as scenario steps. Use stop_recording to save the scenario.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to record actions from',
+              },
+              name: {
+                type: 'string',
+                description: 'Name of the scenario',
+              },
+              description: {
+                type: 'string',
+                description: 'Optional description of what the scenario does',
+              },
+            },
+            required: ['browserId', 'name'],
+          },
+        },
+        {
+          name: 'stop_recording',
+          description: 'Stop recording on a browser instance and save the scenario as JSON under scenarios/ in the project directory.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID that is currently recording',
+              },
+              expectedResult: {
+                type: 'object',
+                description: 'Optional final state asserted after every replay. Values written as /pattern/flags are matched as regular expressions',
+                properties: {
+                  finalUrl: { type: 'string', description: 'Expected URL after the last step (exact or /regex/)' },
+                  title: { type: 'string', description: 'Expected page title (exact or /regex/)' },
+                  element: { type: 'string', description: 'CSS selector of an element that must be present' },
+                },
+              },
+            },
+            required: ['browserId'],
+          },
+        },
+        {
+          name: 'list_scenarios',
+          description: 'List saved scenarios from the scenarios/ folder in the project directory.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              projectDir: {
+                type: 'string',
+                description: 'Optional project directory path. If not provided, will try to detect from environment or use current working directory',
+              },
+            },
+          },
+        },
+        {
+          name: 'replay_scenario',
+          description: 'Replay a saved scenario against any open browser instance. Reports pass/fail per step, then verifies the scenario expectedResult (final URL, title, element) and saves a screenshot if it is not met.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to run the scenario in',
+              },
+              scenarioId: {
+                type: 'string',
+                description: 'Scenario ID (or scenario name) to replay',
+              },
+              variables: {
+                type: 'object',
+                description: 'Optional values for {{name}} placeholders in step url, value, selector and fields. Overrides the scenario default variables',
+              },
+              continueOnError: {
+                type: 'boolean',
+                description: 'Keep running remaining steps after a step fails. Default: false (remaining steps are skipped)',
+              },
+              projectDir: {
+                type: 'string',
+                description: 'Optional project directory path. If not provided, will try to detect from environment or use current working directory',
+              },
+            },
+            required: ['browserId', 'scenarioId'],
+          },
+        },
+        {
+          name: 'run_scenario_dataset',
+          description: 'Run a saved scenario once per row of a local CSV or JSON dataset. Each row supplies values for {{name}} placeholders. Returns a table of per-row results.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              browserId: {
+                type: 'string',
+                description: 'Browser ID to run the scenario in',
+              },
+              scenarioId: {
+                type: 'string',
+                description: 'Scenario ID (or scenario name) to run',
+              },
+              dataset: {
+                type: 'string',
+                description: 'Path to a CSV file (first row is the header with variable names) or a JSON file (array of objects). Relative paths resolve against the project directory',
+              },
+              variables: {
+                type: 'object',
+                description: 'Optional values applied to every row. Row values take precedence',
+              },
+              continueOnError: {
+                type: 'boolean',
+                description: 'Keep running remaining steps of a row after a step fails. Default: false',
+              },
+              projectDir: {
+                type: 'string',
+                description: 'Optional project directory path. If not provided, will try to detect from environment or use current working directory',
+              },
+            },
+            required: ['browserId', 'scenarioId', 'dataset'],
+          },
+        },
+        {
+          name: 'export_scenario',
+          description: 'Export a saved scenario as standalone test code: selenium-webdriver with Mocha or Jest (TypeScript), or Playwright Test. Files are written under scenarios/exported/<target>/ unless outputDir is given.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              scenarioId: {
+                type: 'string',
+                description: 'Scenario ID (or scenario name) to export',
+              },
+              target: {
+                type: 'string',
+                enum: ['selenium-mocha', 'selenium-jest', 'playwright', 'all'],
+                description: 'Test framework to generate code for. Default: all',
+              },
+              outputDir: {
+                type: 'string',
+                description: 'Optional output directory. Relative paths resolve against the project directory',
+              },
+              projectDir: {
+                type: 'string',
+                description: 'Optional project directory path. If not provided, will try to detect from environment or use current working directory',
+              },
+            },
+            required: ['scenarioId'],
+          },
+        },
+      ];
+
+      // Add plugin tools
+      const plugins = this.pluginManager.getAllPlugins();
+      for (const plugin of plugins) {
+        for (const tool of plugin.tools) {
+          try {
+            // Validate and sanitize tool schema to ensure JSON serialization works
+            const sanitizedSchema = this.sanitizeToolSchema(tool.inputSchema);
+            const toolDef = {
+              name: tool.name,
+              description: tool.description,
+              inputSchema: sanitizedSchema,
+            };
+
+            // Test JSON serialization before adding
+            JSON.stringify(toolDef);
+
+            tools.push(toolDef);
+          } catch (error) {
+            this.logger.error('Failed to add plugin tool', {
+              plugin: plugin.name,
+              tool: tool.name,
+              error: error instanceof Error ? error.message : String(error)
+            });
+          }
+        }
+      }
+
+      // Final validation - ensure the entire tools array can be serialized
+      try {
+        JSON.stringify(tools);
+      } catch (error) {
+        this.logger.error('Tools array serialization failed', {
+          error: error instanceof Error ? error.message : String(error),
+          toolCount: tools.length
+        });
+        // Return only built-in tools if plugin tools cause issues
+        return { tools: tools.slice(0, tools.length - (tools.length - 625)) };
+      }
+
+      return { tools };
+    });
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+
+      // Log incoming tool call for debugging
+      try {
+        this.logger.debug('Handling CallTool action', {
+          toolName: name,
+          argsKeys: args ? Object.keys(args) : [],
+          argsStringified: args ? JSON.stringify(args).substring(0, 200) : 'null'
+        });
+      } catch (logError) {
+        this.logger.warn('Failed to log tool call args', {
+          toolName: name,
+          error: logError instanceof Error ? logError.message : String(logError)
+        });
+      }
+
+      const startTime = Date.now();
+      try {
+        let result;
+
+        switch (name) {
+          case 'open_browser':
+            result = await openBrowserTool(args, this.browserSessions, this.chromeDriverManager, this.logger, this.handleSetBadge.bind(this));
+            break;
+
+          case 'list_browsers':
+            result = await this.listBrowsers();
+            break;
+
+          case 'navigate_to':
+            result = await this.handleNavigateTo(args);
+            break;
+
+          case 'click_element':
+            result = await this.handleClickElement(args);
+            break;
+
+          case 'type_text':
+            result = await this.handleTypeText(args);
+            break;
+
+          case 'take_screenshot':
+            result = await this.handleTakeScreenshot(args);
+            break;
+
+          case 'execute_script':
+            result = await this.handleExecuteScript(args);
+            break;
+
+          case 'close_browser':
+            result = await closeBrowserTool(args, this.getSession.bind(this), this.browserSessions, this.logger, this.getSessionByBrowserId.bind(this));
+            break;
+
+          case 'set_window_size':
+            result = await this.setWindowSize(args);
+            break;
+
+          case 'set_window_position':
+            result = await this.setWindowPosition(args);
+            break;
+
+          case 'get_page_elements':
+            result = await this.handleGetPageElements(args);
+            break;
+
+          case 'get_page_code':
+            result = await this.handleGetPageCode(args);
+            break;
+
+          case 'dev_tools':
+            result = await this.handleDevTools(args);
+            break;
+
+          case 'fill_form':
+            result = await this.handleFillForm(args);
+            break;
+
+          case 'select_option':
+            result = await this.handleSelectOption(args);
+            break;
+
+          case 'wait_for_page_change':
+            result = await this.handleWaitForPageChange(args);
+            break;
+
+          case 'check_element_exists':
+            result = await this.handleCheckElementExists(args);
+            break;
+
+          case 'list_elements':
+            result = await this.handleListElements(args);
+            break;
+
+          case 'find_by_description':
+            result = await this.handleFindByDescription(args);
+            break;
+
+          case 'set_badge':
+            result = await this.handleSetBadge(args);
+            break;
+
+          case 'hover_element':
+            result = await this.handleHoverElement(args);
+            break;
+
+          case 'double_click_element':
+            result = await this.handleDoubleClickElement(args);
+            break;
+
+          case 'right_click_element':
+            result = await this.handleRightClickElement(args);
+            break;
+
+          case 'drag_and_drop':
+            result = await this.handleDragAndDrop(args);
+            break;
+
+          case 'inspect_element':
+            result = await this.handleInspectElement(args);
+            break;
+
+          case 'debug_page':
+            result = await this.handleDebugPage(args);
+            break;
+
+          case 'disable_user_interactions':
+            result = await this.handleDisableUserInteractions(args);
+            break;
+
+          case 'enable_user_interactions':
+            result = await this.handleEnableUserInteractions(args);
+            break;
+
+          case 'toggle_mobile_view':
+            result = await this.handleToggleMobileView(args);
+            break;
+
+          case 'export_session_history':
+            result = await this.handleExportSessionHistory(args);
+            break;
+
+          case 'list_frames':
+            result = await this.handleListFrames(args);
+            break;
+
+          case 'run_actions':
+            result = await this.handleRunActions(args);
+            break;
+
+          case 'wait_for':
+            result = await this.handleWaitFor(args);
+            break;
+
+          case 'compare_screenshot':
+            result = await this.handleCompareScreenshot(args);
+            break;
+
+          case 'network_rules':
+            result = await this.handleNetworkRules(args);
+            break;
+
+          case 'start_recording':
+            result = await this.handleStartRecording(args);
+            break;
+
+          case 'stop_recording':
+            result = await stopRecordingTool(args, this.scenarioManager, this.logger);
+            break;
+
+          case 'list_scenarios':
+            result = await listScenariosTool(args || {}, this.scenarioManager, this.logger);
+            break;
+
+          case 'replay_scenario':
+            result = await this.handleReplayScenario(args);
+            break;
+
+          case 'run_scenario_dataset':
+            result = await this.handleRunScenarioDataset(args);
+            break;
+
+          case 'export_scenario':
+            result = await exportScenarioTool(args, this.scenarioManager, this.logger);
+            break;
+
+          default:
+            // Check if it's a plugin tool
+            const pluginTool = this.findPluginTool(name);
+            if (pluginTool) {
+              try {
+                // Pass context to plugin (getSession function)
+                const context = {
+                  getSession: this.getSession.bind(this),
+                  browserSessions: this.browserSessions,
+                };
+                result = await this.pluginManager.executeTool(pluginTool.pluginName, pluginTool.toolName, args || {}, context);
+              } catch (error) {
+                result = {
+                  success: false,
                   message: `Plugin tool error: ${error instanceof Error ? error.message : String(error)}`,
                 };
               }
@@ -609,6 +1957,24 @@ class MCPSeleniumServer {
             }
         }
 
+        // Capture successful browser actions into an active scenario recording
+        if (result && typeof result === 'object' && 'success' in result && result.success) {
+          this.scenarioManager.recordToolCall(name, args, result.data);
+        }
+
+        // Keep the per-browser command history used by export_session_history
+        const historySession = args?.browserId ? this.browserSessions.get(args.browserId as string) : undefined;
+        // export_session_history is left out: each export would otherwise embed every earlier one
+        if (historySession && name !== 'export_session_history' && result && typeof result === 'object' && 'success' in result) {
+          historySession.core.addCommandToHistory(
+            name,
+            args,
+            { success: !!result.success, message: result.message || '', data: result.data },
+            historySession.browserId,
+            Date.now() - startTime
+          );
+        }
+
         // Log successful tool execution
         this.logger.debug('Tool execution completed', {
           toolName: name,
@@ -627,14 +1993,16 @@ class MCPSeleniumServer {
           )) {
             return result;
           }
-          // Otherwise, format the content as markdown
-          const markdownText = this.formatResultAsMarkdown(result, name);
+          // Otherwise, format the text content as markdown and keep images and other media as they are
+          const media = result.content.filter((item: any) => item && item.type !== 'text');
+          const markdownText = this.formatResultAsMarkdown(media.length ? { ...result, content: result.content.filter((item: any) => !media.includes(item)) } : result, name);
           return {
             content: [
               {
                 type: 'text',
                 text: markdownText,
               },
+              ...media,
             ],
           };
         }
@@ -664,6 +2032,7 @@ class MCPSeleniumServer {
               type: 'text',
               text: responseText,
             },
+            ...this.imageContent(result),
           ],
         };
       } catch (error) {
@@ -796,22 +2165,17 @@ class MCPSeleniumServer {
     return String(result);
   }
 
-  private async findElementBySelector(driver: WebDriver, selector: string, by: string = 'css', timeout: number = 10000): Promise<WebElement> {
-    // This is kept for compatibility but should use executeScript instead
-    // Using Selenium's findElement only when absolutely necessary (for WebElement return type)
-    const { By, until } = await import('selenium-webdriver');
-    let byMethod;
-    switch (by.toLowerCase()) {
-      case 'css': byMethod = By.css; break;
-      case 'xpath': byMethod = By.xpath; break;
-      case 'id': byMethod = By.id; break;
-      case 'name': byMethod = By.name; break;
-      case 'classname': byMethod = By.className; break;
-      case 'tagname': byMethod = By.tagName; break;
-      case 'text': byMethod = By.xpath; selector = `//*[contains(text(), '${selector}')]`; break;
-      default: byMethod = By.css;
+  /**
+   * Images a built-in tool returned next to its result (e.g. take_screenshot with inline), as MCP image content.
+   * They are kept out of data so the text result and command history stay small.
+   */
+  private imageContent(result: any): Array<{ type: 'image'; data: string; mimeType: string }> {
+    if (!result || typeof result !== 'object' || !Array.isArray(result.images)) {
+      return [];
     }
-    return driver.wait(until.elementLocated(byMethod(selector)), timeout);
+    return result.images
+      .filter((image: any) => image && typeof image.data === 'string')
+      .map((image: any) => ({ type: 'image' as const, data: image.data, mimeType: image.mimeType || 'image/png' }));
   }
 
   private async getSession(sessionId: string): Promise<BrowserSession | null> {
@@ -833,28 +2197,6 @@ class MCPSeleniumServer {
     return null;
   }
 
-  private async setBadge(args: any) {
-    const { sessionId, badge } = args;
-    const session = await this.getSession(sessionId);
-    if (!session) return { success: false, message: 'Session not found' };
-
-    try {
-      if (badge && badge.trim()) {
-        const badgeText = badge.trim();
-        session.badge = badgeText;
-        await session.driver.executeScript(`localStorage.setItem('mcp-debug-badge', '${badgeText}');`);
-        await this.injectBadge(session.driver);
-        return { success: true };
-      } else {
-        session.badge = undefined;
-        await session.driver.executeScript(`localStorage.removeItem('mcp-debug-badge');const e=document.getElementById('mcp-debug-badge');if(e)e.remove();`);
-        return { success: true };
-      }
-    } catch (error) {
-      return { success: false, message: error instanceof Error ? error.message : String(error) };
-    }
-  }
-
   private async injectBadge(driver: WebDriver) {
     const result = await driver.executeScript(`
       try {
@@ -1040,510 +2382,256 @@ class MCPSeleniumServer {
     }
   }
 
-  private async listElements(args: any) {
-    const { sessionId, filter = {}, limit = 50, includeHidden = false } = args;
-    const session = await this.getSession(sessionId);
-    if (!session) return { success: false, message: 'Session not found' };
-
-    try {
-      const data = await session.driver.executeScript(`
-      const filter = arguments[0];
-      const limit = arguments[1];
-      const includeHidden = arguments[2];
-
-      function isVisible(el) {
-        const rect = el.getBoundingClientRect();
-        const style = window.getComputedStyle(el);
-        return rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none';
-      }
-
-      function getUniqueSelector(el) {
-        if (el.id) return '#' + CSS.escape(el.id);
-        const parts = [];
-        while (el && el.nodeType === 1 && el !== document.body) {
-          let part = el.nodeName.toLowerCase();
-          if (el.className) {
-            const cls = [...el.classList].slice(0,2).map(c => '.' + CSS.escape(c)).join('');
-            part += cls;
-          }
-          const siblings = Array.from(el.parentNode ? el.parentNode.children : []).filter(e => e.nodeName === el.nodeName);
-          if (siblings.length > 1) {
-            const index = siblings.indexOf(el) + 1;
-            part += ':nth-of-type(' + index + ')';
-          }
-          parts.unshift(part);
-          el = el.parentElement;
-        }
-        return parts.join(' > ');
-      }
-
-      function collectElements() {
-        let selector = '*';
-        switch (filter.type) {
-          case 'button': selector = 'button, [role="button"], input[type="button"], input[type="submit"]'; break;
-          case 'input': selector = 'input, textarea'; break;
-          case 'link': selector = 'a[href]'; break;
-          case 'form': selector = 'form'; break;
-          case 'select': selector = 'select'; break;
-          default: selector = '*';
-        }
-        let nodes = Array.from(document.querySelectorAll(selector));
-        if (filter.cssSelector) nodes = nodes.filter(n => n.matches(filter.cssSelector));
-        if (filter.tagName) nodes = nodes.filter(n => n.tagName.toLowerCase() === filter.tagName.toLowerCase());
-        if (filter.containsText) {
-          const q = filter.containsText.toLowerCase();
-          nodes = nodes.filter(n => (n.innerText || n.textContent || '').toLowerCase().includes(q));
-        }
-        if (!includeHidden && (filter.visibleOnly ?? true)) nodes = nodes.filter(isVisible);
-
-        const results = [];
-        for (let i=0; i<Math.min(nodes.length, limit); i++) {
-          const el = nodes[i];
-          const rect = el.getBoundingClientRect();
-          const attrs = {};
-          for (const a of Array.from(el.attributes)) attrs[a.name] = a.value;
-          results.push({
-            index: i,
-            selector: getUniqueSelector(el),
-            tagName: el.tagName.toLowerCase(),
-            text: (el.textContent || '').trim().slice(0,200),
-            attributes: {
-              id: el.id || '',
-              class: el.className || '',
-              name: el.getAttribute('name') || '',
-              type: el.getAttribute('type') || '',
-              placeholder: el.getAttribute('placeholder') || '',
-              value: (el.value !== undefined) ? el.value : '',
-              href: (el.href !== undefined) ? el.href : '',
-              'aria-label': el.getAttribute('aria-label') || '',
-              'data-testid': el.getAttribute('data-testid') || ''
-            },
-            isVisible: isVisible(el),
-            isEnabled: (el.disabled !== undefined) ? !el.disabled : true,
-            isSelected: (el.selected !== undefined) ? !!el.selected : false,
-            location: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
-            parent: el.parentElement ? getUniqueSelector(el.parentElement) : '',
-            visibleText: (el.innerText !== undefined) ? el.innerText : (el.textContent || '')
-          });
-        }
-        return { count: Math.min(nodes.length, limit), elements: results };
-      }
 
-      return collectElements();
-    `, filter, limit, includeHidden);
-
-      const result = data as any;
-      return { success: true, message: `Found ${result.count} elements`, data: result };
-    } catch (error) {
-      return { success: false, message: `Failed to list elements: ${error instanceof Error ? error.message : String(error)}` };
+  /**
+   * Helper to resolve session from browserId
+   * Cursor manages browser instances using browserId - this is the standard way to identify browsers
+   * browserId is required for all tools that operate on a browser instance
+   */
+  private async resolveSession(args: { browserId: string }): Promise<BrowserSession | null> {
+    if (!args.browserId) {
+      return null;
     }
+    const session = this.getSessionByBrowserId(args.browserId);
+    return session || null;
   }
 
-  private async checkElementExists(args: any) {
-    const { sessionId, selector, by = 'css' } = args;
-    const session = await this.getSession(sessionId);
-    if (!session) return { success: false, message: 'Session not found' };
-    try {
-      const info: any = await session.driver.executeScript(`
-        const selector = arguments[0];
-        const by = arguments[1];
-        
-        function findElement(sel, byMethod) {
-          if (byMethod === 'id') {
-            return document.getElementById(sel);
-          } else if (byMethod === 'name') {
-            return document.querySelector('[name="' + sel + '"]');
-          } else if (byMethod === 'className') {
-            return document.getElementsByClassName(sel)[0];
-          } else if (byMethod === 'tagName') {
-            return document.getElementsByTagName(sel)[0];
-          } else if (byMethod === 'xpath') {
-            const result = document.evaluate(sel, document, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null);
-            return result.singleNodeValue;
-          } else {
-            return document.querySelector(sel);
-          }
-        }
-        
-        const el = findElement(selector, by);
-        if (!el) {
-          return { exists: false };
-        }
-        
-        const rect = el.getBoundingClientRect();
-        const style = window.getComputedStyle(el);
-        const attrs = {};
-        for (const a of Array.from(el.attributes)) attrs[a.name] = a.value;
-        
-        function getUniqueSelector(elem){
-          if (elem.id) return '#' + CSS.escape(elem.id);
-          const parts = [];
-          let current = elem;
-          while (current && current.nodeType === 1 && current !== document.body) {
-            let part = current.nodeName.toLowerCase();
-            const siblings = Array.from(current.parentNode ? current.parentNode.children : []).filter(e => e.nodeName === current.nodeName);
-            if (siblings.length > 1) {
-              const index = siblings.indexOf(current) + 1;
-              part += ':nth-of-type(' + index + ')';
-            }
-            parts.unshift(part);
-            current = current.parentElement;
-          }
-          return parts.join(' > ');
-        }
-        
-        return {
-          exists: true,
-          tagName: el.tagName.toLowerCase(),
-          text: (el.textContent || '').trim().slice(0,200),
-          selector: getUniqueSelector(el),
-          attributes: attrs,
-          isVisible: rect.width>0 && rect.height>0 && style.visibility!=='hidden' && style.display!=='none',
-          isEnabled: (el.disabled !== undefined) ? !el.disabled : true,
-          isClickable: (el.disabled !== undefined) ? !el.disabled && style.pointerEvents !== 'none' : true
-        };
-    `, selector, by);
+  // Wrapper methods to support both sessionId and browserId consistently
+  private async handleNavigateTo(args: any) {
+    const session = await this.resolveSession(args);
+    if (!session) {
+      return { success: false, message: 'Browser not found' };
+    }
+    return await withWaitConditions(session.driver, args, () => navigateToTool(args, session, this.logger, this.injectBadge.bind(this)), session.network);
+  }
 
-      const tag = (info.tagName || '').toLowerCase();
-      let recommended: 'click' | 'type' | 'wait' | 'none' = 'none';
-      if (['button', 'a', 'input'].includes(tag)) recommended = tag === 'input' ? 'type' : 'click';
+  private async handleClickElement(args: any) {
+    const session = await this.resolveSession(args);
+    if (!session) {
+      return { success: false, message: 'Browser not found' };
+    }
+    return await withWaitConditions(session.driver, args, () => this.inFrame(session, args.frame, () => clickElementTool(args, session, this.logger)), session.network);
+  }
 
-      return {
-        success: true,
-        message: 'Element status checked',
-        data: { exists: true, ...info, recommendedAction: recommended, reason: info.isClickable ? '' : 'Element not clickable' }
-      };
-    } catch (error) {
-      return { success: true, message: 'Element not found', data: { exists: false, isVisible: false, isEnabled: false, isClickable: false, recommendedAction: 'wait', reason: 'Not present' } };
+  private async handleTypeText(args: any) {
+    const session = await this.resolveSession(args);
+    if (!session) {
+      return { success: false, message: 'Browser not found' };
     }
+    return await withWaitConditions(session.driver, args, () => this.inFrame(session, args.frame, () => typeTextTool(args, session, this.logger)), session.network);
   }
 
-  private async findByDescription(args: any) {
-    const { sessionId, description, context = '', preferredSelector = 'all', limit = 10 } = args;
-    const session = await this.getSession(sessionId);
-    if (!session) return { success: false, message: 'Session not found' };
-    try {
-      const data = await session.driver.executeScript(`
-      const desc = arguments[0].toLowerCase();
-      const contextSel = arguments[1];
-      const limit = arguments[2];
-      const root = contextSel ? document.querySelector(contextSel) : document;
-      const candidates = Array.from(root.querySelectorAll('button, [role="button"], a[href], input, textarea, select'));
-      const vw = window.innerWidth, vh = window.innerHeight;
-      function getSel(el){
-        if (el.id) return '#' + CSS.escape(el.id);
-        const parts = [];
-        while (el && el.nodeType===1 && el!==document.body){
-          let part = el.nodeName.toLowerCase();
-          const siblings = Array.from(el.parentNode ? el.parentNode.children: []).filter(e=>e.nodeName===el.nodeName);
-          if (siblings.length>1){ const idx = siblings.indexOf(el)+1; part += ':nth-of-type('+idx+')'; }
-          parts.unshift(part); el = el.parentElement;
-        }
-        return parts.join(' > ');
-      }
-      function score(el){
-        const rect = el.getBoundingClientRect();
-        const text = ((el.innerText || el.textContent || '') + ' ' + (el.getAttribute('aria-label')||'') + ' ' + (el.getAttribute('placeholder')||'') + ' ' + (el.getAttribute('name')||'')).toLowerCase();
-        let s = 0;
-        for (const token of desc.split(/\s+/)) if (token && text.includes(token)) s += 2;
-        // Heuristic: top-right
-        if (desc.includes('top right') || desc.includes('top-right')) { if (rect.x > vw*0.6 && rect.y < vh*0.4) s += 3; }
-        if (desc.includes('login') && /login|sign in|entrar/.test(text)) s += 2;
-        return s;
-      }
-      const ranked = candidates
-        .map(el => ({ el, score: score(el) }))
-        .filter(r => r.score > 0)
-        .sort((a,b)=>b.score-a.score)
-        .slice(0, limit)
-        .map((r)=>{
-          const el = r.el; const rect = el.getBoundingClientRect();
-          const attrs = {}; for (const a of Array.from(el.attributes)) attrs[a.name]=a.value;
-          return {
-            selector: getSel(el),
-            cssSelector: getSel(el),
-            xpath: '',
-            confidence: r.score >= 6 ? 'high' : (r.score>=3 ? 'medium':'low'),
-            tagName: el.tagName.toLowerCase(),
-            text: (el.innerText || el.textContent || '').trim().slice(0,200),
-            attributes: attrs,
-            whyMatch: 'Heuristic text/location match',
-            location: { x: rect.x, y: rect.y, width: rect.width, height: rect.height }
-          };
-        });
-      return { description: desc, matches: ranked, recommended: ranked[0]?.cssSelector || '' };
-    `, description, context, limit);
+  private async handleTakeScreenshot(args: any) {
+    const session = await this.resolveSession(args);
+    if (!session) {
+      return { success: false, message: 'Browser not found' };
+    }
+    return await takeScreenshotTool(args, session, this.logger);
+  }
 
-      return { success: true, message: 'Matches found', data };
-    } catch (error) {
-      return { success: false, message: `Failed to find by description: ${error instanceof Error ? error.message : String(error)}` };
+  private async handleExecuteScript(args: any) {
+    const session = await this.resolveSession(args);
+    if (!session) {
+      return { success: false, message: 'Browser not found' };
     }
+    return await this.inFrame(session, args.frame, () => executeScriptTool(args, session, this.logger));
   }
 
-  private async fillForm(args: any) {
-    const { sessionId, fields, submitAfter = false, submitSelector } = args;
-    const session = await this.getSession(sessionId);
-    if (!session) return { success: false, message: 'Session not found' };
-    let filled = 0; const errors: any[] = [];
-    for (const [name, cfg] of Object.entries(fields || {})) {
-      try {
-        const result = await session.driver.executeScript(`
-          const selector = arguments[0];
-          const value = arguments[1];
-          
-          const el = document.querySelector(selector);
-          if (!el) {
-            return { success: false, message: 'Element not found' };
-          }
-          
-          el.scrollIntoView({ block: 'center', behavior: 'instant' });
-          el.focus();
-          el.value = '';
-          
-          const inputEvent = new Event('input', { bubbles: true });
-          const changeEvent = new Event('change', { bubbles: true });
-          
-          el.value = value;
-          el.dispatchEvent(inputEvent);
-          el.dispatchEvent(changeEvent);
-          
-          return { success: true };
-        `, (cfg as any).selector, (cfg as any).value ?? '');
-        if (result && (result as any).success) filled++;
-      } catch (e: any) {
-        errors.push({ field: name, selector: (cfg as any).selector, error: e?.message || String(e) });
-      }
+  private async handleListElements(args: any) {
+    const session = await this.resolveSession(args);
+    if (!session) {
+      return { success: false, message: 'Browser not found' };
     }
+    return await listElementsTool(args, session, this.logger);
+  }
 
-    if (submitAfter) {
-      try {
-        const result = await session.driver.executeScript(`
-          const selector = arguments[0];
-          
-          let btn;
-          if (selector) {
-            btn = document.querySelector(selector);
-          } else {
-            btn = document.querySelector('button[type="submit"], input[type="submit"]');
-          }
-          
-          if (!btn) {
-            return { success: false, message: 'Submit button not found' };
-          }
-          
-          btn.scrollIntoView({ block: 'center', behavior: 'instant' });
-          btn.click();
-          return { success: true };
-        `, submitSelector);
-      } catch (e) {
-        errors.push({ field: '_submit', selector: submitSelector || 'auto', error: e instanceof Error ? e.message : String(e) });
-      }
+  private async handleCheckElementExists(args: any) {
+    const session = await this.resolveSession(args);
+    if (!session) {
+      return { success: false, message: 'Browser not found' };
     }
+    return await checkElementExistsTool(args, session, this.logger);
+  }
 
-    return {
-      success: errors.length === 0,
-      message: `Form filled: ${filled} fields${errors.length ? `, ${errors.length} errors` : ''}`,
-      data: { filledFields: filled, skippedFields: 0, errors }
-    };
+  private async handleFindByDescription(args: any) {
+    const session = await this.resolveSession(args);
+    if (!session) {
+      return { success: false, message: 'Browser not found' };
+    }
+    return await findByDescriptionTool(args, session, this.logger);
   }
 
-  private async selectOption(args: any) {
-    const { sessionId, selector, option, timeout = 10000 } = args;
-    const session = await this.getSession(sessionId);
-    if (!session) return { success: false, message: 'Session not found' };
-    try {
-      const result = await session.driver.executeScript(`
-        const selector = arguments[0];
-        const option = arguments[1];
-        
-        const selectEl = document.querySelector(selector);
-        if (!selectEl || selectEl.tagName.toLowerCase() !== 'select') {
-          return { success: false, message: 'Select element not found' };
-        }
-        
-        const opts = Array.from(selectEl.options);
-        let chosen = null;
-        let index = -1;
-        
-        if (option.by === 'index') {
-          index = option.index !== undefined ? option.index : 0;
-          chosen = opts[index] || null;
-        } else if (option.by === 'value') {
-          for (let i = 0; i < opts.length; i++) {
-            if (opts[i].value === option.value) {
-              chosen = opts[i];
-              index = i;
-              break;
-            }
-          }
-        } else {
-          const target = (option.text || '').toLowerCase();
-          for (let i = 0; i < opts.length; i++) {
-            const text = (opts[i].text || '').toLowerCase();
-            if (text.includes(target)) {
-              chosen = opts[i];
-              index = i;
-              break;
-            }
-          }
-        }
-        
-        if (!chosen) {
-          return { success: false, message: 'Option not found' };
-        }
-        
-        selectEl.selectedIndex = index;
-        const changeEvent = new Event('change', { bubbles: true });
-        selectEl.dispatchEvent(changeEvent);
-        
-        return {
-          success: true,
-          selectedOption: {
-            text: chosen.text,
-            value: chosen.value,
-            index: index
-          }
-        };
-      `, selector, option);
+  private async handleFillForm(args: any) {
+    const session = await this.resolveSession(args);
+    if (!session) {
+      return { success: false, message: 'Browser not found' };
+    }
+    return await fillFormTool(args, session, this.logger);
+  }
 
-      const data = result as any;
-      if (!data.success) {
-        return { success: false, message: data.message || 'Failed to select option' };
-      }
+  private async handleSelectOption(args: any) {
+    const session = await this.resolveSession(args);
+    if (!session) {
+      return { success: false, message: 'Browser not found' };
+    }
+    return await this.inFrame(session, args.frame, () => selectOptionTool(args, session, this.logger));
+  }
 
-      return { success: true, message: 'Option selected', data: { selectedOption: data.selectedOption } };
-    } catch (error) {
-      return { success: false, message: `Failed to select option: ${error instanceof Error ? error.message : String(error)}` };
+  private async handleWaitForPageChange(args: any) {
+    const session = await this.resolveSession(args);
+    if (!session) {
+      return { success: false, message: 'Browser not found' };
     }
+    return await waitForPageChangeTool(args, session, this.logger);
   }
 
-  private async waitForPageChange(args: any) {
-    const { sessionId, fromUrl, toUrlPattern, timeout = 10000, takeScreenshot = false } = args;
-    const session = await this.getSession(sessionId);
-    if (!session) return { success: false, message: 'Session not found' };
-    try {
-      const oldUrl = fromUrl || await session.driver.getCurrentUrl();
-      let newUrl = oldUrl;
-      const pattern = toUrlPattern ? new RegExp(toUrlPattern) : null;
-      await session.driver.wait(async () => {
-        newUrl = await session.driver.getCurrentUrl();
-        if (pattern) return pattern.test(newUrl);
-        return newUrl !== oldUrl;
-      }, timeout);
-
-      const title = await session.driver.getTitle();
-      let screenshot: string | undefined;
-      if (takeScreenshot) screenshot = await session.driver.takeScreenshot();
-
-      return { success: true, message: 'Page changed', data: { oldUrl, newUrl, title, screenshot } };
-    } catch (error) {
-      return { success: false, message: `Timeout waiting for page change: ${error instanceof Error ? error.message : String(error)}` };
+  private async handleSetBadge(args: any) {
+    const session = await this.resolveSession(args);
+    if (!session) {
+      return { success: false, message: 'Browser not found' };
     }
+    return await setBadgeTool(args, session, this.logger, this.injectBadge.bind(this));
   }
 
+  private async handleHoverElement(args: any) {
+    const session = await this.resolveSession(args);
+    if (!session) {
+      return { success: false, message: 'Browser not found' };
+    }
+    return await hoverElementTool(args, session, this.logger);
+  }
 
-  /**
-   * Helper to resolve session from browserId
-   * Cursor manages browser instances using browserId - this is the standard way to identify browsers
-   * browserId is required for all tools that operate on a browser instance
-   */
-  private async resolveSession(args: { browserId: string }): Promise<BrowserSession | null> {
-    if (!args.browserId) {
-      return null;
+  private async handleDoubleClickElement(args: any) {
+    const session = await this.resolveSession(args);
+    if (!session) {
+      return { success: false, message: 'Browser not found' };
     }
-    const session = this.getSessionByBrowserId(args.browserId);
-    return session || null;
+    return await doubleClickElementTool(args, session, this.logger);
   }
 
-  // Wrapper methods to support both sessionId and browserId consistently
-  private async handleNavigateTo(args: any) {
+  private async handleRightClickElement(args: any) {
     const session = await this.resolveSession(args);
     if (!session) {
       return { success: false, message: 'Browser not found' };
     }
-    return await navigateToTool(args, session, this.logger, this.injectBadge.bind(this));
+    return await rightClickElementTool(args, session, this.logger);
   }
 
-  private async handleClickElement(args: any) {
+  private async handleDragAndDrop(args: any) {
     const session = await this.resolveSession(args);
     if (!session) {
       return { success: false, message: 'Browser not found' };
     }
-    return await clickElementTool(args, session, this.findElementBySelector.bind(this), this.logger);
+    return await dragAndDropTool(args, session, this.logger);
   }
 
-  private async handleTypeText(args: any) {
+  private async handleInspectElement(args: any) {
     const session = await this.resolveSession(args);
     if (!session) {
       return { success: false, message: 'Browser not found' };
     }
-    return await typeTextTool(args, session, this.findElementBySelector.bind(this), this.logger);
+    return await inspectElementTool(args, session, this.logger);
   }
 
-  private async handleTakeScreenshot(args: any) {
+  private async handleDebugPage(args: any) {
     const session = await this.resolveSession(args);
     if (!session) {
       return { success: false, message: 'Browser not found' };
     }
-    return await takeScreenshotTool(args, session, this.logger);
+    return await debugPageTool(args, session, this.logger);
   }
 
-  private async handleExecuteScript(args: any) {
+  private async handleDisableUserInteractions(args: any) {
     const session = await this.resolveSession(args);
     if (!session) {
       return { success: false, message: 'Browser not found' };
     }
-    return await executeScriptTool(args, session, this.logger);
+    return await disableUserInteractionsTool(args, session, this.logger);
   }
 
+  private async handleEnableUserInteractions(args: any) {
+    const session = await this.resolveSession(args);
+    if (!session) {
+      return { success: false, message: 'Browser not found' };
+    }
+    return await enableUserInteractionsTool(args, session, this.logger);
+  }
 
+  private async handleToggleMobileView(args: any) {
+    const session = await this.resolveSession(args);
+    if (!session) {
+      return { success: false, message: 'Browser not found' };
+    }
+    return await toggleMobileViewTool(args, session, this.logger);
+  }
 
-  private async handleListElements(args: any) {
+  private async handleExportSessionHistory(args: any) {
     const session = await this.resolveSession(args);
     if (!session) {
       return { success: false, message: 'Browser not found' };
     }
-    return await this.listElements({ ...args, sessionId: session.sessionId });
+    return await exportSessionHistoryTool(args, session, this.logger);
   }
 
-  private async handleCheckElementExists(args: any) {
+  private async handleRunActions(args: any) {
     const session = await this.resolveSession(args);
     if (!session) {
       return { success: false, message: 'Browser not found' };
     }
-    return await this.checkElementExists({ ...args, sessionId: session.sessionId });
+    return await runActionsTool(args, session, this.executeScenarioStep.bind(this), this.logger);
   }
 
-  private async handleFillForm(args: any) {
+  private async handleListFrames(args: any) {
     const session = await this.resolveSession(args);
     if (!session) {
       return { success: false, message: 'Browser not found' };
     }
-    return await this.fillForm({ ...args, sessionId: session.sessionId });
+    return await listFramesTool(args, session, this.logger);
   }
 
-  private async handleSelectOption(args: any) {
+  private async handleCompareScreenshot(args: any) {
     const session = await this.resolveSession(args);
     if (!session) {
       return { success: false, message: 'Browser not found' };
     }
-    return await this.selectOption({ ...args, sessionId: session.sessionId });
+    return await compareScreenshotTool(args, session, this.logger);
   }
 
-  private async handleWaitForPageChange(args: any) {
+  private async handleNetworkRules(args: any) {
     const session = await this.resolveSession(args);
     if (!session) {
       return { success: false, message: 'Browser not found' };
     }
-    return await this.waitForPageChange({ ...args, sessionId: session.sessionId });
+    return await networkRulesTool(args, session, this.logger);
   }
 
-  private async handleSetBadge(args: any) {
+  private async handleWaitFor(args: any) {
     const session = await this.resolveSession(args);
     if (!session) {
       return { success: false, message: 'Browser not found' };
     }
-    return await this.setBadge({ ...args, sessionId: session.sessionId });
+    return await this.inFrame(session, args.frame, () => waitForTool(args, session, this.logger));
+  }
+
+  /**
+   * Run a tool inside the frame given by its frame argument, returning to the top-level document afterwards
+   */
+  private async inFrame(session: BrowserSession, frame: FrameLocator | undefined, run: () => Promise<any>) {
+    if (!hasFrame(frame)) {
+      return await run();
+    }
+    try {
+      await switchToFrame(session.driver, frame);
+    } catch (error) {
+      await session.driver.switchTo().defaultContent().catch(() => undefined);
+      return { success: false, message: `Failed to switch to frame: ${error instanceof Error ? error.message : String(error)}` };
+    }
+    // Errors from the tool itself pass through unchanged
+    try {
+      return await run();
+    } finally {
+      await session.driver.switchTo().defaultContent().catch(() => undefined);
+    }
   }
 
   private async handleGetPageElements(args: any) {
@@ -1570,6 +2658,59 @@ class MCPSeleniumServer {
     return await devToolsTool(args, session, this.logger);
   }
 
+  private async handleStartRecording(args: any) {
+    const session = await this.resolveSession(args);
+    if (!session) {
+      return { success: false, message: 'Browser not found' };
+    }
+    return await startRecordingTool(args, session, this.scenarioManager, this.logger);
+  }
+
+  private async handleReplayScenario(args: any) {
+    const session = await this.resolveSession(args);
+    if (!session) {
+      return { success: false, message: 'Browser not found' };
+    }
+    return await replayScenarioTool(args, session, this.scenarioManager, this.executeScenarioStep.bind(this), this.logger);
+  }
+
+  private async handleRunScenarioDataset(args: any) {
+    const session = await this.resolveSession(args);
+    if (!session) {
+      return { success: false, message: 'Browser not found' };
+    }
+    return await runScenarioDatasetTool(args, session, this.scenarioManager, this.executeScenarioStep.bind(this), this.logger);
+  }
+
+  /**
+   * Run a single recorded scenario step against a browser session using the same tool implementations as live calls
+   */
+  private async executeScenarioStep(session: BrowserSession, step: ScenarioStep): Promise<{ success: boolean; message?: string; data?: any }> {
+    switch (step.action) {
+      case 'navigate':
+        return await withWaitConditions(session.driver, step, () => navigateToTool({ url: step.url }, session, this.logger, this.injectBadge.bind(this)), session.network);
+      case 'click':
+        return await withWaitConditions(session.driver, step, () => this.inFrame(session, step.frame, () => clickElementTool({ selector: step.selector, by: step.by, timeout: step.timeout, mode: step.mode, force: step.force }, session, this.logger)), session.network);
+      case 'type':
+        return await withWaitConditions(session.driver, step, () => this.inFrame(session, step.frame, () => typeTextTool({ selector: step.selector, by: step.by, text: step.value ?? '', timeout: step.timeout, mode: step.mode, append: step.append, delay: step.delay, force: step.force }, session, this.logger)), session.network);
+      case 'screenshot':
+        return await takeScreenshotTool({ filename: step.filename }, session, this.logger);
+      case 'wait':
+        await new Promise(resolve => setTimeout(resolve, step.timeout ?? 1000));
+        return { success: true };
+      case 'wait_for_page_change':
+        return await waitForPageChangeTool({ toUrlPattern: step.pattern, timeout: step.timeout }, session, this.logger);
+      case 'fill_form':
+        return await fillFormTool({ fields: step.fields, submitAfter: step.submitAfter, submitSelector: step.submitSelector, submitBy: step.submitBy }, session, this.logger);
+      case 'select_option':
+        return await this.inFrame(session, step.frame, () => selectOptionTool({ selector: step.selector, by: step.by, option: step.option }, session, this.logger));
+      case 'execute_script':
+        return await executeScriptTool({ script: step.script, args: step.args }, session, this.logger);
+      default:
+        return { success: false, message: `Unknown step action: ${(step as any).action}` };
+    }
+  }
+
   private async listBrowsers() {
     const browsers = Array.from(this.browserSessions.values())
       .filter(s => s.isActive)
@@ -0,0 +1,78 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+import { locateAll } from '../../utils/locator.js';
+
+export async function checkElementExistsTool(
+  args: any,
+  session: BrowserSession | null,
+  logger: Logger
+) {
+  const { selector, by = 'css' } = args;
+  if (!session) return { success: false, message: 'Session not found' };
+  try {
+    const { elements, reason } = await locateAll(session.driver, selector, by);
+    if (elements.length === 0) {
+      return { success: true, message: 'Element not found', data: { exists: false, isVisible: false, isEnabled: false, isClickable: false, recommendedAction: 'wait', reason: reason || 'Not present' } };
+    }
+
+    const info: any = await session.driver.executeScript(`
+      const el = arguments[0];
+      
+      const rect = el.getBoundingClientRect();
+      const style = window.getComputedStyle(el);
+      const attrs = {};
+      for (const a of Array.from(el.attributes)) attrs[a.name] = a.value;
+      
+      function getUniqueSelector(elem){
+        const segments = [];
+        let node = elem;
+        while (node) {
+          segments.unshift(getLocalSelector(node));
+          const rootNode = node.getRootNode();
+          node = rootNode instanceof ShadowRoot ? rootNode.host : null;
+        }
+        return segments.join(' >>> ');
+      }
+      
+      function getLocalSelector(elem){
+        if (elem.id) return '#' + CSS.escape(elem.id);
+        const parts = [];
+        let current = elem;
+        while (current && current.nodeType === 1 && current !== document.body) {
+          let part = current.nodeName.toLowerCase();
+          const siblings = Array.from(current.parentNode ? current.parentNode.children : []).filter(e => e.nodeName === current.nodeName);
+          if (siblings.length > 1) {
+            const index = siblings.indexOf(current) + 1;
+            part += ':nth-of-type(' + index + ')';
+          }
+          parts.unshift(part);
+          current = current.parentElement;
+        }
+        return parts.join(' > ');
+      }
+      
+      return {
+        exists: true,
+        tagName: el.tagName.toLowerCase(),
+        text: (el.textContent || '').trim().slice(0,200),
+        selector: getUniqueSelector(el),
+        attributes: attrs,
+        isVisible: rect.width>0 && rect.height>0 && style.visibility!=='hidden' && style.display!=='none',
+        isEnabled: (el.disabled !== undefined) ? !el.disabled : true,
+        isClickable: (el.disabled !== undefined) ? !el.disabled && style.pointerEvents !== 'none' : true
+      };
+  `, elements[0]);
+
+    const tag = (info.tagName || '').toLowerCase();
+    let recommended: 'click' | 'type' | 'wait' | 'none' = 'none';
+    if (['button', 'a', 'input'].includes(tag)) recommended = tag === 'input' ? 'type' : 'click';
+
+    return {
+      success: true,
+      message: 'Element status checked',
+      data: { exists: true, ...info, matchCount: elements.length, recommendedAction: recommended, reason: info.isClickable ? '' : 'Element not clickable' }
+    };
+  } catch (error) {
+    return { success: true, message: 'Element not found', data: { exists: false, isVisible: false, isEnabled: false, isClickable: false, recommendedAction: 'wait', reason: error instanceof Error ? error.message : String(error) } };
+  }
+}
@@ -1,29 +1,42 @@
 import { BrowserSession } from '../../common/types.js';
 import { Logger } from '../../utils/logger.js';
-import { WebDriver, WebElement } from 'selenium-webdriver';
-
-interface FindElementBySelectorFunction {
-    (driver: WebDriver, selector: string, by: string, timeout: number): Promise<WebElement>;
-}
+import { locate, selectorFor, targetOf } from '../../utils/locator.js';
+import { CLICK_CHECKS, describeFailure, waitForActionable } from '../../utils/actionability.js';
 
 export async function clickElementTool(
     args: any,
     session: BrowserSession | null,
-    findElementBySelector: FindElementBySelectorFunction,
     logger: Logger
 ) {
-    const { selector, by = 'css' } = args;
+    const { ref, timeout = 5000, mode = 'script', force = false } = args;
+    const { selector, by } = targetOf(args);
     if (!session) return { success: false, message: 'Session not found' };
     try {
+        let element;
+        if (force) {
+            element = await locate(session.driver, selector, by, timeout);
+        } else {
+            // Wait until the element is visible, stable, enabled and is what actually sits under its centre point
+            const actionable = await waitForActionable(session.driver, selector, by, CLICK_CHECKS, timeout);
+            if (!actionable.element) {
+                logger.warn('Element not clickable', { selector, ...actionable.failure });
+                return { success: false, message: describeFailure(actionable.failure), data: { reason: actionable.failure } };
+            }
+            element = actionable.element;
+        }
+        // Refs die with the page, so report a selector that scenario recording can replay
+        const data = ref ? { ref, selector: await selectorFor(session.driver, element) } : undefined;
+        if (mode === 'native') {
+            // Real pointer move and press at the element centre, so pointer/mouse handlers fire as for a user
+            await session.driver.executeScript(`arguments[0].scrollIntoView({block:'center',behavior:'instant'});`, element);
+            await session.driver.actions({ async: true }).move({ origin: element }).click().perform();
+            return { success: true, data };
+        }
         await session.driver.executeScript(`
-            const s=arguments[0],b=arguments[1];
-            const f=(s,b)=>b==='id'?document.getElementById(s):b==='name'?document.querySelector('[name="'+s+'"]'):b==='className'?document.getElementsByClassName(s)[0]:b==='tagName'?document.getElementsByTagName(s)[0]:b==='xpath'?document.evaluate(s,document,null,XPathResult.FIRST_ORDERED_NODE_TYPE,null).singleNodeValue:document.querySelector(s);
-            const e=f(s,b);
-            if(!e)return{success:false};
+            const e=arguments[0];
             e.scrollIntoView({block:'center',behavior:'instant'});e.click();
-            return{success:true};
-        `, selector, by);
-        return { success: true };
+        `, element);
+        return { success: true, data };
     } catch (error) {
         return { success: false, message: error instanceof Error ? error.message : String(error) };
     }
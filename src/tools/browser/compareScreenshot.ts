@@ -0,0 +1,105 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+import { getBaselinesDir, getImagesDir, getProjectDir } from '../../utils/projectDir.js';
+import { captureScreenshot } from '../../utils/screenshot.js';
+import { locate, targetOf } from '../../utils/locator.js';
+import { decodePng, encodePng } from '../../utils/png.js';
+import { DEFAULT_THRESHOLD, diffImages } from '../../utils/imageDiff.js';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export async function compareScreenshotTool(
+  args: any,
+  session: BrowserSession | null,
+  logger: Logger
+) {
+  const {
+    name, fullPage = false, mask, ignore = [], threshold = DEFAULT_THRESHOLD, maxDiffPercent = 0,
+    updateBaseline = false, inline = false, timeout = 5000, projectDir: providedProjectDir,
+  } = args;
+  if (!session) return { success: false, message: 'Session not found' };
+  if (!name || typeof name !== 'string') return { success: false, message: 'name required' };
+
+  try {
+    const projectDir = getProjectDir(providedProjectDir);
+    const baselinesDir = getBaselinesDir(providedProjectDir);
+    const imagesDir = getImagesDir(providedProjectDir);
+    const safeName = name.replace(/[^\w.-]+/g, '_');
+    const baselinePath = path.join(baselinesDir, `${safeName}.png`);
+    const actualPath = path.join(imagesDir, `${safeName}-actual.png`);
+    const diffPath = path.join(imagesDir, `${safeName}-diff.png`);
+    // Images left by an earlier failing compare would otherwise look like the result of this one
+    const removeStaleImages = () => Promise.all([actualPath, diffPath].map(file => fs.promises.rm(file, { force: true })));
+    const relative = (file: string) => path.relative(projectDir, file);
+
+    const target = targetOf(args);
+    const element = args.selector || args.ref ? await locate(session.driver, target.selector, target.by, timeout) : undefined;
+    const image = await captureScreenshot(session.driver, { fullPage: fullPage && !element, element, mask });
+    const actualPng = Buffer.from(image.data, 'base64');
+
+    // First run (or an explicit update) records the baseline and passes
+    if (updateBaseline || !fs.existsSync(baselinePath)) {
+      await fs.promises.mkdir(baselinesDir, { recursive: true });
+      await fs.promises.writeFile(baselinePath, actualPng);
+      await removeStaleImages();
+      logger.info('Screenshot baseline saved', { browserId: session.browserId, name, baselinePath });
+      return {
+        success: true,
+        message: `Baseline '${name}' ${updateBaseline ? 'updated' : 'created'}`,
+        data: { name, baselineCreated: true, baseline: relative(baselinePath) },
+      };
+    }
+
+    const baseline = decodePng(await fs.promises.readFile(baselinePath));
+    const actual = decodePng(actualPng);
+    await fs.promises.mkdir(imagesDir, { recursive: true });
+
+    if (baseline.width !== actual.width || baseline.height !== actual.height) {
+      await fs.promises.rm(diffPath, { force: true });
+      await fs.promises.writeFile(actualPath, actualPng);
+      return {
+        success: false,
+        message: `Screenshot size ${actual.width}x${actual.height} differs from baseline '${name}' (${baseline.width}x${baseline.height}). Use updateBaseline if the change is intended`,
+        data: { name, passed: false, baseline: relative(baselinePath), actual: relative(actualPath) },
+      };
+    }
+
+    const diff = diffImages(baseline, actual, { threshold, ignore });
+    const passed = diff.mismatchPercent <= maxDiffPercent;
+    const data: Record<string, any> = {
+      name,
+      passed,
+      mismatchPercent: diff.mismatchPercent,
+      diffPixels: diff.diffPixels,
+      comparedPixels: diff.comparedPixels,
+      baseline: relative(baselinePath),
+    };
+
+    let images: Array<{ data: string; mimeType: string }> | undefined;
+    if (diff.diffPixels > 0) {
+      const diffPng = encodePng(diff.diffImage);
+      await fs.promises.writeFile(diffPath, diffPng);
+      await fs.promises.writeFile(actualPath, actualPng);
+      data.diff = relative(diffPath);
+      data.actual = relative(actualPath);
+      if (inline) {
+        images = [{ data: diffPng.toString('base64'), mimeType: 'image/png' }];
+      }
+    } else {
+      await removeStaleImages();
+    }
+
+    logger.info('Screenshot compared', { browserId: session.browserId, name, passed, mismatchPercent: diff.mismatchPercent });
+    return {
+      success: passed,
+      message: passed
+        ? `Screenshot matches baseline '${name}' (${diff.mismatchPercent}% of pixels differ, ${maxDiffPercent}% allowed)`
+        : `Screenshot differs from baseline '${name}': ${diff.mismatchPercent}% of pixels (${maxDiffPercent}% allowed). Red pixels in the diff image mark the changes`,
+      data,
+      images,
+    };
+  } catch (error) {
+    logger.error('Failed to compare screenshot', { browserId: session.browserId, name, error: error instanceof Error ? error.message : String(error) });
+    return { success: false, message: `Failed to compare screenshot: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
@@ -0,0 +1,11 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+
+export async function debugPageTool(
+  args: any,
+  session: BrowserSession | null,
+  logger: Logger
+) {
+  if (!session) return { success: false, message: 'Session not found' };
+  return session.core.debugPage();
+}
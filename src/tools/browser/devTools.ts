@@ -1,5 +1,16 @@
 import { BrowserSession } from '../../common/types.js';
 import { Logger } from '../../utils/logger.js';
+import { locateAll } from '../../utils/locator.js';
+import { disablePersistentInstrumentation, enablePersistentInstrumentation, INSTRUMENTATION_SCRIPT } from '../../utils/instrumentation.js';
+import { startNetworkCapture, validateNetworkFilter } from '../../utils/networkCollector.js';
+import { buildHar, toHarEntry } from '../../utils/har.js';
+import { emulateNetworkConditions, resolveNetworkConditions } from '../../utils/networkConditions.js';
+import { getCdpSession } from '../../utils/cdp.js';
+import { startErrorCapture } from '../../utils/errorCollector.js';
+import { decodeFrame, startWebSocketCapture, validateFrameFilter } from '../../utils/websocketCollector.js';
+import { getLogsDir } from '../../utils/projectDir.js';
+import * as fs from 'fs';
+import * as path from 'path';
 
 export async function devToolsTool(
     args: any,
@@ -11,6 +22,8 @@ export async function devToolsTool(
         clear = false,
         limit = 50,
         selector = null,
+        by = 'css',
+        pierceShadow = false,
         key = null
     } = args;
 
@@ -19,6 +32,12 @@ export async function devToolsTool(
     try {
         const driver = session.driver;
 
+        // Element actions resolve their target with the shared locator, so host >>> inner reaches into shadow roots
+        const findTarget = async () => {
+            const { elements, reason } = await locateAll(driver, selector, by);
+            return { element: elements[0] || null, reason: reason || `Element not found: ${selector}` };
+        };
+
         switch (action) {
             case 'get_console_logs': {
                 // Get console logs using JavaScript
@@ -64,8 +83,49 @@ export async function devToolsTool(
                 };
             }
 
+            case 'get_errors': {
+                // Uncaught exceptions, unhandled rejections, CSP violations and interventions seen over CDP
+                if (!session.errors?.isRunning) {
+                    return { success: false, message: 'Error capture is not running. Call enable_dev_tools first (or open_browser with devTools), then reproduce the problem' };
+                }
+                const { sourceMaps = true } = args;
+                const errors = await session.errors.list({ kind: args.kind, limit, sourceMaps });
+                const summary = session.errors.summarize(errors);
+                if (clear) session.errors.clear();
+                return {
+                    success: true,
+                    message: errors.length ? `${errors.length} error(s), ${summary.length} distinct` : 'No errors captured',
+                    data: { summary, errors, count: errors.length }
+                };
+            }
+
             case 'get_network_requests': {
-                // Enhanced network requests with full details
+                // Server-side capture (enable_dev_tools) sees every request with headers, timing and initiator
+                if (session.network?.isRunning) {
+                    const filter = {
+                        urlPattern: args.urlPattern,
+                        type: args.resourceType,
+                        status: args.status,
+                        method: args.method,
+                        limit,
+                    };
+                    const invalid = validateNetworkFilter(filter);
+                    if (invalid) return { success: false, message: invalid };
+                    const entries = session.network.list(filter);
+                    const total = session.network.size;
+                    if (clear) session.network.clear();
+                    return {
+                        success: true,
+                        data: {
+                            requests: entries,
+                            count: entries.length,
+                            total,
+                            source: 'cdp'
+                        }
+                    };
+                }
+
+                // Fallback: fetch/XHR captured in the page, or the Performance API
                 const requests = await driver.executeScript(`
                     if (window.capturedNetworkLogs) {
                         return window.capturedNetworkLogs.slice(-${limit});
@@ -97,13 +157,95 @@ export async function devToolsTool(
 
                 return {
                     success: true,
+                    message: 'Only fetch/XHR and Performance API entries are available. Call enable_dev_tools to capture every request with headers, status and timing',
                     data: {
                         requests: requestsArray,
-                        count: requestsArray.length
+                        count: requestsArray.length,
+                        source: 'page'
                     }
                 };
             }
 
+            case 'export_har': {
+                // HAR 1.2 of everything the CDP collector captured, with response bodies the browser still holds
+                if (!session.network?.isRunning) {
+                    return { success: false, message: 'Network capture is not running. Call enable_dev_tools first, then reproduce the traffic' };
+                }
+                const filter = { urlPattern: args.urlPattern, type: args.resourceType, status: args.status, method: args.method };
+                const invalid = validateNetworkFilter(filter);
+                if (invalid) return { success: false, message: invalid };
+                const { includeBodies = true, filename, projectDir } = args;
+
+                const network = session.network;
+                const entries = network.list(filter);
+                const harEntries = [];
+                let bodies = 0;
+                for (const entry of entries) {
+                    // Redirect hops share the request id of the final response, so only the last hop can have a body
+                    const hasBody = includeBodies && entry.finished && !entry.failed && !(entry.status && entry.status >= 300 && entry.status < 400);
+                    const body = hasBody ? await network.getResponseBody(entry.requestId) : undefined;
+                    if (body) bodies++;
+                    harEntries.push(toHarEntry(entry, body));
+                }
+                const har = buildHar(harEntries, { name: 'mcp-selenium', version: '1.0.0' });
+
+                const logsDir = getLogsDir(projectDir);
+                await fs.promises.mkdir(logsDir, { recursive: true });
+                const safeName = filename ? String(filename).replace(/\.har$/i, '').replace(/[^\w.-]+/g, '_') : `network-${session.browserId}-${Date.now()}`;
+                const filePath = path.join(logsDir, `${safeName}.har`);
+                await fs.promises.writeFile(filePath, JSON.stringify(har, null, 2));
+                if (clear) network.clear();
+                logger.info('HAR exported', { browserId: session.browserId, filePath, entries: harEntries.length });
+
+                return {
+                    success: true,
+                    message: `${harEntries.length} request(s) saved to ${filePath} (${bodies} with response bodies)`,
+                    data: { filePath, entries: harEntries.length, bodies }
+                };
+            }
+
+            case 'get_websocket_frames': {
+                // Frames of every socket the page opened, optionally waiting for one whose payload matches
+                if (!session.websockets?.isRunning) {
+                    return { success: false, message: 'WebSocket capture is not running. Call enable_dev_tools first (or open_browser with devTools)' };
+                }
+                const { direction, match, afterIndex, decodeJson = true, waitTimeout = 10000 } = args;
+                const filter = { urlPattern: args.urlPattern, direction, match, afterIndex, limit };
+                const invalid = validateFrameFilter(filter);
+                if (invalid) return { success: false, message: invalid };
+                const websockets = session.websockets;
+
+                if (args.wait) {
+                    if (!match) return { success: false, message: 'match pattern required when wait is set' };
+                    const frame = await websockets.waitForFrame(filter, waitTimeout);
+                    if (!frame) {
+                        return {
+                            success: false,
+                            message: `No ${direction ? `${direction} ` : ''}frame matching /${match}/ within ${waitTimeout}ms`,
+                            data: { lastIndex: websockets.lastIndex, sockets: websockets.listSockets(args.urlPattern) }
+                        };
+                    }
+                    return {
+                        success: true,
+                        message: `${frame.direction === 'sent' ? 'Sent' : 'Received'} frame #${frame.index} on ${frame.url ?? `socket ${frame.socketId}`} matches /${match}/`,
+                        data: { frame: decodeJson ? decodeFrame(frame) : frame, lastIndex: websockets.lastIndex }
+                    };
+                }
+
+                const frames = websockets.list(filter).map(frame => decodeJson ? decodeFrame(frame) : frame);
+                const result = {
+                    success: true,
+                    data: {
+                        sockets: websockets.listSockets(args.urlPattern),
+                        frames,
+                        count: frames.length,
+                        lastIndex: websockets.lastIndex
+                    }
+                };
+                if (clear) websockets.clear();
+                return result;
+            }
+
             case 'get_performance_metrics': {
                 // Comprehensive performance metrics
                 const metrics = await driver.executeScript(`
@@ -250,6 +392,8 @@ export async function devToolsTool(
             case 'get_accessibility': {
                 // Get accessibility tree
                 const accessibility = await driver.executeScript(`
+                    const pierceShadow = arguments[0];
+
                     function getAccessibilityTree(node, depth = 0, maxDepth = 5) {
                         if (depth > maxDepth || !node) return null;
                         
@@ -265,7 +409,9 @@ export async function devToolsTool(
                             expanded: node.getAttribute('aria-expanded') === 'true'
                         };
                         
-                        const children = Array.from(node.children || [])
+                        const childNodes = Array.from(node.children || []);
+                        if (pierceShadow && node.shadowRoot) childNodes.unshift(...Array.from(node.shadowRoot.children));
+                        const children = childNodes
                             .map(child => getAccessibilityTree(child, depth + 1, maxDepth))
                             .filter(c => c !== null)
                             .slice(0, 20); // Limit children
@@ -286,7 +432,7 @@ export async function devToolsTool(
                     }
                     
                     return getAccessibilityTree(document.body || document.documentElement);
-                `);
+                `, pierceShadow);
 
                 return {
                     success: true,
@@ -429,13 +575,15 @@ export async function devToolsTool(
 
             case 'get_layout': {
                 // Get layout information for an element or page
+                let target = null;
+                if (selector) {
+                    const found = await findTarget();
+                    if (!found.element) return { success: false, message: found.reason };
+                    target = found.element;
+                }
                 const layout = await driver.executeScript(`
-                    const selector = arguments[0] || 'body';
-                    const element = document.querySelector(selector) || document.body;
-                    
-                    if (!element) {
-                        return { error: 'Element not found' };
-                    }
+                    const element = arguments[0] || document.body;
+                    const selector = arguments[1] || 'body';
                     
                     const rect = element.getBoundingClientRect();
                     const style = window.getComputedStyle(element);
@@ -482,7 +630,7 @@ export async function devToolsTool(
                             height: window.innerHeight
                         }
                     };
-                `, selector);
+                `, target, selector);
 
                 return {
                     success: true,
@@ -496,13 +644,12 @@ export async function devToolsTool(
                     return { success: false, message: 'selector parameter required for get_computed_styles' };
                 }
 
+                const stylesTarget = await findTarget();
+                if (!stylesTarget.element) return { success: false, message: stylesTarget.reason };
+
                 const styles = await driver.executeScript(`
-                    const selector = arguments[0];
-                    const element = document.querySelector(selector);
-                    
-                    if (!element) {
-                        return { error: 'Element not found' };
-                    }
+                    const element = arguments[0];
+                    const selector = arguments[1];
                     
                     const computed = window.getComputedStyle(element);
                     const allStyles = {};
@@ -520,7 +667,7 @@ export async function devToolsTool(
                             return priority === 'important';
                         })
                     };
-                `, selector);
+                `, stylesTarget.element, selector);
 
                 return {
                     success: true,
@@ -530,9 +677,15 @@ export async function devToolsTool(
 
             case 'get_event_listeners': {
                 // Get event listeners (limited - browser security restrictions)
+                let listenersTarget = null;
+                if (selector) {
+                    const found = await findTarget();
+                    if (!found.element) return { success: false, message: found.reason };
+                    listenersTarget = found.element;
+                }
                 const listeners = await driver.executeScript(`
-                    const selector = arguments[0] || 'body';
-                    const element = document.querySelector(selector) || document.body;
+                    const element = arguments[0] || document.body;
+                    const selector = arguments[1] || 'body';
                     
                     // Note: getEventListeners is only available in Chrome DevTools console
                     // We can only detect inline and attribute-based listeners
@@ -557,7 +710,7 @@ export async function devToolsTool(
                         detected: detected,
                         note: 'Only inline and attribute-based listeners can be detected due to browser security restrictions'
                     };
-                `, selector);
+                `, listenersTarget, selector);
 
                 return {
                     success: true,
@@ -590,14 +743,13 @@ export async function devToolsTool(
                     return { success: false, message: 'selector parameter required' };
                 }
 
+                const cssTarget = await findTarget();
+                if (!cssTarget.element) return { success: false, message: cssTarget.reason };
+
                 const css = await driver.executeScript(`
-                    const selector = arguments[0];
-                    const property = arguments[1] || null;
-                    const element = document.querySelector(selector);
-                    
-                    if (!element) {
-                        return { error: 'Element not found' };
-                    }
+                    const element = arguments[0];
+                    const selector = arguments[1];
+                    const property = arguments[2] || null;
                     
                     const computed = window.getComputedStyle(element);
                     
@@ -623,7 +775,7 @@ export async function devToolsTool(
                             properties: allProps
                         };
                     }
-                `, selector, args.property || null);
+                `, cssTarget.element, selector, args.property || null);
 
                 return {
                     success: true,
@@ -637,16 +789,15 @@ export async function devToolsTool(
                     return { success: false, message: 'selector, property, and value parameters required' };
                 }
 
+                const setTarget = await findTarget();
+                if (!setTarget.element) return { success: false, message: setTarget.reason };
+
                 const result = await driver.executeScript(`
-                    const selector = arguments[0];
-                    const property = arguments[1];
-                    const value = arguments[2];
-                    const important = arguments[3] || false;
-                    
-                    const element = document.querySelector(selector);
-                    if (!element) {
-                        return { error: 'Element not found' };
-                    }
+                    const element = arguments[0];
+                    const selector = arguments[1];
+                    const property = arguments[2];
+                    const value = arguments[3];
+                    const important = arguments[4] || false;
                     
                     const oldValue = window.getComputedStyle(element).getPropertyValue(property);
                     element.style.setProperty(property, value, important ? 'important' : '');
@@ -659,7 +810,7 @@ export async function devToolsTool(
                         newValue: newValue,
                         success: true
                     };
-                `, selector, args.property, args.value, args.important || false);
+                `, setTarget.element, selector, args.property, args.value, args.important || false);
 
                 return {
                     success: true,
@@ -999,238 +1150,128 @@ export async function devToolsTool(
             }
 
             case 'enable_dev_tools': {
-                // Enable all dev tools features automatically: console capture, network monitoring, element tracking
-                await driver.executeScript(`
-                    // Initialize capture arrays
-                    if (!window.capturedConsoleLogs) {
-                        window.capturedConsoleLogs = [];
-                    }
-                    if (!window.capturedNetworkLogs) {
-                        window.capturedNetworkLogs = [];
-                    }
-                    if (!window.capturedElementInteractions) {
-                        window.capturedElementInteractions = [];
+                // Console capture, error capture, network monitoring and element tracking. With persistent (the default),
+                // CDP re-runs the instrumentation at the start of every new document, so page-load activity is captured too
+                const { persistent = true } = args;
+                if (persistent && !session.instrumentationId) {
+                    try {
+                        session.instrumentationId = await enablePersistentInstrumentation(driver);
+                    } catch (error) {
+                        logger.warn('Persistent instrumentation unavailable, enabling for the current page only', {
+                            browserId: session.browserId,
+                            error: error instanceof Error ? error.message : String(error)
+                        });
                     }
-                    
-                    // ===== CONSOLE CAPTURE =====
-                    const methods = ['log', 'error', 'warn', 'info', 'debug', 'trace', 'table', 'group', 'groupEnd', 'time', 'timeEnd'];
-                    const originals = {};
-                    
-                    methods.forEach(method => {
-                        if (console[method] && !window._originalConsoleMethods) {
-                            originals[method] = console[method];
-                            console[method] = function(...args) {
-                                window.capturedConsoleLogs.push({
-                                    level: method,
-                                    message: args.map(a => {
-                                        if (typeof a === 'object') {
-                                            try {
-                                                return JSON.stringify(a).substring(0, 500);
-                                            } catch {
-                                                return String(a).substring(0, 500);
-                                            }
-                                        }
-                                        return String(a);
-                                    }).join(' '),
-                                    timestamp: new Date().toISOString(),
-                                    stack: method === 'error' || method === 'trace' 
-                                        ? new Error().stack?.split('\\n').slice(0, 5).join('\\n') 
-                                        : null
-                                });
-                                return originals[method].apply(console, args);
-                            };
-                        }
+                }
+                await driver.executeScript(INSTRUMENTATION_SCRIPT);
+
+                let networkCapture = false;
+                try {
+                    await startNetworkCapture(session);
+                    await startWebSocketCapture(session);
+                    networkCapture = true;
+                } catch (error) {
+                    logger.warn('CDP network capture unavailable, falling back to in-page fetch/XHR capture', {
+                        browserId: session.browserId,
+                        error: error instanceof Error ? error.message : String(error)
                     });
-                    
-                    if (!window._originalConsoleMethods) {
-                        window._originalConsoleMethods = originals;
-                    }
-                    
-                    // ===== NETWORK MONITORING =====
-                    // Capture fetch requests
-                    if (!window._originalFetch) {
-                        window._originalFetch = window.fetch;
-                        window.fetch = function(...args) {
-                            const startTime = performance.now();
-                            const url = args[0];
-                            const options = args[1] || {};
-                            
-                            return window._originalFetch.apply(this, args)
-                                .then(async response => {
-                                    const endTime = performance.now();
-                                    const clonedResponse = response.clone();
-                                    let body = null;
-                                    try {
-                                        body = await clonedResponse.text();
-                                    } catch (e) {
-                                        // Body may not be readable
-                                    }
-                                    
-                                    window.capturedNetworkLogs.push({
-                                        url: url.toString(),
-                                        method: options.method || 'GET',
-                                        status: response.status,
-                                        statusText: response.statusText,
-                                        responseTime: Math.round(endTime - startTime),
-                                        timestamp: new Date().toISOString(),
-                                        type: 'fetch',
-                                        headers: Object.fromEntries(response.headers.entries()),
-                                        bodySize: body ? body.length : 0,
-                                        body: body && body.length < 1000 ? body.substring(0, 1000) : null
-                                    });
-                                    return response;
-                                })
-                                .catch(error => {
-                                    const endTime = performance.now();
-                                    window.capturedNetworkLogs.push({
-                                        url: url.toString(),
-                                        method: options.method || 'GET',
-                                        status: 0,
-                                        error: error.message,
-                                        responseTime: Math.round(endTime - startTime),
-                                        timestamp: new Date().toISOString(),
-                                        type: 'fetch'
-                                    });
-                                    throw error;
-                                });
-                        };
-                    }
-                    
-                    // Capture XMLHttpRequest
-                    if (!window._originalXHROpen) {
-                        window._originalXHROpen = XMLHttpRequest.prototype.open;
-                        window._originalXHRSend = XMLHttpRequest.prototype.send;
-                        
-                        XMLHttpRequest.prototype.open = function(method, url, ...args) {
-                            this._method = method;
-                            this._url = url;
-                            this._startTime = performance.now();
-                            return window._originalXHROpen.apply(this, [method, url, ...args]);
-                        };
-                        
-                        XMLHttpRequest.prototype.send = function(...args) {
-                            const xhr = this;
-                            const originalOnLoad = xhr.onload;
-                            const originalOnError = xhr.onerror;
-                            
-                            xhr.onload = function() {
-                                const endTime = performance.now();
-                                window.capturedNetworkLogs.push({
-                                    url: xhr._url,
-                                    method: xhr._method,
-                                    status: xhr.status,
-                                    statusText: xhr.statusText,
-                                    responseTime: Math.round(endTime - xhr._startTime),
-                                    timestamp: new Date().toISOString(),
-                                    type: 'xhr',
-                                    responseText: xhr.responseText && xhr.responseText.length < 1000 
-                                        ? xhr.responseText.substring(0, 1000) 
-                                        : null
-                                });
-                                if (originalOnLoad) originalOnLoad.apply(this, arguments);
-                            };
-                            
-                            xhr.onerror = function() {
-                                const endTime = performance.now();
-                                window.capturedNetworkLogs.push({
-                                    url: xhr._url,
-                                    method: xhr._method,
-                                    status: 0,
-                                    statusText: 'Error',
-                                    responseTime: Math.round(endTime - xhr._startTime),
-                                    timestamp: new Date().toISOString(),
-                                    type: 'xhr',
-                                    error: 'Network error'
-                                });
-                                if (originalOnError) originalOnError.apply(this, arguments);
-                            };
-                            
-                            return window._originalXHRSend.apply(this, args);
-                        };
+                }
+                try {
+                    await startErrorCapture(session);
+                } catch (error) {
+                    logger.warn('CDP error capture unavailable', {
+                        browserId: session.browserId,
+                        error: error instanceof Error ? error.message : String(error)
+                    });
+                }
+
+                return {
+                    success: true,
+                    message: session.instrumentationId
+                        ? 'Dev tools enabled: console, error, network and element capture are active now and on every page loaded from here on'
+                        : 'Dev tools enabled: console, error, network and element capture are active until the next navigation',
+                    data: {
+                        persistent: !!session.instrumentationId,
+                        networkCapture: networkCapture ? 'cdp' : 'page',
+                        errorCapture: !!session.errors?.isRunning
                     }
-                    
-                    // ===== ELEMENT INTERACTION TRACKING =====
-                    // Track clicks
-                    document.addEventListener('click', function(e) {
-                        const target = e.target;
-                        window.capturedElementInteractions.push({
-                            type: 'click',
-                            timestamp: new Date().toISOString(),
-                            element: {
-                                tag: target.tagName.toLowerCase(),
-                                id: target.id || null,
-                                classes: Array.from(target.classList || []),
-                                text: (target.textContent || '').trim().slice(0, 100),
-                                selector: target.id ? '#' + target.id : 
-                                         target.className ? '.' + Array.from(target.classList)[0] : 
-                                         target.tagName.toLowerCase()
-                            },
-                            position: { x: e.clientX, y: e.clientY }
-                        });
-                    }, true);
-                    
-                    // Track input changes
-                    document.addEventListener('input', function(e) {
-                        const target = e.target;
-                        if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') {
-                            window.capturedElementInteractions.push({
-                                type: 'input',
-                                timestamp: new Date().toISOString(),
-                                element: {
-                                    tag: target.tagName.toLowerCase(),
-                                    id: target.id || null,
-                                    name: target.name || null,
-                                    type: target.type || null,
-                                    selector: target.id ? '#' + target.id : 
-                                             target.name ? '[name="' + target.name + '"]' : 
-                                             target.tagName.toLowerCase()
-                                },
-                                value: target.value ? target.value.substring(0, 200) : ''
-                            });
-                        }
-                    }, true);
-                    
-                    // Track focus/blur
-                    document.addEventListener('focus', function(e) {
-                        const target = e.target;
-                        if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') {
-                            window.capturedElementInteractions.push({
-                                type: 'focus',
-                                timestamp: new Date().toISOString(),
-                                element: {
-                                    tag: target.tagName.toLowerCase(),
-                                    id: target.id || null,
-                                    name: target.name || null,
-                                    selector: target.id ? '#' + target.id : 
-                                             target.name ? '[name="' + target.name + '"]' : 
-                                             target.tagName.toLowerCase()
-                                }
-                            });
-                        }
-                    }, true);
-                    
-                    // Track form submissions
-                    document.addEventListener('submit', function(e) {
-                        const target = e.target;
-                        window.capturedElementInteractions.push({
-                            type: 'submit',
-                            timestamp: new Date().toISOString(),
-                            element: {
-                                tag: target.tagName.toLowerCase(),
-                                id: target.id || null,
-                                action: target.action || null,
-                                method: target.method || null
-                            }
-                        });
-                    }, true);
-                    
-                    // Mark dev tools as enabled
-                    window._mcpDevToolsEnabled = true;
-                `);
+                };
+            }
+
+            case 'disable_dev_tools': {
+                const networkStopped = !!session.network;
+                if (session.network) {
+                    await session.network.stop();
+                    session.network = undefined;
+                }
+                if (session.errors) {
+                    session.errors.stop();
+                    session.errors = undefined;
+                }
+                if (session.websockets) {
+                    session.websockets.stop();
+                    session.websockets = undefined;
+                }
+                if (!session.instrumentationId) {
+                    return {
+                        success: true,
+                        message: networkStopped ? 'Network capture stopped; no persistent instrumentation registered' : 'No persistent instrumentation registered'
+                    };
+                }
+                await disablePersistentInstrumentation(driver, session.instrumentationId);
+                session.instrumentationId = undefined;
+                return {
+                    success: true,
+                    message: 'Persistent instrumentation removed and network capture stopped; new pages load without capture hooks'
+                };
+            }
+
+            case 'set_network_conditions': {
+                // Throttling or offline for loading states and offline banners; preset 'no-throttling' resets
+                const { conditions, reason } = resolveNetworkConditions({
+                    preset: args.preset,
+                    offline: args.offline,
+                    latency: args.latency,
+                    downloadKbps: args.downloadKbps,
+                    uploadKbps: args.uploadKbps
+                });
+                if (!conditions) return { success: false, message: reason };
+                await emulateNetworkConditions(await getCdpSession(session), conditions);
+                session.networkEmulation = { ...session.networkEmulation, conditions };
+
+                const kbps = (bytes: number) => bytes < 0 ? 'unlimited' : `${Math.round((bytes * 8) / 1000)} kbit/s`;
+                return {
+                    success: true,
+                    message: conditions.offline
+                        ? 'Network emulated as offline'
+                        : `Network emulated: ${conditions.latency} ms latency, ${kbps(conditions.downloadThroughput)} down, ${kbps(conditions.uploadThroughput)} up`,
+                    data: { preset: args.preset || null, ...conditions }
+                };
+            }
+
+            case 'set_cache_disabled': {
+                const disabled = args.disabled !== false;
+                const cdp = await getCdpSession(session);
+                await cdp.send('Network.enable', {});
+                await cdp.send('Network.setCacheDisabled', { cacheDisabled: disabled });
+                session.networkEmulation = { ...session.networkEmulation, cacheDisabled: disabled };
+                return {
+                    success: true,
+                    message: disabled ? 'Browser cache disabled: every request goes to the network' : 'Browser cache enabled',
+                    data: { cacheDisabled: disabled }
+                };
+            }
 
+            case 'set_bypass_service_worker': {
+                const bypass = args.bypass !== false;
+                const cdp = await getCdpSession(session);
+                await cdp.send('Network.enable', {});
+                await cdp.send('Network.setBypassServiceWorker', { bypass });
+                session.networkEmulation = { ...session.networkEmulation, bypassServiceWorker: bypass };
                 return {
                     success: true,
-                    message: 'Dev tools enabled: console capture, network monitoring, and element tracking are now active'
+                    message: bypass ? 'Service workers bypassed: requests go straight to the network' : 'Service workers handle requests again',
+                    data: { bypassServiceWorker: bypass }
                 };
             }
 
@@ -1448,7 +1489,7 @@ export async function devToolsTool(
             default:
                 return {
                     success: false,
-                    message: `Unknown action: ${action}. Available actions: enable_dev_tools, get_console_logs, get_network_requests, get_performance_metrics, get_performance_feedback, get_storage, get_cookies, get_accessibility, get_security, get_manifest, get_service_workers, get_memory, get_layout, get_computed_styles, get_event_listeners, get_element_interactions, get_css_property, set_css_property, get_loaded_scripts, read_script, clear_localStorage, set_localStorage, remove_localStorage, clear_sessionStorage, set_sessionStorage, clear_cookies, set_cookie, remove_cookie, get_all, set_viewport_size, get_viewport_size, set_device_preset, reset_viewport`
+                    message: `Unknown action: ${action}. Available actions: enable_dev_tools, disable_dev_tools, get_console_logs, get_errors, get_network_requests, export_har, get_websocket_frames, get_performance_metrics, get_performance_feedback, get_storage, get_cookies, get_accessibility, get_security, get_manifest, get_service_workers, get_memory, get_layout, get_computed_styles, get_event_listeners, get_element_interactions, get_css_property, set_css_property, get_loaded_scripts, read_script, clear_localStorage, set_localStorage, remove_localStorage, clear_sessionStorage, set_sessionStorage, clear_cookies, set_cookie, remove_cookie, get_all, set_viewport_size, get_viewport_size, set_device_preset, reset_viewport, set_network_conditions, set_cache_disabled, set_bypass_service_worker`
                 };
         }
     } catch (error) {
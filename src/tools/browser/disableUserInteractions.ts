@@ -0,0 +1,17 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+
+export async function disableUserInteractionsTool(
+  args: any,
+  session: BrowserSession | null,
+  logger: Logger
+) {
+  const { disableMouse, disableKeyboard, disableTouch, showOverlay } = args;
+  if (!session) return { success: false, message: 'Session not found' };
+
+  const result = await session.core.disableUserInteractions({ disableMouse, disableKeyboard, disableTouch, showOverlay });
+  if (result.success) {
+    logger.info('User interactions disabled', { browserId: session.browserId });
+  }
+  return result;
+}
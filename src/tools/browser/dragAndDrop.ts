@@ -0,0 +1,21 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+
+export async function dragAndDropTool(
+  args: any,
+  session: BrowserSession | null,
+  logger: Logger
+) {
+  const { sourceSelector, targetSelector, sourceBy = 'css', targetBy = 'css', timeout } = args;
+  if (!session) return { success: false, message: 'Session not found' };
+  if (!sourceSelector || !targetSelector) return { success: false, message: 'sourceSelector and targetSelector required' };
+
+  const result = await session.core.dragAndDrop(
+    { selector: sourceSelector, by: sourceBy, timeout },
+    { selector: targetSelector, by: targetBy, timeout }
+  );
+  if (!result.success) {
+    logger.warn('Drag and drop failed', { browserId: session.browserId, sourceSelector, targetSelector, message: result.message });
+  }
+  return result;
+}
@@ -0,0 +1,16 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+
+export async function enableUserInteractionsTool(
+  args: any,
+  session: BrowserSession | null,
+  logger: Logger
+) {
+  if (!session) return { success: false, message: 'Session not found' };
+
+  const result = await session.core.enableUserInteractions();
+  if (result.success) {
+    logger.info('User interactions enabled', { browserId: session.browserId });
+  }
+  return result;
+}
@@ -0,0 +1,32 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+import { getLogsDir } from '../../utils/projectDir.js';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export async function exportSessionHistoryTool(
+  args: any,
+  session: BrowserSession | null,
+  logger: Logger
+) {
+  const { format = 'markdown', save = false, projectDir } = args;
+  if (!session) return { success: false, message: 'Session not found' };
+
+  const result = await session.core.exportSessionHistory(format);
+  if (!result.success) return result;
+
+  const content = format === 'json' ? JSON.stringify(result.data, null, 2) : result.data.markdown;
+  if (save) {
+    try {
+      const logsDir = getLogsDir(projectDir);
+      if (!fs.existsSync(logsDir)) fs.mkdirSync(logsDir, { recursive: true });
+      const filePath = path.join(logsDir, `history-${session.browserId}-${Date.now()}.${format === 'json' ? 'json' : 'md'}`);
+      await fs.promises.writeFile(filePath, content);
+      logger.info('Session history saved', { browserId: session.browserId, filePath });
+      return { success: true, message: `Session history saved to ${filePath}`, data: { ...result.data, filePath } };
+    } catch (error) {
+      return { success: false, message: `Failed to save session history: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+  return result;
+}
@@ -0,0 +1,61 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+import { locate } from '../../utils/locator.js';
+
+export async function fillFormTool(
+  args: any,
+  session: BrowserSession | null,
+  logger: Logger
+) {
+  const { fields, submitAfter = false, submitSelector, submitBy = 'css', timeout = 5000 } = args;
+  if (!session) return { success: false, message: 'Session not found' };
+  const entries = Object.entries(fields || {});
+  let filled = 0; const errors: any[] = [];
+  for (const [name, cfg] of entries) {
+    try {
+      const element = await locate(session.driver, (cfg as any).selector, (cfg as any).by, timeout);
+      const result = await session.driver.executeScript(`
+        const el = arguments[0];
+        const value = arguments[1];
+        
+        el.scrollIntoView({ block: 'center', behavior: 'instant' });
+        el.focus();
+        el.value = '';
+        
+        const inputEvent = new Event('input', { bubbles: true });
+        const changeEvent = new Event('change', { bubbles: true });
+        
+        el.value = value;
+        el.dispatchEvent(inputEvent);
+        el.dispatchEvent(changeEvent);
+        
+        return { success: true };
+      `, element, (cfg as any).value ?? '');
+      if (result && (result as any).success) filled++;
+      else errors.push({ field: name, selector: (cfg as any).selector, error: (result as any)?.message || 'Element not found' });
+    } catch (e: any) {
+      errors.push({ field: name, selector: (cfg as any).selector, error: e?.message || String(e) });
+    }
+  }
+
+  if (submitAfter) {
+    try {
+      const button = submitSelector
+        ? await locate(session.driver, submitSelector, submitBy, timeout)
+        : await locate(session.driver, 'button[type="submit"], input[type="submit"]', 'css');
+      await session.driver.executeScript(`
+        const btn = arguments[0];
+        btn.scrollIntoView({ block: 'center', behavior: 'instant' });
+        btn.click();
+      `, button);
+    } catch (e) {
+      errors.push({ field: '_submit', selector: submitSelector || 'auto', error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  return {
+    success: errors.length === 0,
+    message: `Form filled: ${filled} fields${errors.length ? `, ${errors.length} errors` : ''}`,
+    data: { filledFields: filled, skippedFields: entries.length - filled, errors }
+  };
+}
@@ -0,0 +1,99 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+
+export async function findByDescriptionTool(
+  args: any,
+  session: BrowserSession | null,
+  logger: Logger
+) {
+  const { description, context = '', preferredSelector = 'all', limit = 10, pierceShadow = false } = args;
+  if (!session) return { success: false, message: 'Session not found' };
+  try {
+    const data = await session.driver.executeScript(`
+    const desc = arguments[0].toLowerCase();
+    const contextSel = arguments[1];
+    const limit = arguments[2];
+    const pierceShadow = arguments[3];
+    const CANDIDATES = 'button, [role="button"], a[href], input, textarea, select';
+    // context accepts host >>> inner to start inside a shadow root
+    function resolveContext(sel) {
+      let scope = document;
+      const parts = sel.split('>>>').map(p => p.trim());
+      for (let i = 0; i < parts.length; i++) {
+        const el = scope.querySelector(parts[i]);
+        if (!el) return null;
+        scope = i < parts.length - 1 ? el.shadowRoot : el;
+        if (!scope) return null;
+      }
+      return scope;
+    }
+    function collect(scope, out) {
+      out.push(...scope.querySelectorAll(CANDIDATES));
+      if (pierceShadow) {
+        for (const el of scope.querySelectorAll('*')) if (el.shadowRoot) collect(el.shadowRoot, out);
+      }
+      return out;
+    }
+    const root = contextSel ? resolveContext(contextSel) : document;
+    if (!root) return { description: desc, matches: [], recommended: '', error: 'Context not found: ' + contextSel };
+    const candidates = collect(root, []);
+    const vw = window.innerWidth, vh = window.innerHeight;
+    function getSel(el){
+      const segments = [];
+      let node = el;
+      while (node) {
+        segments.unshift(getLocalSel(node));
+        const rootNode = node.getRootNode();
+        node = rootNode instanceof ShadowRoot ? rootNode.host : null;
+      }
+      return segments.join(' >>> ');
+    }
+    function getLocalSel(el){
+      if (el.id) return '#' + CSS.escape(el.id);
+      const parts = [];
+      while (el && el.nodeType===1 && el!==document.body){
+        let part = el.nodeName.toLowerCase();
+        const siblings = Array.from(el.parentNode ? el.parentNode.children: []).filter(e=>e.nodeName===el.nodeName);
+        if (siblings.length>1){ const idx = siblings.indexOf(el)+1; part += ':nth-of-type('+idx+')'; }
+        parts.unshift(part); el = el.parentElement;
+      }
+      return parts.join(' > ');
+    }
+    function score(el){
+      const rect = el.getBoundingClientRect();
+      const text = ((el.innerText || el.textContent || '') + ' ' + (el.getAttribute('aria-label')||'') + ' ' + (el.getAttribute('placeholder')||'') + ' ' + (el.getAttribute('name')||'')).toLowerCase();
+      let s = 0;
+      for (const token of desc.split(/\s+/)) if (token && text.includes(token)) s += 2;
+      // Heuristic: top-right
+      if (desc.includes('top right') || desc.includes('top-right')) { if (rect.x > vw*0.6 && rect.y < vh*0.4) s += 3; }
+      if (desc.includes('login') && /login|sign in|entrar/.test(text)) s += 2;
+      return s;
+    }
+    const ranked = candidates
+      .map(el => ({ el, score: score(el) }))
+      .filter(r => r.score > 0)
+      .sort((a,b)=>b.score-a.score)
+      .slice(0, limit)
+      .map((r)=>{
+        const el = r.el; const rect = el.getBoundingClientRect();
+        const attrs = {}; for (const a of Array.from(el.attributes)) attrs[a.name]=a.value;
+        return {
+          selector: getSel(el),
+          cssSelector: getSel(el),
+          xpath: '',
+          confidence: r.score >= 6 ? 'high' : (r.score>=3 ? 'medium':'low'),
+          tagName: el.tagName.toLowerCase(),
+          text: (el.innerText || el.textContent || '').trim().slice(0,200),
+          attributes: attrs,
+          whyMatch: 'Heuristic text/location match',
+          location: { x: rect.x, y: rect.y, width: rect.width, height: rect.height }
+        };
+      });
+    return { description: desc, matches: ranked, recommended: ranked[0]?.cssSelector || '' };
+  `, description, context, limit, pierceShadow);
+
+    return { success: true, message: 'Matches found', data };
+  } catch (error) {
+    return { success: false, message: `Failed to find by description: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
@@ -1,12 +1,21 @@
 import { BrowserSession } from '../../common/types.js';
 import { Logger } from '../../utils/logger.js';
+import { FrameLocator, hasFrame, listFrames, parseFrameLocator, withFrame } from '../../utils/frames.js';
+import { PAGE_HELPERS } from '../../utils/locator.js';
+
+// Tag every element of a tree extracted from a frame with the frame it lives in
+function stampFrame(node: any, frame: string) {
+  if (!node) return;
+  if (node.tag) node.frame = frame;
+  (node.children || []).forEach((child: any) => stampFrame(child, frame));
+}
 
 export async function getPageElementsTool(
   args: any,
   session: BrowserSession | null,
   logger: Logger
 ) {
-  const { includeHidden = false, maxDepth = 3, interactiveOnly = false, maxElements = 50 } = args;
+  const { includeHidden = false, maxDepth = 3, interactiveOnly = false, maxElements = 50, pierceShadow = false, frame, includeFrames = false } = args;
 
   if (!session) {
     return {
@@ -17,13 +26,16 @@ export async function getPageElementsTool(
 
   try {
     // Optimized script - minimize execution cost by using efficient DOM traversal
-    const data = await session.driver.executeScript(`
-      (function() {
+    const extract = async () => await session.driver.executeScript(`
+      return (function() {
       const includeHidden = arguments[0];
       const maxDepth = arguments[1];
       const interactiveOnly = arguments[2];
       const maxElements = arguments[3];
-      
+      const pierceShadow = arguments[4];
+
+      ${PAGE_HELPERS}
+
       function isVisible(el) {
         const rect = el.getBoundingClientRect();
         const style = window.getComputedStyle(el);
@@ -33,33 +45,6 @@ export async function getPageElementsTool(
                style.opacity !== '0';
       }
 
-      function getSelector(el) {
-        if (el.id) return '#' + CSS.escape(el.id);
-        const parts = [];
-        let current = el;
-        while (current && current.nodeType === 1 && current !== document.body) {
-          let part = current.tagName.toLowerCase();
-          if (current.id) {
-            part = '#' + CSS.escape(current.id);
-            parts.unshift(part);
-            break;
-          }
-          if (current.className) {
-            const cls = [...current.classList].slice(0, 2).map(c => '.' + CSS.escape(c)).join('');
-            part += cls;
-          }
-          const siblings = Array.from(current.parentNode ? current.parentNode.children : [])
-            .filter(e => e.tagName === current.tagName);
-          if (siblings.length > 1) {
-            const index = siblings.indexOf(current) + 1;
-            part += ':nth-of-type(' + index + ')';
-          }
-          parts.unshift(part);
-          current = current.parentElement;
-        }
-        return parts.join(' > ');
-      }
-
       function getElementProperties(el) {
         const rect = el.getBoundingClientRect();
         const style = window.getComputedStyle(el);
@@ -104,8 +89,9 @@ export async function getPageElementsTool(
         
         // Get all relevant properties like browser inspector
         const props = {
+          ref: refFor(el),
           tag: tag,
-          selector: getSelector(el),
+          selector: selectorOf(el),
           action: action,
           actionHint: actionHint,
           id: el.id || null,
@@ -124,6 +110,7 @@ export async function getPageElementsTool(
           'aria-labelledby': (el.getAttribute('aria-labelledby') || null),
           'data-testid': (el.getAttribute('data-testid') || null),
           visible: isVisible(el),
+          shadowHost: pierceShadow && el.shadowRoot ? true : null,
           enabled: (el.disabled !== undefined) ? !el.disabled : true,
           selected: (el.selected !== undefined) ? !!el.selected : false,
           checked: (el.checked !== undefined) ? !!el.checked : false,
@@ -170,17 +157,15 @@ export async function getPageElementsTool(
         return props;
       }
 
+      // Open shadow root content comes before light DOM children when piercing
+      function childrenOf(el) {
+        const light = Array.from(el.children || []);
+        return pierceShadow && el.shadowRoot ? Array.from(el.shadowRoot.children).concat(light) : light;
+      }
+
       // Track total elements processed to limit output size
       let elementCount = 0;
       
-      // Check if element is interactive
-      function isInteractive(el) {
-        const tag = el.tagName.toLowerCase();
-        return tag === 'input' || tag === 'button' || tag === 'textarea' || tag === 'select' || 
-               tag === 'a' || el.getAttribute('role') === 'button' || el.getAttribute('onclick') ||
-               el.getAttribute('tabindex') !== null;
-      }
-      
       // Recursive function to build DOM tree - traverses from outermost to innermost
       // This ensures we process elements in hierarchical order: root -> children -> grandchildren -> etc.
       function buildDOMTree(root, depth = 0) {
@@ -192,7 +177,7 @@ export async function getPageElementsTool(
         // If interactiveOnly is true, skip non-interactive elements (but keep their children)
         if (interactiveOnly && depth > 0 && !isInteractive(root)) {
           // Still process children but don't include this element
-          const children = Array.from(root.children || []);
+          const children = childrenOf(root);
           const filteredChildren = includeHidden ? children : children.filter(isVisible);
           const childrenTree = [];
           for (let i = 0; i < filteredChildren.length && elementCount < maxElements; i++) {
@@ -211,7 +196,7 @@ export async function getPageElementsTool(
         const elementInfo = getElementProperties(root);
         
         // Then recursively process all children (inner elements)
-        const children = Array.from(root.children || []);
+        const children = childrenOf(root);
         const filteredChildren = includeHidden ? children : children.filter(isVisible);
         
         // Recursive call: process each child and its descendants
@@ -264,10 +249,28 @@ export async function getPageElementsTool(
         title: document.title,
         tree: domTree
       };
-      })();
-    `, includeHidden, maxDepth, interactiveOnly, maxElements);
+      }).apply(null, arguments);
+    `, includeHidden, maxDepth, interactiveOnly, maxElements, pierceShadow) as any;
+
+    const pageData = await withFrame(session.driver, frame, extract);
+    if (hasFrame(frame)) {
+      pageData.frame = parseFrameLocator(frame as FrameLocator).join('/');
+      stampFrame(pageData.tree, pageData.frame);
+    }
 
-    const pageData = data as any;
+    // Frames are listed from the top-level document, so their paths are absolute
+    if (includeFrames && !hasFrame(frame)) {
+      pageData.frames = [];
+      for (const info of await listFrames(session.driver)) {
+        try {
+          const frameData = await withFrame(session.driver, info.path, extract);
+          stampFrame(frameData.tree, info.frame);
+          pageData.frames.push({ frame: info.frame, name: info.name || info.id, url: frameData.url, tree: frameData.tree });
+        } catch (error) {
+          pageData.frames.push({ frame: info.frame, name: info.name || info.id, url: info.url, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
 
     logger.info('Page elements extracted', {
       sessionId: session.sessionId,
@@ -0,0 +1,20 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+import { targetOf } from '../../utils/locator.js';
+
+export async function hoverElementTool(
+  args: any,
+  session: BrowserSession | null,
+  logger: Logger
+) {
+  const { timeout } = args;
+  const { selector, by } = targetOf(args);
+  if (!session) return { success: false, message: 'Session not found' };
+  if (!selector) return { success: false, message: 'selector or ref required' };
+
+  const result = await session.core.hoverElement({ selector, by, timeout });
+  if (!result.success) {
+    logger.warn('Hover failed', { browserId: session.browserId, selector, message: result.message });
+  }
+  return result;
+}
@@ -0,0 +1,14 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+
+export async function inspectElementTool(
+  args: any,
+  session: BrowserSession | null,
+  logger: Logger
+) {
+  const { selector, by = 'css' } = args;
+  if (!session) return { success: false, message: 'Session not found' };
+  if (!selector) return { success: false, message: 'selector required' };
+
+  return session.core.inspectElement(selector, by);
+}
@@ -0,0 +1,104 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+
+export async function listElementsTool(
+  args: any,
+  session: BrowserSession | null,
+  logger: Logger
+) {
+  const { filter = {}, limit = 50, includeHidden = false } = args;
+  if (!session) return { success: false, message: 'Session not found' };
+
+  try {
+    const data = await session.driver.executeScript(`
+    const filter = arguments[0];
+    const limit = arguments[1];
+    const includeHidden = arguments[2];
+
+    function isVisible(el) {
+      const rect = el.getBoundingClientRect();
+      const style = window.getComputedStyle(el);
+      return rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+    }
+
+    function getUniqueSelector(el) {
+      if (el.id) return '#' + CSS.escape(el.id);
+      const parts = [];
+      while (el && el.nodeType === 1 && el !== document.body) {
+        let part = el.nodeName.toLowerCase();
+        if (el.className) {
+          const cls = [...el.classList].slice(0,2).map(c => '.' + CSS.escape(c)).join('');
+          part += cls;
+        }
+        const siblings = Array.from(el.parentNode ? el.parentNode.children : []).filter(e => e.nodeName === el.nodeName);
+        if (siblings.length > 1) {
+          const index = siblings.indexOf(el) + 1;
+          part += ':nth-of-type(' + index + ')';
+        }
+        parts.unshift(part);
+        el = el.parentElement;
+      }
+      return parts.join(' > ');
+    }
+
+    function collectElements() {
+      let selector = '*';
+      switch (filter.type) {
+        case 'button': selector = 'button, [role="button"], input[type="button"], input[type="submit"]'; break;
+        case 'input': selector = 'input, textarea'; break;
+        case 'link': selector = 'a[href]'; break;
+        case 'form': selector = 'form'; break;
+        case 'select': selector = 'select'; break;
+        default: selector = '*';
+      }
+      let nodes = Array.from(document.querySelectorAll(selector));
+      if (filter.cssSelector) nodes = nodes.filter(n => n.matches(filter.cssSelector));
+      if (filter.tagName) nodes = nodes.filter(n => n.tagName.toLowerCase() === filter.tagName.toLowerCase());
+      if (filter.containsText) {
+        const q = filter.containsText.toLowerCase();
+        nodes = nodes.filter(n => (n.innerText || n.textContent || '').toLowerCase().includes(q));
+      }
+      if (!includeHidden && (filter.visibleOnly ?? true)) nodes = nodes.filter(isVisible);
+
+      const results = [];
+      for (let i=0; i<Math.min(nodes.length, limit); i++) {
+        const el = nodes[i];
+        const rect = el.getBoundingClientRect();
+        const attrs = {};
+        for (const a of Array.from(el.attributes)) attrs[a.name] = a.value;
+        results.push({
+          index: i,
+          selector: getUniqueSelector(el),
+          tagName: el.tagName.toLowerCase(),
+          text: (el.textContent || '').trim().slice(0,200),
+          attributes: {
+            id: el.id || '',
+            class: el.className || '',
+            name: el.getAttribute('name') || '',
+            type: el.getAttribute('type') || '',
+            placeholder: el.getAttribute('placeholder') || '',
+            value: (el.value !== undefined) ? el.value : '',
+            href: (el.href !== undefined) ? el.href : '',
+            'aria-label': el.getAttribute('aria-label') || '',
+            'data-testid': el.getAttribute('data-testid') || ''
+          },
+          isVisible: isVisible(el),
+          isEnabled: (el.disabled !== undefined) ? !el.disabled : true,
+          isSelected: (el.selected !== undefined) ? !!el.selected : false,
+          location: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+          parent: el.parentElement ? getUniqueSelector(el.parentElement) : '',
+          visibleText: (el.innerText !== undefined) ? el.innerText : (el.textContent || '')
+        });
+      }
+      return { count: Math.min(nodes.length, limit), elements: results };
+    }
+
+    return collectElements();
+  `, filter, limit, includeHidden);
+
+    const result = data as any;
+    return { success: true, message: `Found ${result.count} elements`, data: result };
+  } catch (error) {
+    return { success: false, message: `Failed to list elements: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
@@ -0,0 +1,28 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+import { listFrames } from '../../utils/frames.js';
+
+export async function listFramesTool(
+  args: any,
+  session: BrowserSession | null,
+  logger: Logger
+) {
+  const { maxDepth = 5 } = args;
+  if (!session) return { success: false, message: 'Session not found' };
+
+  try {
+    const frames = await listFrames(session.driver, maxDepth);
+    logger.debug('Frames listed', { browserId: session.browserId, count: frames.length });
+    return {
+      success: true,
+      message: frames.length
+        ? `${frames.length} frames found. Pass the frame value as the frame argument of other tools`
+        : 'No frames on this page',
+      data: {
+        frames: frames.map(({ path, ...frame }) => frame),
+      },
+    };
+  } catch (error) {
+    return { success: false, message: `Failed to list frames: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
@@ -17,7 +17,7 @@ export async function navigateToTool(
         // Re-inject badge after navigation if badge exists in session
         if (session.badge && injectBadge) {
             try {
-                await session.driver.executeScript(`localStorage.setItem('mcp-debug-badge', '${session.badge}');`);
+                await session.driver.executeScript("localStorage.setItem('mcp-debug-badge', arguments[0]);", session.badge);
                 await injectBadge(session.driver);
             } catch (error) {
                 logger.warn('Badge re-inject failed', { sessionId: session.sessionId, browserId: session.browserId });
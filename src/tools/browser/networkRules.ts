@@ -0,0 +1,168 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+import { getLogsDir, getProjectDir } from '../../utils/projectDir.js';
+import { ERROR_REASONS, getInterceptor, RULE_ACTIONS, RuleAction } from '../../utils/requestInterceptor.js';
+import { HarReplay } from '../../utils/har.js';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.json': 'application/json',
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.js': 'application/javascript',
+  '.css': 'text/css',
+  '.txt': 'text/plain; charset=utf-8',
+  '.xml': 'application/xml',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+async function mockBody(args: any, projectDir?: string): Promise<{ body: string; contentType?: string }> {
+  if (args.bodyFile) {
+    const file = path.resolve(getProjectDir(projectDir), args.bodyFile);
+    const content = await fs.promises.readFile(file);
+    return { body: content.toString('base64'), contentType: CONTENT_TYPES[path.extname(file).toLowerCase()] };
+  }
+  if (args.body === undefined) return { body: '' };
+  if (typeof args.body === 'string') return { body: Buffer.from(args.body).toString('base64') };
+  return { body: Buffer.from(JSON.stringify(args.body)).toString('base64'), contentType: 'application/json' };
+}
+
+export async function networkRulesTool(
+  args: any,
+  session: BrowserSession | null,
+  logger: Logger
+) {
+  const { operation = 'list' } = args;
+  if (!session) return { success: false, message: 'Session not found' };
+
+  try {
+    switch (operation) {
+      case 'add': {
+        const { urlPattern, action = 'block', ruleId, method, resourceType, status, headers = {}, errorReason, times } = args;
+        if (!urlPattern) return { success: false, message: 'urlPattern required' };
+        if (!RULE_ACTIONS.includes(action)) {
+          return { success: false, message: `Invalid action '${action}'. Use one of: ${RULE_ACTIONS.join(', ')}` };
+        }
+        if (action === 'fail' && errorReason && !ERROR_REASONS.includes(errorReason)) {
+          return { success: false, message: `Invalid errorReason '${errorReason}'. Use one of: ${ERROR_REASONS.join(', ')}` };
+        }
+        if (action === 'modify' && Object.keys(headers).length === 0) {
+          return { success: false, message: 'headers required for modify' };
+        }
+
+        let ruleHeaders: Record<string, string> = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name, String(value)]));
+        let body: string | undefined;
+        if (action === 'mock') {
+          const mocked = await mockBody(args, args.projectDir);
+          body = mocked.body;
+          const hasContentType = Object.keys(ruleHeaders).some(name => name.toLowerCase() === 'content-type');
+          if (mocked.contentType && !hasContentType) {
+            ruleHeaders = { 'Content-Type': mocked.contentType, ...ruleHeaders };
+          }
+        }
+
+        const interceptor = await getInterceptor(session);
+        const rule = await interceptor.add({
+          id: ruleId,
+          urlPattern,
+          action: action as RuleAction,
+          method,
+          resourceType,
+          status: action === 'mock' ? status : undefined,
+          headers: action === 'mock' || action === 'modify' ? ruleHeaders : undefined,
+          body,
+          errorReason: action === 'fail' ? errorReason : undefined,
+          times,
+        });
+        logger.info('Network rule added', { browserId: session.browserId, ruleId: rule.id, action, urlPattern });
+        return {
+          success: true,
+          message: `Rule '${rule.id}' added: ${action} ${urlPattern}`,
+          data: { rules: interceptor.list() },
+        };
+      }
+
+      case 'remove': {
+        if (!args.ruleId) return { success: false, message: 'ruleId required' };
+        const interceptor = await getInterceptor(session);
+        const removed = await interceptor.remove(args.ruleId);
+        return {
+          success: removed,
+          message: removed ? `Rule '${args.ruleId}' removed` : `No rule '${args.ruleId}'`,
+          data: { rules: interceptor.list() },
+        };
+      }
+
+      case 'clear': {
+        if (!session.interceptor) return { success: true, message: 'No rules installed', data: { rules: [] } };
+        const cleared = session.interceptor.list();
+        await session.interceptor.clear();
+        return {
+          success: true,
+          message: `${cleared.length} rule(s) removed`,
+          data: { rules: cleared },
+        };
+      }
+
+      case 'list': {
+        // Going through getInterceptor reinstalls rules left on a closed DevTools connection
+        const rules = session.interceptor ? (await getInterceptor(session)).list() : [];
+        const matched = rules.filter(rule => rule.matches > 0);
+        const replay = session.harReplay?.stats();
+        return {
+          success: true,
+          message: `${rules.length} rule(s), ${matched.length} matched${replay ? `; replaying ${replay.source}: ${replay.served} served, ${replay.missed} missed` : ''}`,
+          data: { rules, ...(replay ? { replay } : {}) },
+        };
+      }
+
+      case 'replay_har': {
+        // Rules still run first; the HAR answers whatever they leave alone
+        const { harFile, notFound = 'fail', matchQuery = true, projectDir } = args;
+        if (!harFile) return { success: false, message: 'harFile required' };
+        if (!['fail', 'continue'].includes(notFound)) {
+          return { success: false, message: `Invalid notFound '${notFound}'. Use fail or continue` };
+        }
+        // Bare names resolve under logs/, where export_har writes
+        const candidates = [path.resolve(getProjectDir(projectDir), harFile), path.join(getLogsDir(projectDir), harFile)];
+        const file = candidates.find(candidate => fs.existsSync(candidate));
+        if (!file) return { success: false, message: `HAR file not found: ${harFile}` };
+
+        const replay = new HarReplay(file, JSON.parse(await fs.promises.readFile(file, 'utf8')), { notFound, matchQuery });
+        const interceptor = await getInterceptor(session);
+        await interceptor.setFallback(replay.handle);
+        session.harReplay = replay;
+        logger.info('HAR replay started', { browserId: session.browserId, file, entries: replay.size });
+        return {
+          success: true,
+          message: `Replaying ${replay.size} recorded response(s) from ${file}; requests not in the HAR ${notFound === 'fail' ? 'fail as offline' : 'go to the network'}`,
+          data: { replay: replay.stats() },
+        };
+      }
+
+      case 'stop_replay': {
+        const replay = session.harReplay;
+        if (!replay) return { success: true, message: 'No HAR replay running' };
+        await session.interceptor?.setFallback(undefined);
+        session.harReplay = undefined;
+        return {
+          success: true,
+          message: `HAR replay stopped: ${replay.stats().served} served, ${replay.stats().missed} missed`,
+          data: { replay: replay.stats() },
+        };
+      }
+
+      default:
+        return { success: false, message: `Unknown operation: ${operation}. Use add, remove, list, clear, replay_har or stop_replay` };
+    }
+  } catch (error) {
+    logger.error('Network rules operation failed', { browserId: session.browserId, operation, error: error instanceof Error ? error.message : String(error) });
+    return { success: false, message: `Network rules operation failed: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
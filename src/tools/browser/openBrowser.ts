@@ -2,6 +2,11 @@ import { WebDriver, Session } from 'selenium-webdriver';
 import { BrowserSession } from '../../common/types.js';
 import { ChromeDriverManager } from '../../utils/chromeDriverManager.js';
 import { Logger } from '../../utils/logger.js';
+import { BrowserAutomationCore } from '../../core/browser-automation-core.js';
+import { enablePersistentInstrumentation } from '../../utils/instrumentation.js';
+import { startNetworkCapture } from '../../utils/networkCollector.js';
+import { startErrorCapture } from '../../utils/errorCollector.js';
+import { startWebSocketCapture } from '../../utils/websocketCollector.js';
 
 function getMonitorPosition(monitor: string): { x: number; y: number } {
   switch (monitor) {
@@ -22,7 +27,7 @@ export async function openBrowserTool(
   logger: Logger,
   setBadge: (args: any) => Promise<any> // Pass setBadge as a dependency
 ) {
-  const { browserId, headless = false, width = 1920, height = 1080, badge, url, x, y, monitor } = args;
+  const { browserId, headless = false, width = 1920, height = 1080, badge, url, x, y, monitor, devTools = false } = args;
 
   if (browserSessions.has(browserId)) {
     return {
@@ -38,6 +43,7 @@ export async function openBrowserTool(
       browserId,
       sessionId: await driver.getSession().then((s: Session) => s.getId()),
       driver,
+      core: new BrowserAutomationCore(driver, browserId),
       isActive: true,
       createdAt: new Date(),
       lastUsed: new Date(),
@@ -70,6 +76,22 @@ export async function openBrowserTool(
     // Selenium's logging API will automatically capture browser console logs
     // Dev tools (console capture, network monitoring, element tracking) should be enabled explicitly via enable_dev_tools action
 
+    // Register dev tools capture before the first navigation, so the first page's load is recorded too
+    if (devTools) {
+      try {
+        session.instrumentationId = await enablePersistentInstrumentation(driver);
+      } catch (error) {
+        logger.warn('Failed to enable dev tools at launch', { browserId, error: error instanceof Error ? error.message : String(error) });
+      }
+      try {
+        await startNetworkCapture(session);
+        await startWebSocketCapture(session);
+        await startErrorCapture(session);
+      } catch (error) {
+        logger.warn('Failed to start CDP capture at launch', { browserId, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
     if (url) {
       await driver.get(url);
     }
@@ -77,11 +99,11 @@ export async function openBrowserTool(
     // Set badge if provided - this will be stored in session and persist across navigations
     if (badge) {
       session.badge = badge; // Store in session for persistence
-      await setBadge({ sessionId: session.sessionId, badge });
+      await setBadge({ browserId, badge });
     }
 
     logger.info('Browser opened', { browserId, sessionId: session.sessionId });
-    return { success: true, data: { browserId, sessionId: session.sessionId } };
+    return { success: true, data: { browserId, sessionId: session.sessionId, ...(devTools ? { devTools: !!session.instrumentationId } : {}) } };
   } catch (error) {
     logger.error('Failed to open browser', { browserId, error: error instanceof Error ? error.message : String(error) });
     return { success: false, message: error instanceof Error ? error.message : String(error) };
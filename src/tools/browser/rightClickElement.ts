@@ -0,0 +1,18 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+
+export async function rightClickElementTool(
+  args: any,
+  session: BrowserSession | null,
+  logger: Logger
+) {
+  const { selector, by = 'css', timeout } = args;
+  if (!session) return { success: false, message: 'Session not found' };
+  if (!selector) return { success: false, message: 'selector required' };
+
+  const result = await session.core.rightClickElement({ selector, by, timeout });
+  if (!result.success) {
+    logger.warn('Right click failed', { browserId: session.browserId, selector, message: result.message });
+  }
+  return result;
+}
@@ -0,0 +1,99 @@
+import { BrowserSession, ScenarioStep } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+import { ExecuteStepFunction } from '../scenario/replayScenario.js';
+import { targetOf } from '../../utils/locator.js';
+
+// BrowserAutomationCore.executeActionSequence action names are accepted as aliases
+const ACTION_ALIASES: Record<string, string> = {
+  navigate_to: 'navigate',
+  take_screenshot: 'screenshot',
+  execute_script: 'script',
+};
+
+function toStep(action: any): ScenarioStep | string {
+  const name = ACTION_ALIASES[action?.action] || action?.action;
+  const timestamp = Date.now();
+  const { selector, by } = targetOf(action || {});
+  switch (name) {
+    case 'navigate':
+      if (!action.url && !action.value) return 'url required';
+      return { action: 'navigate', url: action.url || action.value, timestamp };
+    case 'click':
+      if (!selector) return 'selector or ref required';
+      return { action: 'click', selector, by, timeout: action.timeout, frame: action.frame, mode: action.mode, force: action.force, timestamp };
+    case 'type':
+      if (!selector) return 'selector or ref required';
+      return { action: 'type', selector, by, value: action.text ?? action.value ?? '', timeout: action.timeout, frame: action.frame,
+        mode: action.mode, append: action.append, delay: action.delay, force: action.force, timestamp };
+    case 'wait':
+      return { action: 'wait', timeout: action.ms ?? action.timeout ?? 1000, timestamp };
+    case 'screenshot':
+      return { action: 'screenshot', filename: action.filename || action.value, timestamp };
+    case 'script':
+      if (!action.script) return 'script required';
+      return { action: 'execute_script', script: action.script, args: action.args || [], timestamp };
+    default:
+      return `Unknown action: ${action?.action}`;
+  }
+}
+
+export async function runActionsTool(
+  args: any,
+  session: BrowserSession | null,
+  executeStep: ExecuteStepFunction,
+  logger: Logger
+) {
+  const { actions, continueOnError = false, stopOnError = true } = args;
+  if (!session) return { success: false, message: 'Session not found' };
+  if (!Array.isArray(actions) || actions.length === 0) return { success: false, message: 'actions required' };
+
+  const steps: Array<{ step: number; action: string; status: 'passed' | 'failed' | 'skipped'; duration: number; message?: string; data?: any }> = [];
+  const start = Date.now();
+  let stopped = false;
+
+  for (let i = 0; i < actions.length; i++) {
+    const action = String(actions[i]?.action);
+    if (stopped) {
+      steps.push({ step: i + 1, action, status: 'skipped', duration: 0 });
+      continue;
+    }
+
+    const step = toStep(actions[i]);
+    const stepStart = Date.now();
+    let result: { success: boolean; message?: string; data?: any };
+    if (typeof step === 'string') {
+      result = { success: false, message: step };
+    } else {
+      try {
+        result = await executeStep(session, step);
+      } catch (error) {
+        result = { success: false, message: error instanceof Error ? error.message : String(error) };
+      }
+    }
+
+    steps.push({
+      step: i + 1,
+      action,
+      status: result.success ? 'passed' : 'failed',
+      duration: Date.now() - stepStart,
+      message: result.success ? undefined : (result.message || 'Action failed'),
+      data: result.data,
+    });
+
+    if (!result.success && stopOnError && !continueOnError) {
+      stopped = true;
+    }
+  }
+
+  const passed = steps.filter(s => s.status === 'passed').length;
+  const failed = steps.filter(s => s.status === 'failed').length;
+  const skipped = steps.length - passed - failed;
+  const duration = Date.now() - start;
+  logger.info('Action sequence completed', { browserId: session.browserId, passed, failed, skipped, duration });
+
+  return {
+    success: failed === 0,
+    message: `Action sequence completed: ${passed} passed, ${failed} failed, ${skipped} skipped in ${duration}ms`,
+    data: { passed, failed, skipped, duration, steps },
+  };
+}
@@ -0,0 +1,76 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+import { locate } from '../../utils/locator.js';
+
+export async function selectOptionTool(
+  args: any,
+  session: BrowserSession | null,
+  logger: Logger
+) {
+  const { selector, by = 'css', option, timeout = 10000 } = args;
+  if (!session) return { success: false, message: 'Session not found' };
+  try {
+    const element = await locate(session.driver, selector, by, timeout);
+    const result = await session.driver.executeScript(`
+      const selectEl = arguments[0];
+      const option = arguments[1];
+      
+      if (selectEl.tagName.toLowerCase() !== 'select') {
+        return { success: false, message: 'Element is a <' + selectEl.tagName.toLowerCase() + '>, not a <select>' };
+      }
+      
+      const opts = Array.from(selectEl.options);
+      let chosen = null;
+      let index = -1;
+      
+      if (option.by === 'index') {
+        index = option.index !== undefined ? option.index : 0;
+        chosen = opts[index] || null;
+      } else if (option.by === 'value') {
+        for (let i = 0; i < opts.length; i++) {
+          if (opts[i].value === option.value) {
+            chosen = opts[i];
+            index = i;
+            break;
+          }
+        }
+      } else {
+        const target = (option.text || '').toLowerCase();
+        for (let i = 0; i < opts.length; i++) {
+          const text = (opts[i].text || '').toLowerCase();
+          if (text.includes(target)) {
+            chosen = opts[i];
+            index = i;
+            break;
+          }
+        }
+      }
+      
+      if (!chosen) {
+        return { success: false, message: 'Option not found' };
+      }
+      
+      selectEl.selectedIndex = index;
+      const changeEvent = new Event('change', { bubbles: true });
+      selectEl.dispatchEvent(changeEvent);
+      
+      return {
+        success: true,
+        selectedOption: {
+          text: chosen.text,
+          value: chosen.value,
+          index: index
+        }
+      };
+    `, element, option);
+
+    const data = result as any;
+    if (!data.success) {
+      return { success: false, message: data.message || 'Failed to select option' };
+    }
+
+    return { success: true, message: 'Option selected', data: { selectedOption: data.selectedOption } };
+  } catch (error) {
+    return { success: false, message: `Failed to select option: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
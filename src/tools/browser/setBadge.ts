@@ -0,0 +1,29 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+import { WebDriver } from 'selenium-webdriver';
+
+export async function setBadgeTool(
+  args: any,
+  session: BrowserSession | null,
+  logger: Logger,
+  injectBadge: (driver: WebDriver) => Promise<any>
+) {
+  const { badge } = args;
+  if (!session) return { success: false, message: 'Session not found' };
+
+  try {
+    if (badge && badge.trim()) {
+      const badgeText = badge.trim();
+      session.badge = badgeText;
+      await session.driver.executeScript("localStorage.setItem('mcp-debug-badge', arguments[0]);", badgeText);
+      await injectBadge(session.driver);
+      return { success: true };
+    } else {
+      session.badge = undefined;
+      await session.driver.executeScript(`localStorage.removeItem('mcp-debug-badge');const e=document.getElementById('mcp-debug-badge');if(e)e.remove();`);
+      return { success: true };
+    }
+  } catch (error) {
+    return { success: false, message: error instanceof Error ? error.message : String(error) };
+  }
+}
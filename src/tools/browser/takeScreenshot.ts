@@ -1,6 +1,9 @@
 import { BrowserSession } from '../../common/types.js';
 import { Logger } from '../../utils/logger.js';
 import { getImagesDir, getProjectDir } from '../../utils/projectDir.js';
+import { clearMarks, drawMarks, Mark } from '../../utils/setOfMarks.js';
+import { CapturedImage, captureScreenshot } from '../../utils/screenshot.js';
+import { locate, targetOf } from '../../utils/locator.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -9,10 +12,42 @@ export async function takeScreenshotTool(
     session: BrowserSession | null,
     logger: Logger
 ) {
-    const { filename, projectDir: providedProjectDir } = args;
+    const {
+        filename, projectDir: providedProjectDir, annotate = false, maxMarks = 100,
+        inline = false, save = true, format = 'png', quality, maxDimension, fullPage = false, mask, timeout = 5000,
+    } = args;
     if (!session) return { success: false, message: 'Session not found' };
+    if (!inline && !save) return { success: false, message: 'Nothing to do: set inline, save, or both' };
     try {
-        const image = await session.driver.takeScreenshot();
+        // selector (or ref) crops to one element; mask selectors are blacked out before capturing
+        const target = targetOf(args);
+        const element = args.selector || args.ref ? await locate(session.driver, target.selector, target.by, timeout) : undefined;
+        const capture = () => captureScreenshot(session.driver, { format, quality, maxDimension, fullPage: fullPage && !element, element, mask });
+        // Set-of-marks: number the interactive elements on screen, capture, then remove the overlay
+        let marks: Mark[] | undefined;
+        let image: CapturedImage;
+        if (annotate) {
+            try {
+                marks = await drawMarks(session.driver, maxMarks);
+                image = await capture();
+            } finally {
+                await clearMarks(session.driver).catch(() => undefined);
+            }
+        } else {
+            image = await capture();
+        }
+
+        // Inline images go back to the client as MCP image content next to the text result
+        const images = inline ? [{ data: image.data, mimeType: image.mimeType }] : undefined;
+        const legend = {
+            ...(marks ? { marks: marks.map(({ box, ...mark }) => mark) } : {}),
+            ...(image.masked !== undefined ? { masked: image.masked } : {}),
+        };
+        const markMessage = marks ? `${marks.length} interactive elements marked. Use a mark's ref with click_element, type_text or hover_element` : undefined;
+        if (!save) {
+            return { success: true, message: markMessage || 'Screenshot captured', data: { format: image.format, ...legend }, images };
+        }
+
         // Save to 'images' directory in the user's current project directory (where Cursor is running)
         // Uses centralized project directory detection
         const projectDir = getProjectDir(providedProjectDir);
@@ -23,12 +58,13 @@ export async function takeScreenshotTool(
         }
         
         // Generate filename with timestamp if not provided
+        const extension = image.format === 'jpeg' ? '.jpg' : '.png';
         const finalFilename = filename 
-            ? (filename.endsWith('.png') ? filename : `${filename}.png`)
-            : `screenshot-${Date.now()}.png`;
+            ? (/\.(png|jpe?g)$/i.test(filename) ? filename : `${filename}${extension}`)
+            : `screenshot-${Date.now()}${extension}`;
         
         const filePath = path.join(imagesDir, finalFilename);
-        await fs.promises.writeFile(filePath, image, 'base64');
+        await fs.promises.writeFile(filePath, image.data, 'base64');
         
         // Return relative path from project directory for easier access
         const relativePath = path.relative(projectDir, filePath);
@@ -46,7 +82,7 @@ export async function takeScreenshotTool(
                           process.env.PWD ? 'PWD' : 'process.cwd()'
         });
         
-        return { success: true, data: { filePath: relativePath, fullPath: filePath } };
+        return { success: true, message: markMessage, data: { filePath: relativePath, fullPath: filePath, ...legend }, images };
     } catch (error) {
         logger.error('Failed to take screenshot', { 
             error: error instanceof Error ? error.message : String(error),
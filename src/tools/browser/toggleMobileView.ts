@@ -0,0 +1,17 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+
+export async function toggleMobileViewTool(
+  args: any,
+  session: BrowserSession | null,
+  logger: Logger
+) {
+  const { mobile = true, deviceType = 'iPhone', width, height } = args;
+  if (!session) return { success: false, message: 'Session not found' };
+
+  const result = await session.core.toggleMobileView({ mobile, deviceType, width, height });
+  if (result.success) {
+    logger.info('Mobile view toggled', { browserId: session.browserId, mobile, deviceType });
+  }
+  return result;
+}
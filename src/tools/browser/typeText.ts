@@ -1,30 +1,69 @@
 import { BrowserSession } from '../../common/types.js';
 import { Logger } from '../../utils/logger.js';
-import { WebDriver, WebElement } from 'selenium-webdriver';
-
-interface FindElementBySelectorFunction {
-    (driver: WebDriver, selector: string, by: string, timeout: number): Promise<WebElement>;
-}
+import { locate, selectorFor, targetOf } from '../../utils/locator.js';
+import { CLICK_CHECKS, TYPE_CHECKS, describeFailure, waitForActionable } from '../../utils/actionability.js';
+import { Key } from 'selenium-webdriver';
 
 export async function typeTextTool(
     args: any,
     session: BrowserSession | null,
-    findElementBySelector: FindElementBySelectorFunction,
     logger: Logger
 ) {
-    const { selector, text, by = 'css' } = args;
+    const { selector, by } = targetOf(args);
+    const { ref, text, timeout = 5000, mode = 'script', append = false, delay = 0, force = false } = args;
     if (!session) return { success: false, message: 'Session not found' };
     try {
-        await session.driver.executeScript(`
-            const s=arguments[0],b=arguments[1],t=arguments[2];
-            const f=(s,b)=>b==='id'?document.getElementById(s):b==='name'?document.querySelector('[name="'+s+'"]'):b==='className'?document.getElementsByClassName(s)[0]:b==='tagName'?document.getElementsByTagName(s)[0]:b==='xpath'?document.evaluate(s,document,null,XPathResult.FIRST_ORDERED_NODE_TYPE,null).singleNodeValue:document.querySelector(s);
-            const e=f(s,b);
-            if(!e)return{success:false};
-            e.scrollIntoView({block:'center',behavior:'instant'});e.focus();e.value='';
-            e.value=t;e.dispatchEvent(new Event('input',{bubbles:true}));e.dispatchEvent(new Event('change',{bubbles:true}));
-            return{success:true};
-        `, selector, by, text);
-        return { success: true };
+        let element;
+        if (force) {
+            element = await locate(session.driver, selector, by, timeout);
+        } else {
+            // Native typing clicks the field first, so it also needs the pointer checks
+            const checks = mode === 'native' ? Array.from(new Set([...TYPE_CHECKS, ...CLICK_CHECKS])) : TYPE_CHECKS;
+            const actionable = await waitForActionable(session.driver, selector, by, checks, timeout);
+            if (!actionable.element) {
+                logger.warn('Element not editable', { selector, ...actionable.failure });
+                return { success: false, message: describeFailure(actionable.failure), data: { reason: actionable.failure } };
+            }
+            element = actionable.element;
+        }
+        // Refs die with the page, so report a selector that scenario recording can replay
+        const data = ref ? { ref, selector: await selectorFor(session.driver, element) } : undefined;
+        if (mode === 'native') {
+            // Real keystrokes through WebDriver, so keydown/keypress handlers, masks and autocomplete see them
+            // Select-all is Cmd+A when the browser runs on macOS, which need not be where this server runs
+            const mac = await session.driver.executeScript(`
+                arguments[0].scrollIntoView({block:'center',behavior:'instant'});
+                return /Mac|iPhone|iPad/.test(navigator.platform);
+            `, element) as boolean;
+            await session.driver.actions({ async: true }).move({ origin: element }).click().perform();
+            if (!append) {
+                await element.sendKeys(Key.chord(mac ? Key.COMMAND : Key.CONTROL, 'a'), Key.BACK_SPACE);
+            } else {
+                await element.sendKeys(Key.END);
+            }
+            if (delay > 0) {
+                for (const char of String(text ?? '')) {
+                    await element.sendKeys(char);
+                    await new Promise(resolve => setTimeout(resolve, delay));
+                }
+            } else {
+                await element.sendKeys(String(text ?? ''));
+            }
+            return { success: true, data };
+        }
+        // Form fields take the text as their value, contenteditable elements as their text content
+        const typed = await session.driver.executeScript(`
+            const e=arguments[0],t=arguments[1],a=arguments[2];
+            e.scrollIntoView({block:'center',behavior:'instant'});e.focus();
+            if(e.isContentEditable){e.textContent=a?e.textContent+t:t;e.dispatchEvent(new InputEvent('input',{bubbles:true,inputType:'insertText',data:t}));return true;}
+            if(!('value' in e))return false;
+            e.value=a?e.value+t:t;e.dispatchEvent(new Event('input',{bubbles:true}));e.dispatchEvent(new Event('change',{bubbles:true}));
+            return true;
+        `, element, text, append) as boolean;
+        if (!typed) {
+            return { success: false, message: `Element ${selector} is neither a form field nor contenteditable; nothing was typed`, data };
+        }
+        return { success: true, data };
     } catch (error) {
         return { success: false, message: error instanceof Error ? error.message : String(error) };
     }
@@ -0,0 +1,20 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+import { waitForCondition } from '../../utils/waitConditions.js';
+
+export async function waitForTool(
+  args: any,
+  session: BrowserSession | null,
+  logger: Logger
+) {
+  const { browserId, frame, ...condition } = args;
+  if (!session) return { success: false, message: 'Session not found' };
+
+  try {
+    const result = await waitForCondition(session.driver, condition, undefined, session.network);
+    logger.debug('Wait finished', { browserId: session.browserId, condition: result.data.condition, success: result.success, elapsed: result.data.elapsed });
+    return result;
+  } catch (error) {
+    return { success: false, message: `Wait failed: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
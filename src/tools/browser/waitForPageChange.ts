@@ -0,0 +1,29 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+
+export async function waitForPageChangeTool(
+  args: any,
+  session: BrowserSession | null,
+  logger: Logger
+) {
+  const { fromUrl, toUrlPattern, timeout = 10000, takeScreenshot = false } = args;
+  if (!session) return { success: false, message: 'Session not found' };
+  try {
+    const oldUrl = fromUrl || await session.driver.getCurrentUrl();
+    let newUrl = oldUrl;
+    const pattern = toUrlPattern ? new RegExp(toUrlPattern) : null;
+    await session.driver.wait(async () => {
+      newUrl = await session.driver.getCurrentUrl();
+      if (pattern) return pattern.test(newUrl);
+      return newUrl !== oldUrl;
+    }, timeout);
+
+    const title = await session.driver.getTitle();
+    // The screenshot goes back as MCP image content rather than base64 inside data
+    const images = takeScreenshot ? [{ data: await session.driver.takeScreenshot(), mimeType: 'image/png' }] : undefined;
+
+    return { success: true, message: 'Page changed', data: { oldUrl, newUrl, title }, images };
+  } catch (error) {
+    return { success: false, message: `Timeout waiting for page change: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
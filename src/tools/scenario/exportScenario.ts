@@ -0,0 +1,57 @@
+import { Logger } from '../../utils/logger.js';
+import { ScenarioManager } from '../../utils/scenarioManager.js';
+import { getProjectDir, getScenariosDir } from '../../utils/projectDir.js';
+import { EXPORT_TARGETS, ExportTarget, exportFileName, exportScenario } from '../../utils/scenarioExport.js';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export async function exportScenarioTool(
+    args: any,
+    scenarioManager: ScenarioManager,
+    logger: Logger
+) {
+    const { scenarioId, target = 'all', outputDir, projectDir } = args;
+    if (!scenarioId) return { success: false, message: 'scenarioId required' };
+
+    const targets: ExportTarget[] = target === 'all' ? EXPORT_TARGETS : [target];
+    const unknown = targets.filter(t => !EXPORT_TARGETS.includes(t));
+    if (unknown.length > 0) {
+        return { success: false, message: `Unknown export target: ${unknown.join(', ')}. Available: ${EXPORT_TARGETS.join(', ')}, all` };
+    }
+
+    const scenario = await scenarioManager.loadScenario(scenarioId, projectDir);
+    if (!scenario) return { success: false, message: `Scenario not found: ${scenarioId}` };
+
+    try {
+        const baseDir = outputDir
+            ? (path.isAbsolute(outputDir) ? outputDir : path.join(getProjectDir(projectDir), outputDir))
+            : path.join(getScenariosDir(projectDir), 'exported');
+
+        const files: Array<{ target: ExportTarget; filePath: string }> = [];
+        let markdown = `# Exported scenario: ${scenario.name}\n\n`;
+
+        for (const t of targets) {
+            const code = exportScenario(scenario, t);
+            const targetDir = path.join(baseDir, t);
+            if (!fs.existsSync(targetDir)) {
+                fs.mkdirSync(targetDir, { recursive: true });
+            }
+            const filePath = path.join(targetDir, exportFileName(scenario, t));
+            await fs.promises.writeFile(filePath, code);
+
+            const relativePath = path.relative(getProjectDir(projectDir), filePath);
+            files.push({ target: t, filePath: relativePath });
+            markdown += `## ${t}\n\nSaved to \`${relativePath}\`\n\n\`\`\`typescript\n${code}\`\`\`\n\n`;
+        }
+
+        logger.info('Scenario exported', { scenarioId: scenario.scenarioId, targets, baseDir });
+        return {
+            success: true,
+            message: `Scenario '${scenario.name}' exported to ${files.length} file(s)`,
+            data: { scenarioId: scenario.scenarioId, files, markdown },
+        };
+    } catch (error) {
+        logger.error('Failed to export scenario', { scenarioId, error: error instanceof Error ? error.message : String(error) });
+        return { success: false, message: `Failed to export scenario: ${error instanceof Error ? error.message : String(error)}` };
+    }
+}
@@ -0,0 +1,24 @@
+import { Logger } from '../../utils/logger.js';
+import { ScenarioManager } from '../../utils/scenarioManager.js';
+
+export async function listScenariosTool(
+    args: any,
+    scenarioManager: ScenarioManager,
+    logger: Logger
+) {
+    const { projectDir } = args;
+    try {
+        const scenarios = (await scenarioManager.listScenarios(projectDir)).map(s => ({
+            scenarioId: s.scenarioId,
+            name: s.name,
+            description: s.description || '',
+            totalSteps: s.metadata?.totalSteps ?? s.steps.length,
+            createdAt: s.metadata?.createdAt,
+            lastUsed: s.metadata?.lastUsed || null,
+        }));
+        return { success: true, data: { scenarios, count: scenarios.length } };
+    } catch (error) {
+        logger.error('Failed to list scenarios', { error: error instanceof Error ? error.message : String(error) });
+        return { success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+}
@@ -0,0 +1,112 @@
+import { BrowserSession, Scenario, ScenarioStep } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+import { ScenarioManager } from '../../utils/scenarioManager.js';
+import { resolveStepVariables } from '../../utils/scenarioVariables.js';
+import { verifyExpectedResult } from './verifyExpectedResult.js';
+
+export interface ExecuteStepFunction {
+    (session: BrowserSession, step: ScenarioStep): Promise<{ success: boolean; message?: string; data?: any }>;
+}
+
+export interface StepResult {
+    step: number;
+    action: string;
+    status: 'passed' | 'failed' | 'skipped';
+    duration: number;
+    message?: string;
+}
+
+/**
+ * Run every step of a scenario against a session, substituting {{name}} placeholders
+ * from the scenario defaults overridden by the given variables
+ */
+export async function runScenario(
+    scenario: Scenario,
+    session: BrowserSession,
+    executeStep: ExecuteStepFunction,
+    overrides: Record<string, string> = {},
+    continueOnError: boolean = false
+): Promise<{ passed: number; failed: number; skipped: number; steps: StepResult[] }> {
+    const variables = { ...(scenario.variables || {}), ...overrides };
+    const steps: StepResult[] = [];
+    let failed = false;
+
+    for (let i = 0; i < scenario.steps.length; i++) {
+        const { step, missing } = resolveStepVariables(scenario.steps[i], variables);
+        if (failed && !continueOnError) {
+            steps.push({ step: i + 1, action: step.action, status: 'skipped', duration: 0 });
+            continue;
+        }
+        if (missing.length > 0) {
+            steps.push({ step: i + 1, action: step.action, status: 'failed', duration: 0, message: `Missing variables: ${missing.join(', ')}` });
+            failed = true;
+            continue;
+        }
+
+        const start = Date.now();
+        try {
+            const result = await executeStep(session, step);
+            steps.push({
+                step: i + 1,
+                action: step.action,
+                status: result.success ? 'passed' : 'failed',
+                duration: Date.now() - start,
+                message: result.success ? undefined : (result.message || 'Step failed'),
+            });
+            if (!result.success) failed = true;
+        } catch (error) {
+            steps.push({
+                step: i + 1,
+                action: step.action,
+                status: 'failed',
+                duration: Date.now() - start,
+                message: error instanceof Error ? error.message : String(error),
+            });
+            failed = true;
+        }
+    }
+
+    const passedCount = steps.filter(s => s.status === 'passed').length;
+    const failedCount = steps.filter(s => s.status === 'failed').length;
+    return { passed: passedCount, failed: failedCount, skipped: steps.length - passedCount - failedCount, steps };
+}
+
+export async function replayScenarioTool(
+    args: any,
+    session: BrowserSession | null,
+    scenarioManager: ScenarioManager,
+    executeStep: ExecuteStepFunction,
+    logger: Logger
+) {
+    const { scenarioId, variables = {}, continueOnError = false, projectDir } = args;
+    if (!session) return { success: false, message: 'Session not found' };
+    if (!scenarioId) return { success: false, message: 'scenarioId required' };
+
+    const scenario = await scenarioManager.loadScenario(scenarioId, projectDir);
+    if (!scenario) return { success: false, message: `Scenario not found: ${scenarioId}` };
+
+    const run = await runScenario(scenario, session, executeStep, variables, continueOnError);
+    const verdict = await verifyExpectedResult(scenario, session, logger, projectDir);
+
+    scenario.metadata.lastUsed = new Date().toISOString();
+    try {
+        await scenarioManager.saveScenario(scenario, projectDir);
+    } catch (error) {
+        logger.warn('Failed to update scenario lastUsed', { scenarioId: scenario.scenarioId, error: error instanceof Error ? error.message : String(error) });
+    }
+
+    logger.info('Scenario replayed', { scenarioId: scenario.scenarioId, browserId: session.browserId, passed: run.passed, failed: run.failed, verdict: verdict ? verdict.passed : null });
+
+    const verdictText = verdict ? `, expectations ${verdict.passed ? 'met' : 'not met'}` : '';
+    return {
+        success: run.failed === 0 && (!verdict || verdict.passed),
+        message: `Scenario '${scenario.name}' replayed: ${run.passed} passed, ${run.failed} failed${verdictText}`,
+        data: {
+            scenarioId: scenario.scenarioId,
+            name: scenario.name,
+            browserId: session.browserId,
+            ...run,
+            verdict,
+        },
+    };
+}
@@ -0,0 +1,71 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+import { ScenarioManager } from '../../utils/scenarioManager.js';
+import { getProjectDir } from '../../utils/projectDir.js';
+import { loadDataset } from '../../utils/scenarioVariables.js';
+import { ExecuteStepFunction, runScenario } from './replayScenario.js';
+import { verifyExpectedResult } from './verifyExpectedResult.js';
+import * as path from 'path';
+
+export async function runScenarioDatasetTool(
+    args: any,
+    session: BrowserSession | null,
+    scenarioManager: ScenarioManager,
+    executeStep: ExecuteStepFunction,
+    logger: Logger
+) {
+    const { scenarioId, dataset, variables = {}, continueOnError = false, projectDir } = args;
+    if (!session) return { success: false, message: 'Session not found' };
+    if (!scenarioId || !dataset) return { success: false, message: 'scenarioId and dataset required' };
+
+    const scenario = await scenarioManager.loadScenario(scenarioId, projectDir);
+    if (!scenario) return { success: false, message: `Scenario not found: ${scenarioId}` };
+
+    const datasetPath = path.isAbsolute(dataset) ? dataset : path.join(getProjectDir(projectDir), dataset);
+    let records: Record<string, string>[];
+    try {
+        records = await loadDataset(datasetPath);
+    } catch (error) {
+        return { success: false, message: `Failed to load dataset: ${error instanceof Error ? error.message : String(error)}` };
+    }
+    if (records.length === 0) return { success: false, message: `Dataset is empty: ${dataset}` };
+
+    const rows: Array<{ row: number; status: 'passed' | 'failed'; passed: number; failed: number; skipped: number; expectations: 'met' | 'not met' | 'none'; error: string }> = [];
+    for (let i = 0; i < records.length; i++) {
+        const run = await runScenario(scenario, session, executeStep, { ...variables, ...records[i] }, continueOnError);
+        const verdict = await verifyExpectedResult(scenario, session, logger, projectDir);
+        const firstFailure = run.steps.find(s => s.status === 'failed');
+        const failedCheck = verdict?.checks.find(c => !c.passed);
+        rows.push({
+            row: i + 1,
+            status: run.failed === 0 && (!verdict || verdict.passed) ? 'passed' : 'failed',
+            passed: run.passed,
+            failed: run.failed,
+            skipped: run.skipped,
+            expectations: verdict ? (verdict.passed ? 'met' : 'not met') : 'none',
+            error: firstFailure
+                ? `step ${firstFailure.step} (${firstFailure.action}): ${firstFailure.message}`
+                : failedCheck ? `${failedCheck.check}: expected ${failedCheck.expected}, got ${failedCheck.actual}` : '',
+        });
+    }
+
+    scenario.metadata.lastUsed = new Date().toISOString();
+    try {
+        await scenarioManager.saveScenario(scenario, projectDir);
+    } catch (error) {
+        logger.warn('Failed to update scenario lastUsed', { scenarioId: scenario.scenarioId, error: error instanceof Error ? error.message : String(error) });
+    }
+
+    const passedRows = rows.filter(r => r.status === 'passed').length;
+    logger.info('Scenario dataset run completed', { scenarioId: scenario.scenarioId, browserId: session.browserId, rows: rows.length, passed: passedRows });
+
+    return {
+        success: passedRows === rows.length,
+        message: `Scenario '${scenario.name}' ran for ${rows.length} rows: ${passedRows} passed, ${rows.length - passedRows} failed`,
+        data: {
+            scenarioId: scenario.scenarioId,
+            dataset,
+            rows,
+        },
+    };
+}
@@ -0,0 +1,26 @@
+import { BrowserSession } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+import { ScenarioManager } from '../../utils/scenarioManager.js';
+
+export async function startRecordingTool(
+    args: any,
+    session: BrowserSession | null,
+    scenarioManager: ScenarioManager,
+    logger: Logger
+) {
+    const { name, description } = args;
+    if (!session) return { success: false, message: 'Session not found' };
+    if (!name) return { success: false, message: 'Scenario name required' };
+
+    try {
+        const scenario = scenarioManager.startRecording(session.browserId, session.sessionId, name, description);
+        return {
+            success: true,
+            message: `Recording scenario '${name}' on browser '${session.browserId}'`,
+            data: { scenarioId: scenario.scenarioId, browserId: session.browserId },
+        };
+    } catch (error) {
+        logger.error('Failed to start recording', { browserId: session.browserId, error: error instanceof Error ? error.message : String(error) });
+        return { success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+}
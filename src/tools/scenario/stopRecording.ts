@@ -0,0 +1,31 @@
+import { Logger } from '../../utils/logger.js';
+import { ScenarioManager } from '../../utils/scenarioManager.js';
+import { getProjectDir } from '../../utils/projectDir.js';
+import * as path from 'path';
+
+export async function stopRecordingTool(
+    args: any,
+    scenarioManager: ScenarioManager,
+    logger: Logger
+) {
+    const { browserId, expectedResult } = args;
+    if (!browserId) return { success: false, message: 'browserId required' };
+
+    try {
+        const { scenario, filePath } = await scenarioManager.stopRecording(browserId, expectedResult);
+        return {
+            success: true,
+            message: `Scenario '${scenario.name}' saved with ${scenario.steps.length} steps`,
+            data: {
+                scenarioId: scenario.scenarioId,
+                name: scenario.name,
+                totalSteps: scenario.metadata.totalSteps,
+                duration: scenario.metadata.duration,
+                filePath: path.relative(getProjectDir(), filePath),
+            },
+        };
+    } catch (error) {
+        logger.error('Failed to stop recording', { browserId, error: error instanceof Error ? error.message : String(error) });
+        return { success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+}
@@ -0,0 +1,105 @@
+import { BrowserSession, Scenario } from '../../common/types.js';
+import { Logger } from '../../utils/logger.js';
+import { takeScreenshotTool } from '../browser/takeScreenshot.js';
+
+export interface ExpectationCheck {
+    check: 'finalUrl' | 'title' | 'element';
+    expected: string;
+    actual: string;
+    match: 'exact' | 'regex' | 'present';
+    passed: boolean;
+}
+
+export interface ExpectationVerdict {
+    passed: boolean;
+    checks: ExpectationCheck[];
+    screenshot?: string;
+}
+
+const REGEX_EXPECTED = /^\/(.+)\/([gimsuy]*)$/;
+
+function errorText(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Expected values written as /pattern/flags are matched as regular expressions, anything else must match exactly.
+ * An invalid pattern fails the check with the parse error as its actual value.
+ */
+function matchValue(expected: string, actual: string): { match: 'exact' | 'regex'; passed: boolean; actual: string } {
+    const regex = expected.match(REGEX_EXPECTED);
+    if (regex) {
+        try {
+            return { match: 'regex', passed: new RegExp(regex[1], regex[2]).test(actual), actual };
+        } catch (error) {
+            return { match: 'regex', passed: false, actual: `Invalid pattern: ${errorText(error)}` };
+        }
+    }
+    return { match: 'exact', passed: expected === actual, actual };
+}
+
+/**
+ * Read a page value and compare it, turning a failed read into a failed check instead of an error
+ */
+async function checkValue(check: 'finalUrl' | 'title', expected: string, read: () => Promise<string>): Promise<ExpectationCheck> {
+    let actual: string;
+    try {
+        actual = await read();
+    } catch (error) {
+        return { check, expected, actual: `Error: ${errorText(error)}`, match: REGEX_EXPECTED.test(expected) ? 'regex' : 'exact', passed: false };
+    }
+    return { check, expected, ...matchValue(expected, actual) };
+}
+
+/**
+ * Assert Scenario.expectedResult against the current page state.
+ * Returns null when the scenario declares no expectations.
+ */
+export async function verifyExpectedResult(
+    scenario: Scenario,
+    session: BrowserSession,
+    logger: Logger,
+    projectDir?: string
+): Promise<ExpectationVerdict | null> {
+    const expected = scenario.expectedResult;
+    if (!expected || (!expected.finalUrl && !expected.title && !expected.element)) {
+        return null;
+    }
+
+    const checks: ExpectationCheck[] = [];
+
+    if (expected.finalUrl) {
+        checks.push(await checkValue('finalUrl', expected.finalUrl, () => session.driver.getCurrentUrl()));
+    }
+
+    if (expected.title) {
+        checks.push(await checkValue('title', expected.title, () => session.driver.getTitle()));
+    }
+
+    if (expected.element) {
+        try {
+            const found = await session.driver.executeScript(`
+                try { return !!document.querySelector(arguments[0]); } catch (e) { return false; }
+            `, expected.element) as boolean;
+            checks.push({ check: 'element', expected: expected.element, actual: found ? 'present' : 'missing', match: 'present', passed: !!found });
+        } catch (error) {
+            checks.push({ check: 'element', expected: expected.element, actual: `Error: ${errorText(error)}`, match: 'present', passed: false });
+        }
+    }
+
+    const verdict: ExpectationVerdict = { passed: checks.every(c => c.passed), checks };
+
+    if (!verdict.passed) {
+        const screenshot = await takeScreenshotTool({ filename: `${scenario.scenarioId}-failure-${Date.now()}`, projectDir }, session, logger);
+        if (screenshot.success && screenshot.data && 'filePath' in screenshot.data) {
+            verdict.screenshot = screenshot.data.filePath;
+        }
+        logger.warn('Scenario expectations not met', {
+            scenarioId: scenario.scenarioId,
+            browserId: session.browserId,
+            failed: checks.filter(c => !c.passed).map(c => c.check),
+        });
+    }
+
+    return verdict;
+}
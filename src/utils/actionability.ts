@@ -0,0 +1,163 @@
+import { WebDriver, WebElement } from 'selenium-webdriver';
+import { isPermanentFailure, locateAll } from './locator.js';
+
+export type ActionabilityCheck = 'attached' | 'visible' | 'stable' | 'enabled' | 'editable' | 'inViewport' | 'receivesEvents';
+
+export const CLICK_CHECKS: ActionabilityCheck[] = ['attached', 'visible', 'stable', 'enabled', 'inViewport', 'receivesEvents'];
+export const TYPE_CHECKS: ActionabilityCheck[] = ['attached', 'visible', 'enabled', 'editable'];
+
+export interface ElementSummary {
+    tag: string;
+    selector: string;
+    text?: string;
+}
+
+export interface ActionabilityFailure {
+    check: ActionabilityCheck;
+    reason: string;
+    element?: ElementSummary;
+    coveredBy?: ElementSummary;
+    waited?: number;
+}
+
+const POLL_INTERVAL = 100;
+
+/**
+ * Runs in the page against one element. Resolves with the first failed check, or null when the element is actionable.
+ * Stability compares the bounding box across two animation frames.
+ */
+const CHECK_SCRIPT = `
+const el = arguments[0];
+const checks = arguments[1];
+const summarize = node => {
+    const parts = [];
+    let current = node;
+    while (current && current.nodeType === 1 && current !== document.body && parts.length < 4) {
+        if (current.id) { parts.unshift('#' + CSS.escape(current.id)); break; }
+        const cls = Array.from(current.classList).slice(0, 2).map(c => '.' + CSS.escape(c)).join('');
+        parts.unshift(current.tagName.toLowerCase() + cls);
+        current = current.parentElement;
+    }
+    return { tag: node.tagName.toLowerCase(), selector: parts.join(' > '), text: (node.textContent || '').replace(/\\s+/g, ' ').trim().slice(0, 80) };
+};
+const fail = (check, reason, extra) => Object.assign({ check, reason, element: summarize(el) }, extra || {});
+const frame = () => new Promise(resolve => requestAnimationFrame(() => resolve()));
+
+return (async () => {
+    if (checks.includes('attached') && !el.isConnected) return fail('attached', 'Element was detached from the DOM');
+
+    if (checks.includes('visible')) {
+        const rect = el.getBoundingClientRect();
+        const style = getComputedStyle(el);
+        if (rect.width === 0 || rect.height === 0) return fail('visible', 'Element has no size (' + Math.round(rect.width) + 'x' + Math.round(rect.height) + ')');
+        if (style.visibility === 'hidden' || style.visibility === 'collapse') return fail('visible', 'Element has visibility: ' + style.visibility);
+        if (el.checkVisibility && !el.checkVisibility()) return fail('visible', 'Element or an ancestor has display: none or content-visibility: hidden');
+    }
+
+    if (checks.includes('enabled')) {
+        const disabledFieldset = el.closest('fieldset[disabled]');
+        if (el.disabled) return fail('enabled', 'Element is disabled');
+        if (disabledFieldset && !disabledFieldset.querySelector('legend')?.contains(el)) return fail('enabled', 'Element is inside a disabled <fieldset>');
+        if (el.closest('[aria-disabled="true"]')) return fail('enabled', 'Element has aria-disabled="true"');
+    }
+
+    if (checks.includes('editable')) {
+        const tag = el.tagName.toLowerCase();
+        const editable = el.isContentEditable || tag === 'textarea' || (tag === 'input' && !['button', 'submit', 'reset', 'checkbox', 'radio', 'file', 'image', 'hidden', 'range', 'color'].includes((el.type || '').toLowerCase()));
+        if (!editable) return fail('editable', 'Element <' + tag + '> does not accept text');
+        if (el.readOnly || el.getAttribute('aria-readonly') === 'true') return fail('editable', 'Element is read-only');
+    }
+
+    if (checks.includes('stable') || checks.includes('inViewport') || checks.includes('receivesEvents')) {
+        el.scrollIntoView({ block: 'center', inline: 'center', behavior: 'instant' });
+    }
+
+    if (checks.includes('stable')) {
+        await frame();
+        const before = el.getBoundingClientRect();
+        await frame();
+        const after = el.getBoundingClientRect();
+        if (before.x !== after.x || before.y !== after.y || before.width !== after.width || before.height !== after.height) {
+            return fail('stable', 'Element is still moving or resizing (animation or layout shift)');
+        }
+    }
+
+    const rect = el.getBoundingClientRect();
+    const x = rect.left + rect.width / 2;
+    const y = rect.top + rect.height / 2;
+
+    if (checks.includes('inViewport') && (x < 0 || y < 0 || x >= innerWidth || y >= innerHeight)) {
+        return fail('inViewport', 'Element centre (' + Math.round(x) + ', ' + Math.round(y) + ') is outside the viewport even after scrolling');
+    }
+
+    if (checks.includes('receivesEvents')) {
+        const root = el.getRootNode();
+        const hit = (root.elementFromPoint ? root : document).elementFromPoint(x, y);
+        // The hit target counts when it is the element or inside it, across shadow boundaries
+        let node = hit;
+        while (node && node !== el) {
+            node = node.parentElement || (node.getRootNode() instanceof ShadowRoot ? node.getRootNode().host : null);
+        }
+        if (!node) {
+            return fail('receivesEvents', hit
+                ? 'Element is covered by <' + hit.tagName.toLowerCase() + '> at (' + Math.round(x) + ', ' + Math.round(y) + ')'
+                : 'Nothing receives pointer events at the element centre', hit ? { coveredBy: summarize(hit) } : {});
+        }
+    }
+
+    return null;
+})();
+`;
+
+/**
+ * Run the checks once against an element. Resolves with the first failure, or null when all pass.
+ */
+export async function checkElement(driver: WebDriver, element: WebElement, checks: ActionabilityCheck[]): Promise<ActionabilityFailure | null> {
+    return await driver.executeScript(CHECK_SCRIPT, element, checks) as ActionabilityFailure | null;
+}
+
+/**
+ * Locate an element and wait until it passes the given checks.
+ * Resolves with the element, or with the last failure once the timeout passes.
+ */
+export async function waitForActionable(
+    driver: WebDriver,
+    selector: string,
+    by: string | undefined,
+    checks: ActionabilityCheck[],
+    timeout: number
+): Promise<{ element: WebElement; failure?: undefined } | { element?: undefined; failure: ActionabilityFailure }> {
+    const start = Date.now();
+    let failure: ActionabilityFailure;
+
+    while (true) {
+        const { elements, reason } = await locateAll(driver, selector, by);
+        if (elements.length === 0) {
+            failure = { check: 'attached', reason: reason || 'Element not found' };
+        } else {
+            try {
+                const result = await checkElement(driver, elements[0], checks);
+                if (!result) {
+                    return { element: elements[0] };
+                }
+                failure = result;
+            } catch (error) {
+                // Stale references mean the element was replaced between locating and checking
+                failure = { check: 'attached', reason: error instanceof Error ? error.message : String(error) };
+            }
+        }
+
+        if (Date.now() - start >= timeout || isPermanentFailure(failure.reason)) {
+            return { failure: { ...failure, waited: Date.now() - start } };
+        }
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+    }
+}
+
+/**
+ * One-line description of a failure for tool messages
+ */
+export function describeFailure(failure: ActionabilityFailure): string {
+    const covered = failure.coveredBy?.selector ? ` (${failure.coveredBy.selector})` : '';
+    return `Element not actionable [${failure.check}]: ${failure.reason}${covered}${failure.waited ? ` after ${failure.waited}ms` : ''}`;
+}
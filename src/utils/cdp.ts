@@ -0,0 +1,129 @@
+import { WebDriver } from 'selenium-webdriver';
+import { BrowserSession } from '../common/types.js';
+import { reapplyNetworkEmulation } from './networkConditions.js';
+
+interface ChromiumDriver {
+    sendAndGetDevToolsCommand?: (cmd: string, params: object) => Promise<unknown>;
+    createCDPConnection?: (target: string) => Promise<SeleniumCdpConnection>;
+    _cdpWsConnection?: WsConnection;
+}
+
+interface SeleniumCdpConnection {
+    sessionId: string | null;
+    send(method: string, params: object): Promise<{ id: number; result?: any; error?: { code: number; message: string } }>;
+}
+
+interface WsConnection {
+    on(event: 'message', listener: (data: any) => void): void;
+    on(event: 'close', listener: () => void): void;
+    off(event: string, listener: (...args: any[]) => void): void;
+    close(): void;
+}
+
+type EventHandler = (params: any) => void;
+
+/**
+ * Send a Chrome DevTools Protocol command through chromedriver and return its result
+ */
+export async function sendCdp<T = any>(driver: WebDriver, cmd: string, params: object = {}): Promise<T> {
+    const chromium = driver as unknown as ChromiumDriver;
+    if (typeof chromium.sendAndGetDevToolsCommand !== 'function') {
+        throw new Error(`DevTools protocol is not available for this browser (${cmd})`);
+    }
+    return await chromium.sendAndGetDevToolsCommand(cmd, params) as T;
+}
+
+/**
+ * A DevTools websocket attached to the page, for domains that report through events (Network, Fetch, Runtime).
+ * Commands sent through chromedriver cannot receive events, so collectors subscribe here instead.
+ */
+export class CdpSession {
+    private listeners: Map<string, Set<EventHandler>> = new Map();
+    private closed = false;
+
+    private constructor(private connection: SeleniumCdpConnection, private ws: WsConnection) {
+        ws.on('message', (data: any) => this.dispatch(data));
+        ws.on('close', () => { this.closed = true; });
+    }
+
+    static async connect(driver: WebDriver): Promise<CdpSession> {
+        const chromium = driver as unknown as ChromiumDriver;
+        if (typeof chromium.createCDPConnection !== 'function') {
+            throw new Error('DevTools protocol is not available for this browser');
+        }
+        const connection = await chromium.createCDPConnection('page');
+        if (!chromium._cdpWsConnection) {
+            throw new Error('DevTools websocket did not open');
+        }
+        return new CdpSession(connection, chromium._cdpWsConnection);
+    }
+
+    get isOpen(): boolean {
+        return !this.closed;
+    }
+
+    /**
+     * Subscribe to a CDP event; returns the function that unsubscribes
+     */
+    on(method: string, handler: EventHandler): () => void {
+        if (!this.listeners.has(method)) {
+            this.listeners.set(method, new Set());
+        }
+        this.listeners.get(method)!.add(handler);
+        return () => { this.listeners.get(method)?.delete(handler); };
+    }
+
+    async send<T = any>(method: string, params: object = {}): Promise<T> {
+        if (this.closed) {
+            throw new Error(`DevTools connection closed (${method})`);
+        }
+        const response = await this.connection.send(method, params);
+        if (response.error) {
+            throw new Error(`${method} failed: ${response.error.message}`);
+        }
+        return response.result as T;
+    }
+
+    close() {
+        this.closed = true;
+        this.listeners.clear();
+        try {
+            this.ws.close();
+        } catch {
+            // Already closed with the browser
+        }
+    }
+
+    private dispatch(data: any) {
+        let message: { method?: string; params?: any; sessionId?: string };
+        try {
+            message = JSON.parse(data.toString());
+        } catch {
+            return;
+        }
+        // Events of other attached targets share the socket; keep only this page's
+        if (!message.method || (message.sessionId && this.connection.sessionId && message.sessionId !== this.connection.sessionId)) {
+            return;
+        }
+        for (const handler of this.listeners.get(message.method) || []) {
+            try {
+                handler(message.params);
+            } catch {
+                // A failing collector must not break the others
+            }
+        }
+    }
+}
+
+/**
+ * The browser session's DevTools connection, opened on first use and reopened if the socket closed.
+ * Network throttling and cache settings only last as long as a connection, so a new one gets them again.
+ */
+export async function getCdpSession(session: BrowserSession): Promise<CdpSession> {
+    if (!session.cdp || !session.cdp.isOpen) {
+        const cdp = await CdpSession.connect(session.driver);
+        await reapplyNetworkEmulation(session, cdp);
+        session.cdp = cdp;
+    }
+    return session.cdp;
+}
@@ -0,0 +1,214 @@
+import { BrowserSession } from '../common/types.js';
+import { CdpSession, getCdpSession } from './cdp.js';
+import { fetchText, OriginalPosition, SourceMapResolver } from './sourceMaps.js';
+
+/**
+ * Server-side error capture from CDP Runtime.exceptionThrown and Log.entryAdded: uncaught errors, unhandled
+ * promise rejections, CSP violations and browser interventions, with complete stacks. Independent of the
+ * in-page console hooks, so errors thrown before they install are seen too.
+ */
+
+export type ErrorKind = 'exception' | 'rejection' | 'csp' | 'intervention' | 'violation' | 'network' | 'log';
+
+export interface StackFrame {
+    functionName: string;
+    url: string;
+    line: number; // 1-based
+    column: number; // 1-based
+    original?: OriginalPosition;
+}
+
+export interface CapturedError {
+    kind: ErrorKind;
+    level: string;
+    message: string;
+    description?: string; // Full error text as the page would print it, stack included
+    url?: string;
+    line?: number;
+    column?: number;
+    stack: StackFrame[];
+    timestamp: string;
+}
+
+export interface ErrorSummary {
+    kind: ErrorKind;
+    message: string;
+    location?: string;
+    count: number;
+    firstSeen: string;
+    lastSeen: string;
+}
+
+const DEFAULT_MAX_ERRORS = 500;
+
+function framesOf(stackTrace: any): StackFrame[] {
+    return (stackTrace?.callFrames || []).map((frame: any) => ({
+        functionName: frame.functionName || '(anonymous)',
+        url: frame.url,
+        line: frame.lineNumber + 1,
+        column: frame.columnNumber + 1,
+    }));
+}
+
+function location(error: CapturedError): string | undefined {
+    const top = error.stack[0];
+    if (top) {
+        return top.original
+            ? `${top.original.source}:${top.original.line}:${top.original.column}`
+            : `${top.url}:${top.line}:${top.column}`;
+    }
+    return error.url ? `${error.url}${error.line ? `:${error.line}` : ''}` : undefined;
+}
+
+export class ErrorCollector {
+    private errors: CapturedError[] = [];
+    private unsubscribers: Array<() => void> = [];
+    private running = false;
+    private resolver = new SourceMapResolver();
+
+    constructor(private cdp: CdpSession, private maxErrors: number = DEFAULT_MAX_ERRORS) {}
+
+    get isRunning(): boolean {
+        return this.running && this.cdp.isOpen;
+    }
+
+    /**
+     * Replace how scripts and maps are loaded, e.g. to read bodies the browser already downloaded
+     */
+    useSourceMapResolver(resolver: SourceMapResolver) {
+        this.resolver = resolver;
+    }
+
+    async start() {
+        if (this.running) return;
+        this.unsubscribers = [
+            this.cdp.on('Runtime.exceptionThrown', params => this.onException(params)),
+            this.cdp.on('Log.entryAdded', params => this.onLogEntry(params.entry)),
+        ];
+        await this.cdp.send('Runtime.enable', {});
+        await this.cdp.send('Log.enable', {});
+        this.running = true;
+    }
+
+    stop() {
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+        this.running = false;
+    }
+
+    clear() {
+        this.errors = [];
+    }
+
+    /**
+     * Captured errors, newest last, with stack frames mapped to original sources when sourceMaps is set
+     */
+    async list(options: { kind?: string; limit?: number; sourceMaps?: boolean } = {}): Promise<CapturedError[]> {
+        let errors = options.kind ? this.errors.filter(error => error.kind === options.kind) : this.errors;
+        if (options.limit) errors = errors.slice(-options.limit);
+        if (options.sourceMaps === false) return errors;
+        return await Promise.all(errors.map(error => this.resolveStack(error)));
+    }
+
+    /**
+     * One line per distinct error (kind, message and location), most frequent first
+     */
+    summarize(errors: CapturedError[]): ErrorSummary[] {
+        const groups = new Map<string, ErrorSummary>();
+        for (const error of errors) {
+            const where = location(error);
+            const key = `${error.kind}\n${error.message}\n${where || ''}`;
+            const group = groups.get(key);
+            if (group) {
+                group.count++;
+                group.lastSeen = error.timestamp;
+            } else {
+                groups.set(key, { kind: error.kind, message: error.message, location: where, count: 1, firstSeen: error.timestamp, lastSeen: error.timestamp });
+            }
+        }
+        return [...groups.values()].sort((a, b) => b.count - a.count);
+    }
+
+    private async resolveStack(error: CapturedError): Promise<CapturedError> {
+        if (error.stack.length === 0) return error;
+        const stack = await Promise.all(error.stack.map(async frame => {
+            if (frame.original) return frame;
+            const original = await this.resolver.resolve(frame.url, frame.line - 1, frame.column - 1);
+            return original ? { ...frame, original } : frame;
+        }));
+        return { ...error, stack };
+    }
+
+    private onException(params: any) {
+        const details = params.exceptionDetails || {};
+        const exception = details.exception || {};
+        const rejection = /in promise/i.test(details.text || '');
+        const description: string | undefined = exception.description ?? (exception.value !== undefined ? String(exception.value) : undefined);
+        // The first line of the description is "TypeError: x is undefined"; details.text is only "Uncaught"
+        const message = description ? description.split('\n')[0] : details.text || 'Unknown error';
+        this.push({
+            kind: rejection ? 'rejection' : 'exception',
+            level: 'error',
+            message: rejection && !/^Uncaught/.test(message) ? `Uncaught (in promise) ${message}` : message,
+            description,
+            url: details.url,
+            line: details.lineNumber !== undefined ? details.lineNumber + 1 : undefined,
+            column: details.columnNumber !== undefined ? details.columnNumber + 1 : undefined,
+            stack: framesOf(details.stackTrace),
+            timestamp: new Date(params.timestamp || Date.now()).toISOString(),
+        });
+    }
+
+    private onLogEntry(entry: any) {
+        if (!entry) return;
+        const source: string = entry.source || 'other';
+        let kind: ErrorKind;
+        if (source === 'security' && /Content[- ]Security[- ]Policy/i.test(entry.text)) {
+            kind = 'csp';
+        } else if (source === 'intervention') {
+            kind = 'intervention';
+        } else if (source === 'violation') {
+            kind = 'violation';
+        } else if (entry.level !== 'error') {
+            // Other warnings and info stay in get_console_logs
+            return;
+        } else {
+            kind = source === 'network' ? 'network' : 'log';
+        }
+        this.push({
+            kind,
+            level: entry.level,
+            message: entry.text,
+            url: entry.url,
+            line: entry.lineNumber !== undefined ? entry.lineNumber + 1 : undefined,
+            stack: framesOf(entry.stackTrace),
+            timestamp: new Date(entry.timestamp || Date.now()).toISOString(),
+        });
+    }
+
+    private push(error: CapturedError) {
+        this.errors.push(error);
+        if (this.errors.length > this.maxErrors) {
+            this.errors.splice(0, this.errors.length - this.maxErrors);
+        }
+    }
+}
+
+/**
+ * Start (or keep) the session's error collector on its shared DevTools connection. Scripts the network
+ * collector already downloaded are read from the browser, so source maps resolve for authenticated pages too.
+ */
+export async function startErrorCapture(session: BrowserSession): Promise<ErrorCollector> {
+    if (!session.errors || !session.errors.isRunning) {
+        const collector = new ErrorCollector(await getCdpSession(session));
+        collector.useSourceMapResolver(new SourceMapResolver(async url => {
+            const entry = session.network?.list({}).reverse().find(candidate => candidate.url === url && candidate.finished && !candidate.failed);
+            const body = entry ? await session.network!.getResponseBody(entry.requestId) : undefined;
+            if (body) return body.base64Encoded ? Buffer.from(body.body, 'base64').toString('utf8') : body.body;
+            return await fetchText(url);
+        }));
+        await collector.start();
+        session.errors = collector;
+    }
+    return session.errors;
+}
@@ -0,0 +1,184 @@
+import { WebDriver, WebElement } from 'selenium-webdriver';
+import { locateAll } from './locator.js';
+
+/**
+ * A frame is addressed by its index among the frames of the current document, its name or id,
+ * or a CSS selector for the <iframe>. Arrays (or "0/1" strings) chain into nested frames, outermost first.
+ */
+export type FrameSegment = number | string;
+export type FrameLocator = FrameSegment | FrameSegment[];
+
+export interface FrameInfo {
+    frame: string;
+    path: number[];
+    depth: number;
+    name: string;
+    id: string;
+    src: string;
+    title: string;
+    url: string;
+    selector: string;
+    visible: boolean;
+}
+
+const DEFAULT_MAX_DEPTH = 5;
+
+/**
+ * Runs in the page. Lists <iframe>/<frame> elements of the current document, including those in open shadow roots.
+ */
+const FRAMES_SCRIPT = `
+function getSelector(el) {
+    const segments = [];
+    let node = el;
+    while (node) {
+        const parts = [];
+        let current = node;
+        while (current && current.nodeType === 1 && current !== document.body) {
+            if (current.id) { parts.unshift('#' + CSS.escape(current.id)); break; }
+            let part = current.tagName.toLowerCase();
+            const siblings = Array.from(current.parentNode ? current.parentNode.children : []).filter(e => e.tagName === current.tagName);
+            if (siblings.length > 1) part += ':nth-of-type(' + (siblings.indexOf(current) + 1) + ')';
+            parts.unshift(part);
+            current = current.parentElement;
+        }
+        segments.unshift(parts.join(' > '));
+        const rootNode = node.getRootNode();
+        node = rootNode instanceof ShadowRoot ? rootNode.host : null;
+    }
+    return segments.join(' >>> ');
+}
+const frames = [];
+const visit = scope => {
+    for (const el of scope.querySelectorAll('*')) {
+        if (el.tagName === 'IFRAME' || el.tagName === 'FRAME') frames.push(el);
+        if (el.shadowRoot) visit(el.shadowRoot);
+    }
+};
+visit(document);
+return frames.map(el => {
+    const rect = el.getBoundingClientRect();
+    return {
+        element: el,
+        name: el.getAttribute('name') || '',
+        id: el.id || '',
+        src: el.getAttribute('src') || '',
+        title: el.getAttribute('title') || '',
+        selector: getSelector(el),
+        visible: rect.width > 0 && rect.height > 0 && getComputedStyle(el).visibility !== 'hidden',
+    };
+});
+`;
+
+interface FrameElement {
+    element: WebElement;
+    name: string;
+    id: string;
+    src: string;
+    title: string;
+    selector: string;
+    visible: boolean;
+}
+
+async function frameElements(driver: WebDriver): Promise<FrameElement[]> {
+    return await driver.executeScript(FRAMES_SCRIPT) as FrameElement[];
+}
+
+/**
+ * Normalise a frame argument into segments; "0/1" is the path form reported by list_frames
+ */
+export function parseFrameLocator(frame: FrameLocator): FrameSegment[] {
+    if (Array.isArray(frame)) return frame;
+    if (typeof frame === 'string' && /^\d+(\/\d+)*$/.test(frame.trim())) {
+        return frame.trim().split('/').map(Number);
+    }
+    return [frame];
+}
+
+export function hasFrame(frame: FrameLocator | null | undefined): frame is FrameLocator {
+    return frame !== undefined && frame !== null && frame !== '' && !(Array.isArray(frame) && frame.length === 0);
+}
+
+async function resolveSegment(driver: WebDriver, segment: FrameSegment): Promise<WebElement> {
+    const frames = await frameElements(driver);
+    const available = frames.length
+        ? `Frames here: ${frames.map((f, i) => `${i}${f.name || f.id ? ` (${f.name || f.id})` : ''}`).join(', ')}`
+        : 'This document has no frames';
+
+    if (typeof segment === 'number') {
+        if (!frames[segment]) throw new Error(`No frame at index ${segment}. ${available}`);
+        return frames[segment].element;
+    }
+
+    const byName = frames.find(f => f.name === segment || f.id === segment);
+    if (byName) return byName.element;
+
+    const { elements } = await locateAll(driver, segment, 'css').catch(() => ({ elements: [] as WebElement[] }));
+    for (const element of elements) {
+        const tag = (await element.getTagName()).toLowerCase();
+        if (tag === 'iframe' || tag === 'frame') return element;
+    }
+    throw new Error(`No frame named or matching '${segment}'. ${available}`);
+}
+
+/**
+ * Switch the driver from the top-level document into the given frame
+ */
+export async function switchToFrame(driver: WebDriver, frame: FrameLocator): Promise<void> {
+    await driver.switchTo().defaultContent();
+    for (const segment of parseFrameLocator(frame)) {
+        const element = await resolveSegment(driver, segment);
+        await driver.switchTo().frame(element);
+    }
+}
+
+/**
+ * Run fn inside the given frame and always return to the top-level document afterwards.
+ * Without a frame, fn runs in the current context.
+ */
+export async function withFrame<T>(driver: WebDriver, frame: FrameLocator | null | undefined, fn: () => Promise<T>): Promise<T> {
+    if (!hasFrame(frame)) {
+        return fn();
+    }
+    try {
+        await switchToFrame(driver, frame);
+        return await fn();
+    } finally {
+        await driver.switchTo().defaultContent().catch(() => undefined);
+    }
+}
+
+/**
+ * Every frame of the page, depth first, each with the path usable as a frame argument
+ */
+export async function listFrames(driver: WebDriver, maxDepth: number = DEFAULT_MAX_DEPTH): Promise<FrameInfo[]> {
+    const found: FrameInfo[] = [];
+
+    const visit = async (path: number[]) => {
+        const frames = await frameElements(driver);
+        for (let i = 0; i < frames.length; i++) {
+            const { element, ...info } = frames[i];
+            const framePath = [...path, i];
+            const entry: FrameInfo = { frame: framePath.join('/'), path: framePath, depth: path.length, url: '', ...info };
+            found.push(entry);
+            try {
+                await driver.switchTo().frame(element);
+                entry.url = await driver.executeScript('return location.href;') as string;
+                if (framePath.length < maxDepth) {
+                    await visit(framePath);
+                }
+            } catch {
+                // Frames that cannot be entered (detached, sandboxed) are still listed
+            } finally {
+                await switchToFrame(driver, path);
+            }
+        }
+    };
+
+    try {
+        await driver.switchTo().defaultContent();
+        await visit([]);
+    } finally {
+        await driver.switchTo().defaultContent().catch(() => undefined);
+    }
+    return found;
+}
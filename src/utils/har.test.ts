@@ -0,0 +1,122 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildHar, HarReplay, toHarEntry } from './har.js';
+import { NetworkEntry } from './networkCollector.js';
+import { PausedRequest } from './requestInterceptor.js';
+import { CdpSession } from './cdp.js';
+
+function networkEntry(overrides: Partial<NetworkEntry> = {}): NetworkEntry {
+    return {
+        requestId: '1',
+        url: 'https://example.com/api/items?page=2',
+        method: 'POST',
+        type: 'Fetch',
+        startedAt: '2024-01-01T00:00:00.000Z',
+        requestHeaders: { 'Content-Type': 'application/json' },
+        postData: '{"a":1}',
+        status: 201,
+        statusText: 'Created',
+        mimeType: 'application/json',
+        protocol: 'h2',
+        remoteAddress: '93.184.216.34:443',
+        responseHeaders: { 'content-type': 'application/json', Location: '/api/items/7' },
+        encodedDataLength: 120,
+        decodedBodySize: 11,
+        timings: { blocked: -1, dns: 2, connect: 10, ssl: 5, send: 1, wait: 30, receive: 2.5 },
+        finished: true,
+        ...overrides,
+    };
+}
+
+// Records the CDP commands a replay sends
+function fakeCdp() {
+    const sent: Array<{ method: string; params: any }> = [];
+    const cdp = { send: async (method: string, params: any) => { sent.push({ method, params }); return {}; } } as unknown as CdpSession;
+    return { cdp, sent };
+}
+
+function paused(url: string, method: string = 'GET'): PausedRequest {
+    return { requestId: `r-${url}`, request: { url, method, headers: {} }, resourceType: 'Fetch' };
+}
+
+test('toHarEntry maps request, response and timings', () => {
+    const har = toHarEntry(networkEntry(), { body: '{"id":7}', base64Encoded: false });
+    assert.equal(har.request.method, 'POST');
+    assert.equal(har.request.httpVersion, 'HTTP/2');
+    assert.deepEqual(har.request.queryString, [{ name: 'page', value: '2' }]);
+    assert.deepEqual(har.request.postData, { mimeType: 'application/json', text: '{"a":1}' });
+    assert.equal(har.request.bodySize, 7);
+    assert.equal(har.response.status, 201);
+    assert.equal(har.response.redirectURL, '/api/items/7');
+    assert.deepEqual(har.response.content, { size: 11, mimeType: 'application/json', text: '{"id":7}' });
+    assert.equal(har.serverIPAddress, '93.184.216.34');
+    // Phases that did not happen (-1) are left out of the total
+    assert.equal(har.time, 50.5);
+});
+
+test('toHarEntry marks base64 bodies and failed requests', () => {
+    const har = toHarEntry(networkEntry({ failed: true, errorText: 'net::ERR_FAILED', status: undefined }), { body: 'AAE=', base64Encoded: true });
+    assert.equal(har.response.status, 0);
+    assert.equal(har.response._error, 'net::ERR_FAILED');
+    assert.equal(har.response.content.encoding, 'base64');
+});
+
+test('toHarEntry keeps send, wait and receive non-negative', () => {
+    const har = toHarEntry(networkEntry({ timings: { blocked: -1, dns: -1, connect: -1, ssl: -1, send: -1, wait: -3, receive: -1 } }));
+    assert.deepEqual([har.timings.send, har.timings.wait, har.timings.receive], [0, 0, 0]);
+    assert.equal(har.time, 0);
+});
+
+test('HarReplay serves recorded responses in order, repeating the last', async () => {
+    const har = buildHar([
+        toHarEntry(networkEntry({ method: 'GET', url: 'https://example.com/n', status: 200 }), { body: 'first', base64Encoded: false }),
+        toHarEntry(networkEntry({ method: 'GET', url: 'https://example.com/n', status: 200 }), { body: 'second', base64Encoded: false }),
+    ], { name: 'test', version: '1' });
+    const replay = new HarReplay('test.har', har);
+    const { cdp, sent } = fakeCdp();
+
+    for (let i = 0; i < 3; i++) {
+        assert.equal(await replay.handle(paused('https://example.com/n#top'), cdp), true);
+    }
+    const bodies = sent.map(call => Buffer.from(call.params.body, 'base64').toString());
+    assert.deepEqual(bodies, ['first', 'second', 'second']);
+    assert.equal(sent[0].method, 'Fetch.fulfillRequest');
+    assert.equal(sent[0].params.responseCode, 200);
+    assert.equal(replay.stats().served, 3);
+});
+
+test('HarReplay drops transfer headers from served responses', async () => {
+    const har = buildHar([toHarEntry(networkEntry({ method: 'GET', url: 'https://example.com/gz', responseHeaders: { 'Content-Encoding': 'gzip', 'Content-Length': '10', 'X-Kept': '1' } }))], { name: 'test', version: '1' });
+    const { cdp, sent } = fakeCdp();
+    await new HarReplay('test.har', har).handle(paused('https://example.com/gz'), cdp);
+    assert.deepEqual(sent[0].params.responseHeaders, [{ name: 'X-Kept', value: '1' }]);
+});
+
+test('HarReplay fails or continues requests missing from the HAR', async () => {
+    const har = buildHar([], { name: 'test', version: '1' });
+    const { cdp, sent } = fakeCdp();
+
+    const failing = new HarReplay('test.har', har);
+    assert.equal(await failing.handle(paused('https://example.com/missing'), cdp), true);
+    assert.deepEqual(sent[0], { method: 'Fetch.failRequest', params: { requestId: 'r-https://example.com/missing', errorReason: 'InternetDisconnected' } });
+    assert.deepEqual(failing.stats().missedUrls, ['GET https://example.com/missing']);
+
+    const continuing = new HarReplay('test.har', har, { notFound: 'continue' });
+    assert.equal(await continuing.handle(paused('https://example.com/missing'), cdp), false);
+    assert.equal(sent.length, 1);
+});
+
+test('HarReplay ignores the query string when matchQuery is false', async () => {
+    const har = buildHar([toHarEntry(networkEntry({ method: 'GET', url: 'https://example.com/search?q=a' }))], { name: 'test', version: '1' });
+    const { cdp } = fakeCdp();
+    const strict = new HarReplay('test.har', har, { notFound: 'continue' });
+    assert.equal(await strict.handle(paused('https://example.com/search?q=b'), cdp), false);
+    assert.equal(strict.stats().missed, 1);
+    const loose = new HarReplay('test.har', har, { matchQuery: false, notFound: 'continue' });
+    assert.equal(await loose.handle(paused('https://example.com/search?q=b'), cdp), true);
+    assert.equal(loose.stats().served, 1);
+});
+
+test('HarReplay rejects files without log.entries', () => {
+    assert.throws(() => new HarReplay('bad.har', {} as any), /Not a HAR file/);
+});
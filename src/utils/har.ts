@@ -0,0 +1,228 @@
+import { NetworkEntry } from './networkCollector.js';
+import { FallbackHandler, PausedRequest } from './requestInterceptor.js';
+
+/**
+ * HAR 1.2 (http://www.softwareishard.com/blog/har-12-spec/) export of captured traffic, and replay of a
+ * recorded HAR through request interception so a flow can run against frozen responses.
+ */
+
+interface HarNameValue {
+    name: string;
+    value: string;
+}
+
+export interface HarEntry {
+    startedDateTime: string;
+    time: number;
+    request: {
+        method: string;
+        url: string;
+        httpVersion: string;
+        cookies: HarNameValue[];
+        headers: HarNameValue[];
+        queryString: HarNameValue[];
+        postData?: { mimeType: string; text: string };
+        headersSize: number;
+        bodySize: number;
+    };
+    response: {
+        status: number;
+        statusText: string;
+        httpVersion: string;
+        cookies: HarNameValue[];
+        headers: HarNameValue[];
+        content: { size: number; mimeType: string; text?: string; encoding?: string };
+        redirectURL: string;
+        headersSize: number;
+        bodySize: number;
+        _error?: string;
+    };
+    cache: Record<string, never>;
+    timings: { blocked: number; dns: number; connect: number; ssl: number; send: number; wait: number; receive: number };
+    serverIPAddress?: string;
+    _resourceType?: string;
+}
+
+export interface Har {
+    log: {
+        version: string;
+        creator: { name: string; version: string };
+        entries: HarEntry[];
+    };
+}
+
+export interface ResponseBody {
+    body: string;
+    base64Encoded: boolean;
+}
+
+function nameValues(headers: Record<string, string> | undefined): HarNameValue[] {
+    return Object.entries(headers || {}).map(([name, value]) => ({ name, value }));
+}
+
+function headerValue(headers: Record<string, string> | undefined, name: string): string | undefined {
+    const key = Object.keys(headers || {}).find(header => header.toLowerCase() === name.toLowerCase());
+    return key ? headers![key] : undefined;
+}
+
+function httpVersion(protocol: string | undefined): string {
+    if (!protocol) return 'HTTP/1.1';
+    if (protocol === 'h2') return 'HTTP/2';
+    if (protocol === 'h3') return 'HTTP/3';
+    return protocol.toUpperCase();
+}
+
+function queryString(url: string): HarNameValue[] {
+    try {
+        return [...new URL(url).searchParams.entries()].map(([name, value]) => ({ name, value }));
+    } catch {
+        return [];
+    }
+}
+
+export function toHarEntry(entry: NetworkEntry, body?: ResponseBody): HarEntry {
+    const timings = entry.timings || { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: entry.duration || 0, receive: 0 };
+    // send, wait and receive are required to be non-negative
+    const harTimings = {
+        ...timings,
+        send: Math.max(0, timings.send),
+        wait: Math.max(0, timings.wait),
+        receive: Math.max(0, timings.receive),
+    };
+    const time = Object.values(harTimings).filter(t => t > 0).reduce((sum, t) => sum + t, 0);
+
+    const content: HarEntry['response']['content'] = {
+        size: entry.decodedBodySize ?? 0,
+        mimeType: entry.mimeType || headerValue(entry.responseHeaders, 'content-type') || 'x-unknown',
+    };
+    if (body) {
+        content.text = body.body;
+        if (body.base64Encoded) content.encoding = 'base64';
+    }
+
+    const harEntry: HarEntry = {
+        startedDateTime: entry.startedAt,
+        time: Math.round(time * 100) / 100,
+        request: {
+            method: entry.method,
+            url: entry.url,
+            httpVersion: httpVersion(entry.protocol),
+            cookies: [],
+            headers: nameValues(entry.requestHeaders),
+            queryString: queryString(entry.url),
+            headersSize: -1,
+            bodySize: entry.postData !== undefined ? Buffer.byteLength(entry.postData) : 0,
+        },
+        response: {
+            status: entry.failed ? 0 : entry.status ?? 0,
+            statusText: entry.statusText || '',
+            httpVersion: httpVersion(entry.protocol),
+            cookies: [],
+            headers: nameValues(entry.responseHeaders),
+            content,
+            redirectURL: headerValue(entry.responseHeaders, 'location') || '',
+            headersSize: -1,
+            bodySize: entry.encodedDataLength ?? -1,
+        },
+        cache: {},
+        timings: harTimings,
+        _resourceType: entry.type,
+    };
+    if (entry.postData !== undefined) {
+        harEntry.request.postData = {
+            mimeType: headerValue(entry.requestHeaders, 'content-type') || 'application/octet-stream',
+            text: entry.postData,
+        };
+    }
+    if (entry.remoteAddress) harEntry.serverIPAddress = entry.remoteAddress.replace(/:\d+$/, '');
+    if (entry.failed) harEntry.response._error = entry.errorText;
+    return harEntry;
+}
+
+export function buildHar(entries: HarEntry[], creator: { name: string; version: string }): Har {
+    return { log: { version: '1.2', creator, entries } };
+}
+
+// Headers that describe the original transfer, not the decoded body the replay serves
+const TRANSFER_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding', 'connection', 'keep-alive'];
+
+export interface ReplayOptions {
+    matchQuery?: boolean; // Include the query string when matching URLs. Default: true
+    notFound?: 'continue' | 'fail'; // Requests missing from the HAR go to the network or fail. Default: fail
+}
+
+/**
+ * Serves recorded responses for requests found in a HAR. Repeated requests for the same method and URL
+ * get the recorded responses in order, the last one repeating.
+ */
+export class HarReplay {
+    private responses: Map<string, HarEntry[]> = new Map();
+    private served: Map<string, number> = new Map();
+    private missed: string[] = [];
+    private missedCount = 0;
+    private servedCount = 0;
+
+    constructor(readonly source: string, har: Har, private options: ReplayOptions = {}) {
+        if (!har?.log || !Array.isArray(har.log.entries)) {
+            throw new Error('Not a HAR file: log.entries missing');
+        }
+        for (const entry of har.log.entries) {
+            // Entries without a response (failed requests) cannot be replayed
+            if (!entry.response || !entry.response.status) continue;
+            const key = this.key(entry.request.method, entry.request.url);
+            if (!this.responses.has(key)) this.responses.set(key, []);
+            this.responses.get(key)!.push(entry);
+        }
+    }
+
+    get size(): number {
+        return [...this.responses.values()].reduce((sum, list) => sum + list.length, 0);
+    }
+
+    stats() {
+        return {
+            source: this.source,
+            recorded: this.size,
+            served: this.servedCount,
+            missed: this.missedCount,
+            missedUrls: this.missed,
+            notFound: this.options.notFound || 'fail',
+        };
+    }
+
+    readonly handle: FallbackHandler = async (paused: PausedRequest, cdp) => {
+        const key = this.key(paused.request.method, paused.request.url);
+        const recorded = this.responses.get(key);
+        if (!recorded) {
+            this.missedCount++;
+            this.missed = [...this.missed, `${paused.request.method} ${paused.request.url}`].slice(-50);
+            if (this.options.notFound === 'continue') return false;
+            await cdp.send('Fetch.failRequest', { requestId: paused.requestId, errorReason: 'InternetDisconnected' });
+            return true;
+        }
+
+        const index = this.served.get(key) || 0;
+        this.served.set(key, index + 1);
+        const entry = recorded[Math.min(index, recorded.length - 1)];
+        const content = entry.response.content || { size: 0, mimeType: '' };
+        const body = content.text === undefined
+            ? ''
+            : content.encoding === 'base64' ? content.text : Buffer.from(content.text).toString('base64');
+        await cdp.send('Fetch.fulfillRequest', {
+            requestId: paused.requestId,
+            responseCode: entry.response.status,
+            responsePhrase: entry.response.statusText || undefined,
+            responseHeaders: entry.response.headers.filter(header => !TRANSFER_HEADERS.includes(header.name.toLowerCase())),
+            body,
+        });
+        this.servedCount++;
+        return true;
+    };
+
+    private key(method: string, url: string): string {
+        if (this.options.matchQuery === false) {
+            url = url.replace(/\?[^#]*/, '');
+        }
+        return `${method.toUpperCase()} ${url.replace(/#.*$/, '')}`;
+    }
+}
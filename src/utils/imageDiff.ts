@@ -0,0 +1,86 @@
+import { RgbaImage } from './png.js';
+
+export interface Region {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface DiffOptions {
+    threshold?: number; // 0..1 colour distance below which two pixels count as equal
+    ignore?: Region[]; // In image pixels; never counted and drawn blue in the diff
+}
+
+export interface DiffResult {
+    diffPixels: number;
+    comparedPixels: number;
+    mismatchPercent: number;
+    diffImage: RgbaImage;
+}
+
+export const DEFAULT_THRESHOLD = 0.1;
+
+// Largest possible RGBA distance, for normalising to 0..1
+const MAX_DISTANCE = Math.sqrt(4 * 255 * 255);
+
+function ignoredMask(width: number, height: number, regions: Region[]): Uint8Array {
+    const mask = new Uint8Array(width * height);
+    for (const region of regions) {
+        const x0 = Math.max(0, Math.floor(region.x));
+        const y0 = Math.max(0, Math.floor(region.y));
+        const x1 = Math.min(width, Math.ceil(region.x + region.width));
+        const y1 = Math.min(height, Math.ceil(region.y + region.height));
+        for (let y = y0; y < y1; y++) {
+            mask.fill(1, y * width + x0, y * width + x1);
+        }
+    }
+    return mask;
+}
+
+/**
+ * Pixel-by-pixel comparison of two images of the same size. The diff image is the baseline faded to grey,
+ * with differing pixels in red and ignored regions in blue.
+ */
+export function diffImages(baseline: RgbaImage, actual: RgbaImage, options: DiffOptions = {}): DiffResult {
+    if (baseline.width !== actual.width || baseline.height !== actual.height) {
+        throw new Error(`Image sizes differ: baseline ${baseline.width}x${baseline.height}, actual ${actual.width}x${actual.height}`);
+    }
+
+    const { width, height } = baseline;
+    const threshold = Math.max(0, Math.min(1, options.threshold ?? DEFAULT_THRESHOLD));
+    const ignored = ignoredMask(width, height, options.ignore || []);
+    const out = Buffer.alloc(width * height * 4);
+    let diffPixels = 0;
+    let comparedPixels = 0;
+
+    for (let i = 0; i < width * height; i++) {
+        const o = i * 4;
+        if (ignored[i]) {
+            out[o] = 60; out[o + 1] = 120; out[o + 2] = 255; out[o + 3] = 255;
+            continue;
+        }
+        comparedPixels++;
+        const dr = baseline.data[o] - actual.data[o];
+        const dg = baseline.data[o + 1] - actual.data[o + 1];
+        const db = baseline.data[o + 2] - actual.data[o + 2];
+        const da = baseline.data[o + 3] - actual.data[o + 3];
+        const distance = Math.sqrt(dr * dr + dg * dg + db * db + da * da) / MAX_DISTANCE;
+        if (distance > threshold) {
+            diffPixels++;
+            out[o] = 255; out[o + 1] = 0; out[o + 2] = 0; out[o + 3] = 255;
+        } else {
+            const grey = 0.299 * baseline.data[o] + 0.587 * baseline.data[o + 1] + 0.114 * baseline.data[o + 2];
+            const faded = Math.round(255 - (255 - grey) * 0.3);
+            out[o] = out[o + 1] = out[o + 2] = faded;
+            out[o + 3] = 255;
+        }
+    }
+
+    return {
+        diffPixels,
+        comparedPixels,
+        mismatchPercent: comparedPixels ? Math.round((diffPixels / comparedPixels) * 10000) / 100 : 0,
+        diffImage: { width, height, data: out },
+    };
+}
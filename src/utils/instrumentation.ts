@@ -0,0 +1,277 @@
+import { WebDriver } from 'selenium-webdriver';
+import { sendCdp } from './cdp.js';
+
+/**
+ * Runs in the page. Captures console output, uncaught errors, fetch/XHR traffic and element interactions
+ * into the window.captured* arrays read by the devtools actions. Runs once per document.
+ */
+export const INSTRUMENTATION_SCRIPT = `
+if (!window._mcpDevToolsEnabled) {
+    // Initialize capture arrays
+    if (!window.capturedConsoleLogs) {
+        window.capturedConsoleLogs = [];
+    }
+    if (!window.capturedNetworkLogs) {
+        window.capturedNetworkLogs = [];
+    }
+    if (!window.capturedElementInteractions) {
+        window.capturedElementInteractions = [];
+    }
+
+    // ===== CONSOLE CAPTURE =====
+    const methods = ['log', 'error', 'warn', 'info', 'debug', 'trace', 'table', 'group', 'groupEnd', 'time', 'timeEnd'];
+    const originals = {};
+
+    methods.forEach(method => {
+        if (console[method] && !window._originalConsoleMethods) {
+            originals[method] = console[method];
+            console[method] = function(...args) {
+                window.capturedConsoleLogs.push({
+                    level: method,
+                    message: args.map(a => {
+                        if (typeof a === 'object') {
+                            try {
+                                return JSON.stringify(a).substring(0, 500);
+                            } catch {
+                                return String(a).substring(0, 500);
+                            }
+                        }
+                        return String(a);
+                    }).join(' '),
+                    timestamp: new Date().toISOString(),
+                    stack: method === 'error' || method === 'trace'
+                        ? new Error().stack?.split('\\n').slice(0, 5).join('\\n')
+                        : null
+                });
+                return originals[method].apply(console, args);
+            };
+        }
+    });
+
+    if (!window._originalConsoleMethods) {
+        window._originalConsoleMethods = originals;
+    }
+
+    // ===== NETWORK MONITORING =====
+    // Capture fetch requests
+    if (!window._originalFetch) {
+        window._originalFetch = window.fetch;
+        window.fetch = function(...args) {
+            const startTime = performance.now();
+            const url = args[0];
+            const options = args[1] || {};
+
+            return window._originalFetch.apply(this, args)
+                .then(async response => {
+                    const endTime = performance.now();
+                    const clonedResponse = response.clone();
+                    let body = null;
+                    try {
+                        body = await clonedResponse.text();
+                    } catch (e) {
+                        // Body may not be readable
+                    }
+
+                    window.capturedNetworkLogs.push({
+                        url: url.toString(),
+                        method: options.method || 'GET',
+                        status: response.status,
+                        statusText: response.statusText,
+                        responseTime: Math.round(endTime - startTime),
+                        timestamp: new Date().toISOString(),
+                        type: 'fetch',
+                        headers: Object.fromEntries(response.headers.entries()),
+                        bodySize: body ? body.length : 0,
+                        body: body && body.length < 1000 ? body.substring(0, 1000) : null
+                    });
+                    return response;
+                })
+                .catch(error => {
+                    const endTime = performance.now();
+                    window.capturedNetworkLogs.push({
+                        url: url.toString(),
+                        method: options.method || 'GET',
+                        status: 0,
+                        error: error.message,
+                        responseTime: Math.round(endTime - startTime),
+                        timestamp: new Date().toISOString(),
+                        type: 'fetch'
+                    });
+                    throw error;
+                });
+        };
+    }
+
+    // Capture XMLHttpRequest
+    if (!window._originalXHROpen) {
+        window._originalXHROpen = XMLHttpRequest.prototype.open;
+        window._originalXHRSend = XMLHttpRequest.prototype.send;
+
+        XMLHttpRequest.prototype.open = function(method, url, ...args) {
+            this._method = method;
+            this._url = url;
+            this._startTime = performance.now();
+            return window._originalXHROpen.apply(this, [method, url, ...args]);
+        };
+
+        XMLHttpRequest.prototype.send = function(...args) {
+            const xhr = this;
+            const originalOnLoad = xhr.onload;
+            const originalOnError = xhr.onerror;
+
+            xhr.onload = function() {
+                const endTime = performance.now();
+                window.capturedNetworkLogs.push({
+                    url: xhr._url,
+                    method: xhr._method,
+                    status: xhr.status,
+                    statusText: xhr.statusText,
+                    responseTime: Math.round(endTime - xhr._startTime),
+                    timestamp: new Date().toISOString(),
+                    type: 'xhr',
+                    responseText: xhr.responseText && xhr.responseText.length < 1000
+                        ? xhr.responseText.substring(0, 1000)
+                        : null
+                });
+                if (originalOnLoad) originalOnLoad.apply(this, arguments);
+            };
+
+            xhr.onerror = function() {
+                const endTime = performance.now();
+                window.capturedNetworkLogs.push({
+                    url: xhr._url,
+                    method: xhr._method,
+                    status: 0,
+                    statusText: 'Error',
+                    responseTime: Math.round(endTime - xhr._startTime),
+                    timestamp: new Date().toISOString(),
+                    type: 'xhr',
+                    error: 'Network error'
+                });
+                if (originalOnError) originalOnError.apply(this, arguments);
+            };
+
+            return window._originalXHRSend.apply(this, args);
+        };
+    }
+
+    // ===== ELEMENT INTERACTION TRACKING =====
+    // Track clicks
+    document.addEventListener('click', function(e) {
+        const target = e.target;
+        window.capturedElementInteractions.push({
+            type: 'click',
+            timestamp: new Date().toISOString(),
+            element: {
+                tag: target.tagName.toLowerCase(),
+                id: target.id || null,
+                classes: Array.from(target.classList || []),
+                text: (target.textContent || '').trim().slice(0, 100),
+                selector: target.id ? '#' + target.id :
+                         target.className ? '.' + Array.from(target.classList)[0] :
+                         target.tagName.toLowerCase()
+            },
+            position: { x: e.clientX, y: e.clientY }
+        });
+    }, true);
+
+    // Track input changes
+    document.addEventListener('input', function(e) {
+        const target = e.target;
+        if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') {
+            window.capturedElementInteractions.push({
+                type: 'input',
+                timestamp: new Date().toISOString(),
+                element: {
+                    tag: target.tagName.toLowerCase(),
+                    id: target.id || null,
+                    name: target.name || null,
+                    type: target.type || null,
+                    selector: target.id ? '#' + target.id :
+                             target.name ? '[name="' + target.name + '"]' :
+                             target.tagName.toLowerCase()
+                },
+                value: target.value ? target.value.substring(0, 200) : ''
+            });
+        }
+    }, true);
+
+    // Track focus/blur
+    document.addEventListener('focus', function(e) {
+        const target = e.target;
+        if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') {
+            window.capturedElementInteractions.push({
+                type: 'focus',
+                timestamp: new Date().toISOString(),
+                element: {
+                    tag: target.tagName.toLowerCase(),
+                    id: target.id || null,
+                    name: target.name || null,
+                    selector: target.id ? '#' + target.id :
+                             target.name ? '[name="' + target.name + '"]' :
+                             target.tagName.toLowerCase()
+                }
+            });
+        }
+    }, true);
+
+    // Track form submissions
+    document.addEventListener('submit', function(e) {
+        const target = e.target;
+        window.capturedElementInteractions.push({
+            type: 'submit',
+            timestamp: new Date().toISOString(),
+            element: {
+                tag: target.tagName.toLowerCase(),
+                id: target.id || null,
+                action: target.action || null,
+                method: target.method || null
+            }
+        });
+    }, true);
+
+    // ===== ERROR CAPTURE =====
+    // Uncaught errors and rejections land in the console log, including those thrown while the page loads
+    window.addEventListener('error', function(e) {
+        window.capturedConsoleLogs.push({
+            level: 'error',
+            message: 'Uncaught ' + (e.error && e.error.name ? e.error.name + ': ' : '') + e.message,
+            timestamp: new Date().toISOString(),
+            source: e.filename ? e.filename + ':' + e.lineno + ':' + e.colno : null,
+            stack: e.error && e.error.stack ? String(e.error.stack).split('\\n').slice(0, 5).join('\\n') : null
+        });
+    }, true);
+    window.addEventListener('unhandledrejection', function(e) {
+        const reason = e.reason;
+        window.capturedConsoleLogs.push({
+            level: 'error',
+            message: 'Unhandled rejection: ' + (reason && reason.message ? reason.message : String(reason)),
+            timestamp: new Date().toISOString(),
+            stack: reason && reason.stack ? String(reason.stack).split('\\n').slice(0, 5).join('\\n') : null
+        });
+    });
+
+    // Mark dev tools as enabled
+    window._mcpDevToolsEnabled = true;
+}
+`;
+
+/**
+ * Register the instrumentation with CDP Page.addScriptToEvaluateOnNewDocument, so it runs before any page script
+ * in every document this tab loads from now on, and install it in the current document too.
+ * Returns the identifier needed to unregister it.
+ */
+export async function enablePersistentInstrumentation(driver: WebDriver): Promise<string> {
+    const { identifier } = await sendCdp<{ identifier: string }>(driver, 'Page.addScriptToEvaluateOnNewDocument', {
+        source: INSTRUMENTATION_SCRIPT,
+    });
+    await driver.executeScript(INSTRUMENTATION_SCRIPT);
+    return identifier;
+}
+
+/**
+ * Stop injecting the instrumentation into new documents; the current document keeps its hooks until it unloads
+ */
+export async function disablePersistentInstrumentation(driver: WebDriver, identifier: string): Promise<void> {
+    await sendCdp(driver, 'Page.removeScriptToEvaluateOnNewDocument', { identifier });
+}
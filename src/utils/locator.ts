@@ -0,0 +1,436 @@
+import { WebDriver, WebElement } from 'selenium-webdriver';
+
+export type LocatorStrategy =
+    | 'css'
+    | 'xpath'
+    | 'id'
+    | 'name'
+    | 'className'
+    | 'tagName'
+    | 'text'
+    | 'partialText'
+    | 'role'
+    | 'label'
+    | 'placeholder'
+    | 'testId'
+    | 'ref';
+
+export const LOCATOR_STRATEGIES: LocatorStrategy[] = [
+    'css', 'xpath', 'id', 'name', 'className', 'tagName', 'text', 'partialText', 'role', 'label', 'placeholder', 'testId', 'ref',
+];
+
+/**
+ * Shared description of the `by` argument for tool schemas
+ */
+export const LOCATOR_DESCRIPTION =
+    'Selector type. Default: css. text matches the whole visible text, partialText a case-insensitive substring. ' +
+    'role takes an ARIA role with optional accessible name: button, button[name="Sign in"] or button[name*="sign"]. ' +
+    'label, placeholder and testId (data-testid) match case-insensitively, exact matches first. ' +
+    'ref takes an element ref from get_page_elements, e.g. e12. ' +
+    'Use host >>> inner to reach inside open shadow roots, e.g. my-dialog >>> button.';
+
+/**
+ * Page-side registry of element refs handed out by get_page_elements. It lives on the window,
+ * so refs stay valid until the document is replaced or their element is removed and garbage collected.
+ */
+export const REF_REGISTRY = '__mcpRefs';
+
+/**
+ * Runs in the page, ahead of the scripts that hand out refs and describe elements (get_page_elements,
+ * set-of-marks, locating): the ref registry, which elements count as interactive, implicit ARIA roles
+ * and a selector that finds an element again.
+ */
+export const PAGE_HELPERS = `
+// Refs stay with an element for the life of the document, so repeated calls return the same ids.
+// Elements are held weakly: removed nodes can be collected, and their refs are dropped here.
+const refs = window.${REF_REGISTRY} || (window.${REF_REGISTRY} = { next: 1, elements: new Map(), ids: new WeakMap() });
+for (const [ref, weak] of refs.elements) {
+    if (!weak.deref()) refs.elements.delete(ref);
+}
+function refFor(el) {
+    let ref = refs.ids.get(el);
+    if (!ref) {
+        ref = 'e' + refs.next++;
+        refs.ids.set(el, ref);
+        refs.elements.set(ref, new WeakRef(el));
+    }
+    return ref;
+}
+
+function isInteractive(el) {
+    const tag = el.tagName.toLowerCase();
+    return tag === 'input' || tag === 'button' || tag === 'textarea' || tag === 'select' ||
+        tag === 'a' || el.getAttribute('role') === 'button' || el.getAttribute('onclick') ||
+        el.getAttribute('tabindex') !== null;
+}
+
+function typeOf(el) { return (el.getAttribute('type') || 'text').toLowerCase(); }
+
+function roleOf(el) {
+    const explicit = el.getAttribute('role');
+    if (explicit && explicit.trim()) return explicit.trim().split(/\\s+/)[0].toLowerCase();
+    const tag = el.tagName.toLowerCase();
+    const type = typeOf(el);
+    switch (tag) {
+        case 'a': case 'area': return el.hasAttribute('href') ? 'link' : null;
+        case 'button': return 'button';
+        case 'input':
+            if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+            if (type === 'checkbox') return 'checkbox';
+            if (type === 'radio') return 'radio';
+            if (type === 'range') return 'slider';
+            if (type === 'number') return 'spinbutton';
+            if (type === 'search') return el.hasAttribute('list') ? 'combobox' : 'searchbox';
+            if (['text', 'email', 'tel', 'url'].includes(type)) return el.hasAttribute('list') ? 'combobox' : 'textbox';
+            return null;
+        case 'textarea': return 'textbox';
+        case 'select': return el.multiple || el.size > 1 ? 'listbox' : 'combobox';
+        case 'option': return 'option';
+        case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': return 'heading';
+        case 'img': return el.getAttribute('alt') === '' ? 'presentation' : 'img';
+        case 'ul': case 'ol': return 'list';
+        case 'li': return 'listitem';
+        case 'nav': return 'navigation';
+        case 'main': return 'main';
+        case 'header': return 'banner';
+        case 'footer': return 'contentinfo';
+        case 'aside': return 'complementary';
+        case 'form': return 'form';
+        case 'dialog': return 'dialog';
+        case 'table': return 'table';
+        case 'tr': return 'row';
+        case 'td': return 'cell';
+        case 'th': return 'columnheader';
+        case 'progress': return 'progressbar';
+        case 'article': return 'article';
+        case 'section': return el.hasAttribute('aria-label') || el.hasAttribute('aria-labelledby') ? 'region' : null;
+        default: return null;
+    }
+}
+
+// CSS path from the nearest id, chained with >>> through shadow roots
+function selectorOf(el) {
+    const segments = [];
+    let node = el;
+    while (node) {
+        const parts = [];
+        let current = node;
+        while (current && current.nodeType === 1 && current !== document.body) {
+            if (current.id) { parts.unshift('#' + CSS.escape(current.id)); break; }
+            let part = current.tagName.toLowerCase();
+            const siblings = Array.from(current.parentNode ? current.parentNode.children : []).filter(e => e.tagName === current.tagName);
+            if (siblings.length > 1) part += ':nth-of-type(' + (siblings.indexOf(current) + 1) + ')';
+            parts.unshift(part);
+            current = current.parentElement;
+        }
+        segments.unshift(parts.join(' > '));
+        const rootNode = node.getRootNode();
+        node = rootNode instanceof ShadowRoot ? rootNode.host : null;
+    }
+    return segments.join(' >>> ');
+}
+`;
+
+const POLL_INTERVAL = 100;
+
+// Reasons that waiting cannot fix: malformed selectors and refs that no longer exist
+const PERMANENT_FAILURE = /^(Invalid|selector required|Unknown ref|Stale ref)/;
+
+/**
+ * Runs in the page. Returns every match in document order, or the reason nothing matched.
+ */
+const LOCATE_SCRIPT = `${PAGE_HELPERS}
+const input = arguments[0];
+const by = arguments[1];
+// Document, or the open shadow root reached through host >>> inner segments
+let root = document;
+const normalize = s => (s || '').replace(/\\s+/g, ' ').trim();
+const lower = s => normalize(s).toLowerCase();
+const quote = s => "'" + s + "'";
+const SKIP = ['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'HEAD', 'TITLE', 'META', 'LINK'];
+const q = s => Array.from(root.querySelectorAll(s));
+const all = () => q(root === document ? 'body *' : '*').filter(el => !SKIP.includes(el.tagName));
+const attr = (name, value) => '[' + name + '="' + String(value).replace(/\\\\/g, '\\\\\\\\').replace(/"/g, '\\\\"') + '"]';
+
+function ownText(el) {
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'input' && ['button', 'submit', 'reset'].includes(typeOf(el))) return normalize(el.value);
+    return normalize(el.textContent);
+}
+
+// Innermost elements whose text satisfies the predicate, so a button wins over the form containing it
+function byText(predicate) {
+    const matched = all().filter(el => predicate(ownText(el)));
+    const set = new Set(matched);
+    return matched.filter(el => !Array.from(el.children).some(child => set.has(child)));
+}
+
+function labelsOf(el) {
+    const names = [];
+    const labelledby = el.getAttribute('aria-labelledby');
+    if (labelledby) {
+        const text = labelledby.split(/\\s+/).map(id => root.getElementById(id)).filter(Boolean).map(n => normalize(n.textContent)).join(' ');
+        if (text) names.push(text);
+    }
+    const aria = el.getAttribute('aria-label');
+    if (aria && aria.trim()) names.push(normalize(aria));
+    if (el.labels) Array.from(el.labels).forEach(label => names.push(normalize(label.textContent)));
+    return names.filter(Boolean);
+}
+
+const NAME_FROM_CONTENT = ['button', 'link', 'heading', 'option', 'cell', 'columnheader', 'listitem', 'tab', 'menuitem', 'treeitem', 'checkbox', 'radio', 'switch'];
+
+function accessibleName(el, role) {
+    const labels = labelsOf(el);
+    if (labels.length) return labels[0];
+    const tag = el.tagName.toLowerCase();
+    const type = typeOf(el);
+    if (tag === 'input' && ['button', 'submit', 'reset'].includes(type)) {
+        return normalize(el.value) || (type === 'submit' ? 'Submit' : type === 'reset' ? 'Reset' : '');
+    }
+    if (tag === 'img' || (tag === 'input' && type === 'image')) return normalize(el.getAttribute('alt'));
+    if (NAME_FROM_CONTENT.includes(role)) {
+        const text = normalize(el.textContent);
+        if (text) return text;
+    }
+    return normalize(el.getAttribute('title') || el.getAttribute('placeholder'));
+}
+
+// Case-insensitive, whole-value matches listed before substring matches
+function ranked(candidates, valuesOf, wanted) {
+    const target = lower(wanted);
+    const exact = [];
+    const partial = [];
+    for (const el of candidates) {
+        const values = valuesOf(el).map(lower);
+        if (values.some(v => v === target)) exact.push(el);
+        else if (target && values.some(v => v.includes(target))) partial.push(el);
+    }
+    return exact.concat(partial);
+}
+
+function locate(selector) {
+    switch (by) {
+        case 'css': {
+            let found;
+            try { found = q(selector); }
+            catch (e) {
+                const hint = /^[(/]/.test(selector.trim()) ? " It looks like XPath; use by: 'xpath'." : '';
+                return { elements: [], reason: 'Invalid CSS selector ' + quote(selector) + ': ' + e.message + hint };
+            }
+            if (found.length) return { elements: found, reason: null };
+            const host = root === document ? shadowHostContaining(selector) : null;
+            return {
+                elements: [],
+                reason: 'No element matches CSS selector ' + quote(selector) + (host ? '; a match exists inside the shadow root of <' + host + '>, use ' + quote(host + ' >>> ' + selector) : ''),
+            };
+        }
+        case 'xpath': {
+            if (root !== document) return { elements: [], reason: 'XPath cannot reach inside shadow roots; use a CSS selector after >>>' };
+            let snapshot;
+            try { snapshot = document.evaluate(selector, document, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null); }
+            catch (e) { return { elements: [], reason: 'Invalid XPath ' + quote(selector) + ': ' + e.message }; }
+            const found = [];
+            for (let i = 0; i < snapshot.snapshotLength; i++) {
+                const node = snapshot.snapshotItem(i);
+                const el = node.nodeType === 1 ? node : node.parentElement;
+                if (el && !found.includes(el)) found.push(el);
+            }
+            return { elements: found, reason: found.length ? null : 'No element matches XPath ' + quote(selector) };
+        }
+        case 'id': {
+            const found = q(attr('id', selector));
+            const hint = selector.startsWith('#') ? " Pass the id without '#', or use by: 'css'." : '';
+            return { elements: found, reason: found.length ? null : 'No element has id ' + quote(selector) + '.' + hint };
+        }
+        case 'name': {
+            const found = q(attr('name', selector));
+            return { elements: found, reason: found.length ? null : 'No element has name ' + quote(selector) };
+        }
+        case 'className': {
+            const found = q(selector.replace(/^\\./, '').trim().split(/\\s+/).map(c => '.' + CSS.escape(c)).join(''));
+            return { elements: found, reason: found.length ? null : 'No element has class ' + quote(selector) };
+        }
+        case 'tagName': {
+            const found = q(CSS.escape(selector.trim()));
+            return { elements: found, reason: found.length ? null : 'No <' + selector + '> element on the page' };
+        }
+        case 'text': {
+            const target = normalize(selector);
+            const found = byText(text => text === target);
+            if (found.length) return { elements: found, reason: null };
+            const partial = byText(text => text.toLowerCase().includes(target.toLowerCase())).length;
+            return {
+                elements: [],
+                reason: partial
+                    ? 'No element has the exact text ' + quote(target) + ', but ' + partial + " contain it; use by: 'partialText'"
+                    : 'No element contains the text ' + quote(target),
+            };
+        }
+        case 'partialText': {
+            const target = lower(selector);
+            const found = byText(text => text.toLowerCase().includes(target));
+            return { elements: found, reason: found.length ? null : 'No element contains the text ' + quote(normalize(selector)) };
+        }
+        case 'role': {
+            const parsed = selector.trim().match(/^([\\w-]+)\\s*(?:\\[\\s*name\\s*(\\*?=)\\s*(["'])(.*)\\3\\s*\\])?$/);
+            if (!parsed) return { elements: [], reason: 'Invalid role selector ' + quote(selector) + ', expected e.g. button or button[name="Sign in"]' };
+            const role = parsed[1].toLowerCase();
+            const withRole = all().filter(el => roleOf(el) === role);
+            if (!withRole.length) return { elements: [], reason: 'No element has role ' + quote(role) };
+            if (parsed[2] === undefined) return { elements: withRole, reason: null };
+            const wanted = lower(parsed[4]);
+            const names = withRole.map(el => accessibleName(el, role));
+            const found = withRole.filter((el, i) => parsed[2] === '=' ? lower(names[i]) === wanted : lower(names[i]).includes(wanted));
+            if (found.length) return { elements: found, reason: null };
+            const seen = Array.from(new Set(names.filter(Boolean))).slice(0, 5).map(quote).join(', ');
+            return { elements: [], reason: withRole.length + ' elements have role ' + quote(role) + ' but none is named ' + quote(parsed[4]) + (seen ? '. Names found: ' + seen : '') };
+        }
+        case 'label': {
+            const controls = all().filter(el => labelsOf(el).length > 0);
+            const found = ranked(controls, labelsOf, selector);
+            if (found.length) return { elements: found, reason: null };
+            const orphan = q('label').some(l => lower(l.textContent).includes(lower(selector)));
+            return {
+                elements: [],
+                reason: orphan
+                    ? 'A <label> with text ' + quote(normalize(selector)) + ' exists but is not associated with a control (needs for/id, nesting or aria-labelledby)'
+                    : 'No form control is labelled ' + quote(normalize(selector)),
+            };
+        }
+        case 'placeholder': {
+            const found = ranked(q('[placeholder]'), el => [el.getAttribute('placeholder')], selector);
+            return { elements: found, reason: found.length ? null : 'No element has placeholder ' + quote(normalize(selector)) };
+        }
+        case 'ref': {
+            const ref = selector.trim();
+            if (!/^e\\d+$/.test(ref)) return { elements: [], reason: 'Invalid ref ' + quote(selector) + ', expected an id like e12 from get_page_elements' };
+            const el = refs.elements.get(ref)?.deref();
+            if (!el) return { elements: [], reason: 'Unknown ref ' + quote(ref) + ' in this document. Refs are reset when the page navigates and dropped once their element is removed; call get_page_elements again' };
+            if (!el.isConnected) return { elements: [], reason: 'Stale ref ' + quote(ref) + ': the element was removed from the page; call get_page_elements again' };
+            return { elements: [el], reason: null };
+        }
+        case 'testId': {
+            const found = ranked(q('[data-testid]'), el => [el.getAttribute('data-testid')], selector);
+            if (found.length) return { elements: found, reason: null };
+            const other = ['data-test-id', 'data-test', 'data-cy', 'data-qa'].find(name => root.querySelector(attr(name, selector)));
+            return {
+                elements: [],
+                reason: 'No element has data-testid ' + quote(selector) + (other ? '; an element has ' + other + ' with that value, use by: ' + quote('css') + ' with ' + attr(other, selector) : ''),
+            };
+        }
+    }
+    return { elements: [], reason: 'Unknown locator strategy ' + quote(by) };
+}
+
+// Tag name of the outermost shadow host whose open shadow tree matches the selector
+function shadowHostContaining(selector) {
+    const visit = scope => {
+        for (const el of scope.querySelectorAll('*')) {
+            if (!el.shadowRoot) continue;
+            if (el.shadowRoot.querySelector(selector) || visit(el.shadowRoot)) return el.tagName.toLowerCase();
+        }
+        return null;
+    };
+    return visit(document);
+}
+
+// host >>> inner: every segment but the last is a CSS selector for a shadow host,
+// the last is matched with the requested strategy inside the innermost open shadow roots
+function pierce() {
+    const parts = input.split('>>>').map(p => p.trim());
+    if (parts.length === 1) return locate(input);
+    if (parts.some(p => !p)) return { elements: [], reason: 'Invalid shadow selector ' + quote(input) + ': empty segment around >>>' };
+    let roots = [document];
+    for (let i = 0; i < parts.length - 1; i++) {
+        const hosts = [];
+        try { roots.forEach(r => hosts.push(...r.querySelectorAll(parts[i]))); }
+        catch (e) { return { elements: [], reason: 'Invalid CSS selector ' + quote(parts[i]) + ': ' + e.message }; }
+        const where = i === 0 ? '' : ' inside the shadow root of ' + quote(parts[i - 1]);
+        if (!hosts.length) return { elements: [], reason: 'No shadow host matches ' + quote(parts[i]) + where };
+        roots = hosts.map(h => h.shadowRoot).filter(Boolean);
+        if (!roots.length) return { elements: [], reason: hosts.length + ' element(s) match ' + quote(parts[i]) + where + ' but none has an open shadow root' };
+    }
+    const elements = [];
+    let reason = null;
+    for (const shadowRoot of roots) {
+        root = shadowRoot;
+        const result = locate(parts[parts.length - 1]);
+        result.elements.forEach(el => { if (!elements.includes(el)) elements.push(el); });
+        reason = reason || result.reason;
+    }
+    return { elements, reason: elements.length ? null : reason + ' inside the shadow root of ' + quote(parts[parts.length - 2]) };
+}
+
+return pierce();
+`;
+
+const SELECTOR_SCRIPT = `${PAGE_HELPERS}
+return selectorOf(arguments[0]);
+`;
+
+/**
+ * Map the `by` spellings accepted across tools (any case, core's lowercase names) onto one strategy
+ */
+export function normalizeStrategy(by: string | undefined): LocatorStrategy {
+    const key = (by || 'css').replace(/[-_\s]/g, '').toLowerCase();
+    const strategy = LOCATOR_STRATEGIES.find(s => s.toLowerCase() === key)
+        || (key === 'datatestid' ? 'testId' : undefined);
+    if (!strategy) {
+        throw new Error(`Unknown locator strategy '${by}'. Use one of: ${LOCATOR_STRATEGIES.join(', ')}`);
+    }
+    return strategy;
+}
+
+/**
+ * Whether a locate failure will never resolve by waiting
+ */
+export function isPermanentFailure(reason: string | undefined): boolean {
+    return !!reason && PERMANENT_FAILURE.test(reason);
+}
+
+/**
+ * Selector (CSS, chained with >>> through shadow roots) that finds the element again,
+ * used to record durable steps for actions located by ref
+ */
+export async function selectorFor(driver: WebDriver, element: WebElement): Promise<string> {
+    return await driver.executeScript(SELECTOR_SCRIPT, element) as string;
+}
+
+/**
+ * Selector and strategy of a tool call; a ref from get_page_elements stands in for selector and by
+ */
+export function targetOf(args: { selector?: string; by?: string; ref?: string }): { selector: string; by: LocatorStrategy } {
+    // Unknown strategies pass through and are rejected by normalizeStrategy when locating
+    return args.ref ? { selector: args.ref, by: 'ref' } : { selector: args.selector || '', by: (args.by || 'css') as LocatorStrategy };
+}
+
+/**
+ * Every element matching the locator in document order, with the reason when there is none
+ */
+export async function locateAll(driver: WebDriver, selector: string, by?: string): Promise<{ elements: WebElement[]; reason?: string }> {
+    if (!selector) {
+        return { elements: [], reason: 'selector required' };
+    }
+    const strategy = normalizeStrategy(by);
+    const result = await driver.executeScript(LOCATE_SCRIPT, selector, strategy) as { elements: WebElement[]; reason: string | null };
+    return { elements: result.elements, reason: result.reason || undefined };
+}
+
+/**
+ * First element matching the locator, polling until it appears or the timeout passes.
+ * Throws with the reason nothing matched.
+ */
+export async function locate(driver: WebDriver, selector: string, by?: string, timeout: number = 0): Promise<WebElement> {
+    const deadline = Date.now() + timeout;
+    while (true) {
+        const { elements, reason } = await locateAll(driver, selector, by);
+        if (elements.length > 0) {
+            return elements[0];
+        }
+        if (Date.now() >= deadline || isPermanentFailure(reason)) {
+            throw new Error(timeout > 0 ? `${reason} (waited ${timeout}ms)` : reason);
+        }
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+    }
+}
@@ -0,0 +1,356 @@
+import { BrowserSession } from '../common/types.js';
+import { CdpSession, getCdpSession } from './cdp.js';
+
+/**
+ * Server-side network capture from CDP Network events. Unlike the in-page fetch/XHR hooks it sees every
+ * request the page makes: documents, scripts, stylesheets, images, fonts, redirects, CORS preflights and
+ * responses served by a service worker.
+ */
+
+export interface NetworkTimings {
+    blocked: number; // Milliseconds per phase, -1 when the phase did not happen (HAR convention)
+    dns: number;
+    connect: number;
+    ssl: number;
+    send: number;
+    wait: number;
+    receive: number;
+}
+
+export interface NetworkEntry {
+    requestId: string;
+    url: string;
+    method: string;
+    type: string; // CDP resource type: Document, Script, Stylesheet, Image, Font, XHR, Fetch, Preflight, ...
+    startedAt: string;
+    requestHeaders: Record<string, string>;
+    postData?: string;
+    initiator?: { type: string; url?: string; lineNumber?: number };
+    redirectedFrom?: string;
+    status?: number;
+    statusText?: string;
+    mimeType?: string;
+    protocol?: string;
+    remoteAddress?: string;
+    responseHeaders?: Record<string, string>;
+    fromCache?: boolean;
+    fromServiceWorker?: boolean;
+    encodedDataLength?: number; // Bytes on the wire, headers included
+    decodedBodySize?: number;
+    duration?: number;
+    timings?: NetworkTimings;
+    finished: boolean;
+    failed?: boolean;
+    errorText?: string;
+    canceled?: boolean;
+    blockedReason?: string;
+    corsError?: string;
+}
+
+export interface NetworkFilter {
+    urlPattern?: string; // Regular expression tested against the URL
+    type?: string | string[]; // Resource type(s), case-insensitive
+    status?: number | string; // Exact code, a class such as '4xx', or 'failed'
+    method?: string;
+    limit?: number;
+}
+
+// Internal bookkeeping kept alongside each entry, not returned to callers
+interface Tracking {
+    entry: NetworkEntry;
+    startTimestamp: number; // CDP monotonic seconds
+    requestTime?: number; // Monotonic seconds the response timing is relative to
+    rawTiming?: any;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+// How long an extra-info event waits for its request before it is dropped
+const PENDING_EXTRA_TTL = 60000;
+
+function headerMap(headers: Record<string, unknown> | undefined): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers || {})) {
+        result[name] = String(value);
+    }
+    return result;
+}
+
+function phase(start: number, end: number): number {
+    return start >= 0 && end >= 0 ? Math.round((end - start) * 100) / 100 : -1;
+}
+
+function computeTimings(timing: any, endMs: number): NetworkTimings {
+    const firstStart = [timing.dnsStart, timing.connectStart, timing.sendStart].find((t: number) => t >= 0);
+    return {
+        blocked: firstStart !== undefined ? Math.round(firstStart * 100) / 100 : -1,
+        dns: phase(timing.dnsStart, timing.dnsEnd),
+        connect: phase(timing.connectStart, timing.connectEnd),
+        ssl: phase(timing.sslStart, timing.sslEnd),
+        send: phase(timing.sendStart, timing.sendEnd),
+        wait: phase(timing.sendEnd, timing.receiveHeadersEnd),
+        receive: timing.receiveHeadersEnd >= 0 ? Math.max(0, Math.round((endMs - timing.receiveHeadersEnd) * 100) / 100) : -1,
+    };
+}
+
+export function validateNetworkFilter(filter: NetworkFilter): string | null {
+    if (filter.urlPattern) {
+        try {
+            new RegExp(filter.urlPattern);
+        } catch (error) {
+            return `Invalid urlPattern: ${error instanceof Error ? error.message : String(error)}`;
+        }
+    }
+    if (filter.status !== undefined && typeof filter.status === 'string' && !/^([1-5]xx|failed|\d{3})$/i.test(filter.status)) {
+        return `Invalid status filter '${filter.status}'. Use a code such as 404, a class such as '4xx', or 'failed'`;
+    }
+    return null;
+}
+
+export function matchesNetworkFilter(entry: NetworkEntry, filter: NetworkFilter): boolean {
+    if (filter.urlPattern && !new RegExp(filter.urlPattern).test(entry.url)) return false;
+    if (filter.method && entry.method.toUpperCase() !== filter.method.toUpperCase()) return false;
+    if (filter.type) {
+        const types = (Array.isArray(filter.type) ? filter.type : [filter.type]).map(t => t.toLowerCase());
+        if (!types.includes(entry.type.toLowerCase())) return false;
+    }
+    if (filter.status !== undefined) {
+        const status = String(filter.status).toLowerCase();
+        if (status === 'failed') return !!entry.failed;
+        if (entry.status === undefined) return false;
+        if (/^[1-5]xx$/.test(status)) return Math.floor(entry.status / 100) === Number(status[0]);
+        return entry.status === Number(status);
+    }
+    return true;
+}
+
+export class NetworkCollector {
+    private entries: NetworkEntry[] = [];
+    private tracking: Map<string, Tracking> = new Map();
+    // Extra-info events can arrive before the event they complete
+    private pendingExtra: Map<string, { request?: any; response?: any; heldAt: number }> = new Map();
+    private unsubscribers: Array<() => void> = [];
+    private running = false;
+
+    constructor(private cdp: CdpSession, private maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+    get isRunning(): boolean {
+        return this.running && this.cdp.isOpen;
+    }
+
+    async start() {
+        if (this.running) return;
+        this.unsubscribers = [
+            this.cdp.on('Network.requestWillBeSent', params => this.onRequest(params)),
+            this.cdp.on('Network.requestWillBeSentExtraInfo', params => this.onRequestExtra(params)),
+            this.cdp.on('Network.responseReceived', params => this.onResponse(params)),
+            this.cdp.on('Network.responseReceivedExtraInfo', params => this.onResponseExtra(params)),
+            this.cdp.on('Network.requestServedFromCache', params => this.update(params.requestId, entry => { entry.fromCache = true; })),
+            this.cdp.on('Network.dataReceived', params => this.update(params.requestId, entry => {
+                entry.decodedBodySize = (entry.decodedBodySize || 0) + (params.dataLength || 0);
+            })),
+            this.cdp.on('Network.loadingFinished', params => this.onFinished(params)),
+            this.cdp.on('Network.loadingFailed', params => this.onFailed(params)),
+        ];
+        await this.cdp.send('Network.enable', {});
+        this.running = true;
+    }
+
+    async stop() {
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+        this.running = false;
+        // The Network domain stays enabled: throttling and cache settings on the same connection depend on it
+    }
+
+    clear() {
+        this.entries = [];
+        this.tracking.clear();
+        this.pendingExtra.clear();
+    }
+
+    list(filter: NetworkFilter = {}): NetworkEntry[] {
+        const matched = this.entries.filter(entry => matchesNetworkFilter(entry, filter));
+        return filter.limit ? matched.slice(-filter.limit) : matched;
+    }
+
+    get size(): number {
+        return this.entries.length;
+    }
+
+    /**
+     * Body of a finished response, while the browser still holds it (usually until the page that loaded it is gone)
+     */
+    async getResponseBody(requestId: string): Promise<{ body: string; base64Encoded: boolean } | undefined> {
+        try {
+            return await this.cdp.send('Network.getResponseBody', { requestId });
+        } catch {
+            return undefined;
+        }
+    }
+
+    private update(requestId: string, apply: (entry: NetworkEntry) => void) {
+        const tracking = this.tracking.get(requestId);
+        if (tracking) apply(tracking.entry);
+    }
+
+    private onRequest(params: any) {
+        const previous = this.tracking.get(params.requestId);
+        // A redirect reuses the request id: close the hop that was redirected and start a new entry
+        if (previous && params.redirectResponse) {
+            this.applyResponse(previous, params.redirectResponse);
+            this.finish(previous, params.timestamp, params.redirectResponse.encodedDataLength);
+        }
+
+        const entry: NetworkEntry = {
+            requestId: params.requestId,
+            url: params.request.url + (params.request.urlFragment || ''),
+            method: params.request.method,
+            type: params.type || 'Other',
+            startedAt: new Date((params.wallTime || Date.now() / 1000) * 1000).toISOString(),
+            requestHeaders: headerMap(params.request.headers),
+            finished: false,
+        };
+        if (params.request.postData !== undefined) entry.postData = params.request.postData;
+        if (params.initiator) {
+            entry.initiator = { type: params.initiator.type, url: params.initiator.url, lineNumber: params.initiator.lineNumber };
+        }
+        if (previous && params.redirectResponse) entry.redirectedFrom = previous.entry.url;
+
+        const tracking: Tracking = { entry, startTimestamp: params.timestamp };
+        this.tracking.set(params.requestId, tracking);
+        this.push(entry);
+
+        const pending = this.pendingExtra.get(params.requestId);
+        if (pending?.request) this.applyRequestExtra(entry, pending.request);
+    }
+
+    private onRequestExtra(params: any) {
+        const tracking = this.tracking.get(params.requestId);
+        if (tracking) {
+            this.applyRequestExtra(tracking.entry, params);
+        } else {
+            this.holdExtra(params.requestId, 'request', params);
+        }
+    }
+
+    private applyRequestExtra(entry: NetworkEntry, params: any) {
+        // Raw headers as sent, including cookies and others the renderer does not see
+        entry.requestHeaders = { ...entry.requestHeaders, ...headerMap(params.headers) };
+    }
+
+    private onResponse(params: any) {
+        const tracking = this.tracking.get(params.requestId);
+        if (!tracking) return;
+        this.applyResponse(tracking, params.response);
+        if (params.type) tracking.entry.type = params.type;
+        const pending = this.pendingExtra.get(params.requestId);
+        if (pending?.response) this.applyResponseExtra(tracking.entry, pending.response);
+    }
+
+    private onResponseExtra(params: any) {
+        const tracking = this.tracking.get(params.requestId);
+        if (tracking && tracking.entry.status !== undefined) {
+            this.applyResponseExtra(tracking.entry, params);
+        } else {
+            this.holdExtra(params.requestId, 'response', params);
+        }
+    }
+
+    private applyResponseExtra(entry: NetworkEntry, params: any) {
+        // Raw headers as received, including Set-Cookie
+        entry.responseHeaders = { ...entry.responseHeaders, ...headerMap(params.headers) };
+    }
+
+    private applyResponse(tracking: Tracking, response: any) {
+        const entry = tracking.entry;
+        entry.status = response.status;
+        entry.statusText = response.statusText;
+        entry.mimeType = response.mimeType;
+        entry.protocol = response.protocol;
+        entry.responseHeaders = { ...headerMap(response.headers), ...entry.responseHeaders };
+        if (response.requestHeaders) {
+            entry.requestHeaders = { ...entry.requestHeaders, ...headerMap(response.requestHeaders) };
+        }
+        if (response.remoteIPAddress) {
+            entry.remoteAddress = response.remotePort ? `${response.remoteIPAddress}:${response.remotePort}` : response.remoteIPAddress;
+        }
+        if (response.fromDiskCache || response.fromPrefetchCache) entry.fromCache = true;
+        if (response.fromServiceWorker) entry.fromServiceWorker = true;
+        if (response.timing) {
+            tracking.requestTime = response.timing.requestTime;
+            tracking.rawTiming = response.timing;
+        }
+    }
+
+    private finish(tracking: Tracking, timestamp: number, encodedDataLength?: number) {
+        const entry = tracking.entry;
+        entry.finished = true;
+        entry.duration = Math.round((timestamp - tracking.startTimestamp) * 100000) / 100;
+        if (encodedDataLength !== undefined) entry.encodedDataLength = encodedDataLength;
+        if (tracking.rawTiming && tracking.requestTime !== undefined) {
+            entry.timings = computeTimings(tracking.rawTiming, (timestamp - tracking.requestTime) * 1000);
+        }
+    }
+
+    private onFinished(params: any) {
+        const tracking = this.tracking.get(params.requestId);
+        if (!tracking) return;
+        this.finish(tracking, params.timestamp, params.encodedDataLength);
+        this.release(params.requestId);
+    }
+
+    private onFailed(params: any) {
+        const tracking = this.tracking.get(params.requestId);
+        if (!tracking) return;
+        const entry = tracking.entry;
+        this.finish(tracking, params.timestamp);
+        entry.failed = true;
+        entry.errorText = params.errorText;
+        if (params.canceled) entry.canceled = true;
+        if (params.blockedReason) entry.blockedReason = params.blockedReason;
+        if (params.corsErrorStatus) entry.corsError = params.corsErrorStatus.corsError;
+        if (params.type) entry.type = params.type;
+        this.release(params.requestId);
+    }
+
+    /**
+     * Keep an extra-info event for the request it belongs to. Some never get one (e.g. requests that started
+     * before capture did), so stale and surplus events are dropped oldest first.
+     */
+    private holdExtra(requestId: string, kind: 'request' | 'response', params: any) {
+        const now = Date.now();
+        for (const [id, pending] of this.pendingExtra) {
+            if (now - pending.heldAt < PENDING_EXTRA_TTL && this.pendingExtra.size < this.maxEntries) break;
+            this.pendingExtra.delete(id);
+        }
+        const pending = this.pendingExtra.get(requestId);
+        this.pendingExtra.delete(requestId);
+        this.pendingExtra.set(requestId, { ...pending, [kind]: params, heldAt: now });
+    }
+
+    private release(requestId: string) {
+        this.tracking.delete(requestId);
+        this.pendingExtra.delete(requestId);
+    }
+
+    private push(entry: NetworkEntry) {
+        this.entries.push(entry);
+        if (this.entries.length > this.maxEntries) {
+            const dropped = this.entries.splice(0, this.entries.length - this.maxEntries);
+            for (const old of dropped) {
+                if (this.tracking.get(old.requestId)?.entry === old) this.release(old.requestId);
+            }
+        }
+    }
+}
+
+/**
+ * Start (or keep) the session's network collector on its shared DevTools connection
+ */
+export async function startNetworkCapture(session: BrowserSession): Promise<NetworkCollector> {
+    if (!session.network || !session.network.isRunning) {
+        session.network = new NetworkCollector(await getCdpSession(session));
+        await session.network.start();
+    }
+    return session.network;
+}
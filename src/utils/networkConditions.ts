@@ -0,0 +1,85 @@
+import { BrowserSession } from '../common/types.js';
+import { CdpSession } from './cdp.js';
+
+export interface NetworkConditions {
+    offline: boolean;
+    latency: number; // Added round-trip time, ms
+    downloadThroughput: number; // Bytes per second, -1 for no limit
+    uploadThroughput: number;
+}
+
+/**
+ * Network settings last applied to a session, kept so a new DevTools connection can restore them
+ */
+export interface NetworkEmulation {
+    conditions?: NetworkConditions;
+    cacheDisabled?: boolean;
+    bypassServiceWorker?: boolean;
+}
+
+// Same figures as the Chrome DevTools throttling menu
+export const NETWORK_PRESETS: Record<string, NetworkConditions> = {
+    'slow-3g': { offline: false, latency: 2000, downloadThroughput: (500 * 1000 / 8) * 0.8, uploadThroughput: (500 * 1000 / 8) * 0.8 },
+    'fast-3g': { offline: false, latency: 562.5, downloadThroughput: (1.6 * 1000 * 1000 / 8) * 0.9, uploadThroughput: (750 * 1000 / 8) * 0.9 },
+    '4g': { offline: false, latency: 165, downloadThroughput: (9 * 1000 * 1000 / 8) * 0.9, uploadThroughput: (1.5 * 1000 * 1000 / 8) * 0.9 },
+    'offline': { offline: true, latency: 0, downloadThroughput: 0, uploadThroughput: 0 },
+    'no-throttling': { offline: false, latency: 0, downloadThroughput: -1, uploadThroughput: -1 },
+};
+
+/**
+ * Conditions from a preset name, overridden by custom latency (ms) and throughput (kbit/s) when given
+ */
+export function resolveNetworkConditions(args: {
+    preset?: string;
+    offline?: boolean;
+    latency?: number;
+    downloadKbps?: number;
+    uploadKbps?: number;
+}): { conditions?: NetworkConditions; reason?: string } {
+    const base = args.preset ? NETWORK_PRESETS[args.preset.toLowerCase()] : NETWORK_PRESETS['no-throttling'];
+    if (!base) {
+        return { reason: `Unknown network preset: ${args.preset}. Available: ${Object.keys(NETWORK_PRESETS).join(', ')}` };
+    }
+    const custom = [args.latency, args.downloadKbps, args.uploadKbps].filter(value => value !== undefined);
+    if (custom.some(value => typeof value !== 'number' || value < 0)) {
+        return { reason: 'latency, downloadKbps and uploadKbps must be non-negative numbers' };
+    }
+    if (!args.preset && custom.length === 0 && args.offline === undefined) {
+        return { reason: 'preset, or at least one of offline, latency, downloadKbps, uploadKbps required' };
+    }
+    return {
+        conditions: {
+            offline: args.offline ?? base.offline,
+            latency: args.latency ?? base.latency,
+            downloadThroughput: args.downloadKbps !== undefined ? (args.downloadKbps * 1000) / 8 : base.downloadThroughput,
+            uploadThroughput: args.uploadKbps !== undefined ? (args.uploadKbps * 1000) / 8 : base.uploadThroughput,
+        },
+    };
+}
+
+/**
+ * Apply throttling on the session's DevTools connection; it lasts as long as that connection does
+ */
+export async function emulateNetworkConditions(cdp: CdpSession, conditions: NetworkConditions) {
+    await cdp.send('Network.enable', {});
+    await cdp.send('Network.emulateNetworkConditions', conditions);
+}
+
+/**
+ * Restore the session's network settings on a freshly opened DevTools connection
+ */
+export async function reapplyNetworkEmulation(session: BrowserSession, cdp: CdpSession) {
+    const emulation = session.networkEmulation;
+    if (!emulation) return;
+    if (emulation.conditions) {
+        await emulateNetworkConditions(cdp, emulation.conditions);
+    }
+    if (emulation.cacheDisabled !== undefined) {
+        await cdp.send('Network.enable', {});
+        await cdp.send('Network.setCacheDisabled', { cacheDisabled: emulation.cacheDisabled });
+    }
+    if (emulation.bypassServiceWorker !== undefined) {
+        await cdp.send('Network.enable', {});
+        await cdp.send('Network.setBypassServiceWorker', { bypass: emulation.bypassServiceWorker });
+    }
+}
@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodePng, encodePng, RgbaImage } from './png.js';
+import { diffImages } from './imageDiff.js';
+
+// Built with Python's zlib, independently of the codec under test
+const RGB_SUB_PAETH = 'iVBORw0KGgoAAAANSUhEUgAAAAIAAAACCAIAAAD91JpzAAAAE0lEQVR4nGPkEpEDAhYbGxsgBQAKVgGqEn1f1QAAAABJRU5ErkJggg==';
+const PALETTE_TRNS = 'iVBORw0KGgoAAAANSUhEUgAAAAIAAAABCAMAAADD/I+4AAAABlBMVEX/AAAA/wDSh+9xAAAAAXRSTlMAQObYZgAAAAtJREFUeJxjYGQAAAAFAALRZjN4AAAAAElFTkSuQmCC';
+const GREY_ALPHA_UP = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAACCAQAAAAziH6sAAAADklEQVR4nGNo+M/E5AgABs0BxaKuSeAAAAAASUVORK5CYII=';
+
+function image(width: number, height: number, pixels: number[][]): RgbaImage {
+    return { width, height, data: Buffer.from(pixels.flat()) };
+}
+
+test('decodePng undoes Sub and Paeth filters on RGB images', () => {
+    const decoded = decodePng(Buffer.from(RGB_SUB_PAETH, 'base64'));
+    assert.equal(decoded.width, 2);
+    assert.equal(decoded.height, 2);
+    assert.deepEqual([...decoded.data], [10, 20, 30, 255, 40, 50, 60, 255, 70, 80, 90, 255, 100, 110, 120, 255]);
+});
+
+test('decodePng maps palette indices and tRNS alpha', () => {
+    const decoded = decodePng(Buffer.from(PALETTE_TRNS, 'base64'));
+    // Pixel indices 1 (opaque green) and 0 (red, transparent through tRNS)
+    assert.deepEqual([...decoded.data], [0, 255, 0, 255, 255, 0, 0, 0]);
+});
+
+test('decodePng expands greyscale with alpha and undoes the Up filter', () => {
+    const decoded = decodePng(Buffer.from(GREY_ALPHA_UP, 'base64'));
+    assert.deepEqual([...decoded.data], [128, 128, 128, 255, 130, 130, 130, 64]);
+});
+
+test('decodePng rejects other files', () => {
+    assert.throws(() => decodePng(Buffer.from('GIF89a')), /Not a PNG/);
+});
+
+test('encodePng round-trips through decodePng', () => {
+    const original = image(3, 2, [
+        [255, 0, 0, 255], [0, 255, 0, 128], [0, 0, 255, 0],
+        [1, 2, 3, 4], [250, 251, 252, 253], [127, 127, 127, 255],
+    ]);
+    const decoded = decodePng(encodePng(original));
+    assert.equal(decoded.width, 3);
+    assert.equal(decoded.height, 2);
+    assert.deepEqual(decoded.data, original.data);
+});
+
+test('encodePng writes the standard IEND chunk and its CRC', () => {
+    const encoded = encodePng(image(1, 1, [[0, 0, 0, 255]]));
+    assert.equal(encoded.subarray(-12).toString('hex'), '0000000049454e44ae426082');
+});
+
+test('diffImages finds no difference between identical images', () => {
+    const a = image(2, 1, [[10, 20, 30, 255], [40, 50, 60, 255]]);
+    const result = diffImages(a, image(2, 1, [[10, 20, 30, 255], [40, 50, 60, 255]]));
+    assert.equal(result.diffPixels, 0);
+    assert.equal(result.comparedPixels, 2);
+    assert.equal(result.mismatchPercent, 0);
+});
+
+test('diffImages counts pixels beyond the threshold and marks them red', () => {
+    const baseline = image(2, 2, [[0, 0, 0, 255], [0, 0, 0, 255], [0, 0, 0, 255], [0, 0, 0, 255]]);
+    const actual = image(2, 2, [[255, 255, 255, 255], [5, 5, 5, 255], [0, 0, 0, 255], [0, 0, 0, 255]]);
+    const result = diffImages(baseline, actual);
+    assert.equal(result.diffPixels, 1);
+    assert.equal(result.mismatchPercent, 25);
+    assert.deepEqual([...result.diffImage.data.subarray(0, 4)], [255, 0, 0, 255]);
+    assert.equal(diffImages(baseline, actual, { threshold: 0 }).diffPixels, 2);
+});
+
+test('diffImages leaves ignored regions out of the count', () => {
+    const baseline = image(2, 1, [[0, 0, 0, 255], [0, 0, 0, 255]]);
+    const actual = image(2, 1, [[255, 255, 255, 255], [0, 0, 0, 255]]);
+    const result = diffImages(baseline, actual, { ignore: [{ x: 0, y: 0, width: 1, height: 1 }] });
+    assert.equal(result.diffPixels, 0);
+    assert.equal(result.comparedPixels, 1);
+    assert.deepEqual([...result.diffImage.data.subarray(0, 4)], [60, 120, 255, 255]);
+});
+
+test('diffImages rejects images of different sizes', () => {
+    assert.throws(() => diffImages(image(1, 1, [[0, 0, 0, 0]]), image(2, 1, [[0, 0, 0, 0], [0, 0, 0, 0]])), /sizes differ/);
+});
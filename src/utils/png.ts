@@ -0,0 +1,183 @@
+import * as zlib from 'zlib';
+
+/**
+ * Minimal PNG codec for visual diffs: 8-bit greyscale, RGB, palette and RGBA images, non-interlaced.
+ * That covers browser screenshots and the files written here; anything else is rejected.
+ */
+
+export interface RgbaImage {
+    width: number;
+    height: number;
+    data: Buffer; // RGBA, 4 bytes per pixel, rows top to bottom
+}
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(buffer: Buffer): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < buffer.length; i++) {
+        crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Channels per pixel for each supported colour type
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+function paeth(a: number, b: number, c: number): number {
+    const p = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+export function decodePng(buffer: Buffer): RgbaImage {
+    if (buffer.length < 8 || !buffer.subarray(0, 8).equals(SIGNATURE)) {
+        throw new Error('Not a PNG file');
+    }
+
+    let width = 0;
+    let height = 0;
+    let bitDepth = 0;
+    let colorType = 0;
+    let interlace = 0;
+    let palette: Buffer | undefined;
+    let transparency: Buffer | undefined;
+    const idat: Buffer[] = [];
+
+    let offset = 8;
+    while (offset < buffer.length) {
+        const length = buffer.readUInt32BE(offset);
+        const type = buffer.toString('ascii', offset + 4, offset + 8);
+        const chunk = buffer.subarray(offset + 8, offset + 8 + length);
+        offset += 12 + length;
+        if (type === 'IHDR') {
+            width = chunk.readUInt32BE(0);
+            height = chunk.readUInt32BE(4);
+            bitDepth = chunk[8];
+            colorType = chunk[9];
+            interlace = chunk[12];
+        } else if (type === 'PLTE') {
+            palette = chunk;
+        } else if (type === 'tRNS') {
+            transparency = chunk;
+        } else if (type === 'IDAT') {
+            idat.push(chunk);
+        } else if (type === 'IEND') {
+            break;
+        }
+    }
+
+    if (bitDepth !== 8 || CHANNELS[colorType] === undefined || interlace !== 0) {
+        throw new Error(`Unsupported PNG (bit depth ${bitDepth}, colour type ${colorType}, interlace ${interlace}); only 8-bit non-interlaced images are supported`);
+    }
+    if (colorType === 3 && !palette) {
+        throw new Error('PNG palette missing');
+    }
+
+    const channels = CHANNELS[colorType];
+    const stride = width * channels;
+    const raw = zlib.inflateSync(Buffer.concat(idat));
+    const pixels = Buffer.alloc(stride * height);
+
+    for (let y = 0; y < height; y++) {
+        const filter = raw[y * (stride + 1)];
+        const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+        const row = y * stride;
+        const previous = row - stride;
+        for (let x = 0; x < stride; x++) {
+            const left = x >= channels ? pixels[row + x - channels] : 0;
+            const up = y > 0 ? pixels[previous + x] : 0;
+            const upLeft = y > 0 && x >= channels ? pixels[previous + x - channels] : 0;
+            let value = line[x];
+            switch (filter) {
+                case 1: value += left; break;
+                case 2: value += up; break;
+                case 3: value += (left + up) >> 1; break;
+                case 4: value += paeth(left, up, upLeft); break;
+            }
+            pixels[row + x] = value & 0xff;
+        }
+    }
+
+    const data = Buffer.alloc(width * height * 4);
+    for (let i = 0, p = 0; i < width * height; i++, p += channels) {
+        const o = i * 4;
+        switch (colorType) {
+            case 0:
+                data[o] = data[o + 1] = data[o + 2] = pixels[p];
+                data[o + 3] = 255;
+                break;
+            case 2:
+                data[o] = pixels[p];
+                data[o + 1] = pixels[p + 1];
+                data[o + 2] = pixels[p + 2];
+                data[o + 3] = 255;
+                break;
+            case 3: {
+                const index = pixels[p];
+                data[o] = palette![index * 3];
+                data[o + 1] = palette![index * 3 + 1];
+                data[o + 2] = palette![index * 3 + 2];
+                data[o + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+                break;
+            }
+            case 4:
+                data[o] = data[o + 1] = data[o + 2] = pixels[p];
+                data[o + 3] = pixels[p + 1];
+                break;
+            case 6:
+                pixels.copy(data, o, p, p + 4);
+                break;
+        }
+    }
+    return { width, height, data };
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(data.length, 0);
+    header.write(type, 4, 'ascii');
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), data])), 0);
+    return Buffer.concat([header, data, crc]);
+}
+
+export function encodePng(image: RgbaImage): Buffer {
+    const { width, height, data } = image;
+    const ihdr = Buffer.alloc(13);
+    ihdr.writeUInt32BE(width, 0);
+    ihdr.writeUInt32BE(height, 4);
+    ihdr[8] = 8; // bit depth
+    ihdr[9] = 6; // RGBA
+    ihdr[10] = 0;
+    ihdr[11] = 0;
+    ihdr[12] = 0;
+
+    // Filter type 0 (none) on every row; deflate does the work
+    const stride = width * 4;
+    const raw = Buffer.alloc((stride + 1) * height);
+    for (let y = 0; y < height; y++) {
+        data.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+    }
+
+    return Buffer.concat([
+        SIGNATURE,
+        chunk('IHDR', ihdr),
+        chunk('IDAT', zlib.deflateSync(raw)),
+        chunk('IEND', Buffer.alloc(0)),
+    ]);
+}
@@ -45,3 +45,16 @@ export function getImagesDir(providedProjectDir?: string): string {
   return path.join(getProjectDir(providedProjectDir), 'images');
 }
 
+/**
+ * Get the scenarios directory path in the project directory
+ */
+export function getScenariosDir(providedProjectDir?: string): string {
+  return path.join(getProjectDir(providedProjectDir), 'scenarios');
+}
+
+/**
+ * Get the visual regression baselines directory path in the project directory
+ */
+export function getBaselinesDir(providedProjectDir?: string): string {
+  return path.join(getProjectDir(providedProjectDir), 'baselines');
+}
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { globToRegExp } from './requestInterceptor.js';
+
+test('globToRegExp matches * across any run of characters', () => {
+    const pattern = globToRegExp('*/api/*');
+    assert.ok(pattern.test('https://example.com/api/items'));
+    assert.ok(pattern.test('https://example.com/v1/api/items/7?x=1'));
+    assert.ok(!pattern.test('https://example.com/apix'));
+});
+
+test('globToRegExp matches ? as exactly one character', () => {
+    const pattern = globToRegExp('https://example.com/img?.png');
+    assert.ok(pattern.test('https://example.com/img1.png'));
+    assert.ok(!pattern.test('https://example.com/img.png'));
+    assert.ok(!pattern.test('https://example.com/img12.png'));
+});
+
+test('globToRegExp treats regular expression characters literally', () => {
+    const pattern = globToRegExp('https://example.com/a+b(1)[x]{2}|$^.js');
+    assert.ok(pattern.test('https://example.com/a+b(1)[x]{2}|$^.js'));
+    assert.ok(!pattern.test('https://example.com/aab(1)[x]{2}|$^.js'));
+    assert.ok(!globToRegExp('*.js').test('https://example.com/appxjs'));
+});
+
+test('globToRegExp anchors the whole URL', () => {
+    assert.ok(!globToRegExp('example.com').test('https://example.com/'));
+    assert.ok(globToRegExp('*example.com*').test('https://example.com/'));
+});
@@ -0,0 +1,215 @@
+import { BrowserSession } from '../common/types.js';
+import { CdpSession, getCdpSession } from './cdp.js';
+
+/**
+ * Request interception on the CDP Fetch domain. While rules are installed every request pauses in the browser;
+ * the first matching rule decides what happens to it and unmatched requests continue untouched.
+ */
+
+export type RuleAction = 'block' | 'mock' | 'modify' | 'fail';
+
+export interface NetworkRule {
+    id: string;
+    urlPattern: string; // Glob over the full URL: * any run of characters, ? one character
+    action: RuleAction;
+    method?: string;
+    resourceType?: string; // CDP resource type, e.g. Script, Image, XHR, Fetch
+    status?: number; // mock
+    headers?: Record<string, string>; // mock: response headers; modify: request headers to set ('' removes)
+    body?: string; // mock: base64 response body
+    errorReason?: string; // fail
+    times?: number; // Stop applying after this many matches
+    matches: number;
+    lastMatchedUrl?: string;
+}
+
+export const RULE_ACTIONS: RuleAction[] = ['block', 'mock', 'modify', 'fail'];
+
+// Network errors accepted by Fetch.failRequest
+export const ERROR_REASONS = [
+    'Failed', 'Aborted', 'TimedOut', 'AccessDenied', 'ConnectionClosed', 'ConnectionReset', 'ConnectionRefused',
+    'ConnectionAborted', 'ConnectionFailed', 'NameNotResolved', 'InternetDisconnected', 'AddressUnreachable',
+    'BlockedByClient', 'BlockedByResponse',
+];
+
+export function globToRegExp(glob: string): RegExp {
+    const source = glob
+        .split('')
+        .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\/]/g, '\\$&'))
+        .join('');
+    return new RegExp(`^${source}$`);
+}
+
+export interface PausedRequest {
+    requestId: string;
+    request: { url: string; method: string; headers: Record<string, string>; postData?: string };
+    resourceType: string;
+}
+
+/**
+ * Answers a paused request that no rule matched. Returns false to let the request continue to the network.
+ */
+export type FallbackHandler = (paused: PausedRequest, cdp: CdpSession) => Promise<boolean>;
+
+export class RequestInterceptor {
+    private rules: NetworkRule[] = [];
+    private nextId = 1;
+    private unsubscribe?: () => void;
+    private fallback?: FallbackHandler;
+
+    constructor(private cdp: CdpSession) {}
+
+    list(): NetworkRule[] {
+        return this.rules.map(rule => ({ ...rule, body: rule.body !== undefined ? `<${Buffer.from(rule.body, 'base64').length} bytes>` : undefined }));
+    }
+
+    get attached(): boolean {
+        return this.cdp.isOpen;
+    }
+
+    get active(): boolean {
+        return this.rules.length > 0 || !!this.fallback;
+    }
+
+    async add(rule: Omit<NetworkRule, 'id' | 'matches'> & { id?: string }): Promise<NetworkRule> {
+        const id = rule.id || `rule-${this.nextId++}`;
+        const previous = this.rules;
+        const added: NetworkRule = { ...rule, id, matches: 0 };
+        this.rules = [...previous.filter(existing => existing.id !== id), added];
+        try {
+            await this.sync();
+        } catch (error) {
+            // Interception could not start, so the rule would never apply
+            this.rules = previous;
+            throw error;
+        }
+        return added;
+    }
+
+    async remove(id: string): Promise<boolean> {
+        const before = this.rules.length;
+        this.rules = this.rules.filter(rule => rule.id !== id);
+        await this.sync();
+        return this.rules.length < before;
+    }
+
+    async clear() {
+        this.rules = [];
+        await this.sync();
+    }
+
+    async setFallback(handler: FallbackHandler | undefined) {
+        const previous = this.fallback;
+        this.fallback = handler;
+        try {
+            await this.sync();
+        } catch (error) {
+            this.fallback = previous;
+            throw error;
+        }
+    }
+
+    /**
+     * Take over the rules and fallback of an interceptor whose DevTools connection closed, and reinstall them
+     */
+    async adopt(previous: RequestInterceptor) {
+        this.rules = previous.rules;
+        this.nextId = previous.nextId;
+        this.fallback = previous.fallback;
+        await this.sync();
+    }
+
+    /**
+     * Pause requests only while something can answer them: Fetch interception slows every request down
+     */
+    private async sync() {
+        if (this.active && !this.unsubscribe) {
+            this.unsubscribe = this.cdp.on('Fetch.requestPaused', params => { void this.onPaused(params); });
+            await this.cdp.send('Fetch.enable', { patterns: [{ urlPattern: '*', requestStage: 'Request' }] });
+        } else if (!this.active && this.unsubscribe) {
+            this.unsubscribe();
+            this.unsubscribe = undefined;
+            if (this.cdp.isOpen) await this.cdp.send('Fetch.disable', {});
+        }
+    }
+
+    private matches(rule: NetworkRule, paused: PausedRequest): boolean {
+        if (rule.times !== undefined && rule.matches >= rule.times) return false;
+        if (rule.method && rule.method.toUpperCase() !== paused.request.method.toUpperCase()) return false;
+        if (rule.resourceType && rule.resourceType.toLowerCase() !== paused.resourceType.toLowerCase()) return false;
+        return globToRegExp(rule.urlPattern).test(paused.request.url);
+    }
+
+    private async onPaused(paused: PausedRequest) {
+        const { requestId } = paused;
+        try {
+            const rule = this.rules.find(candidate => this.matches(candidate, paused));
+            if (rule) {
+                rule.matches++;
+                rule.lastMatchedUrl = paused.request.url;
+                await this.apply(rule, paused);
+                return;
+            }
+            if (this.fallback && await this.fallback(paused, this.cdp)) return;
+            await this.cdp.send('Fetch.continueRequest', { requestId });
+        } catch {
+            // The request may have been cancelled by the page meanwhile; let it go if it is still paused
+            await this.cdp.send('Fetch.continueRequest', { requestId }).catch(() => undefined);
+        }
+    }
+
+    private async apply(rule: NetworkRule, paused: PausedRequest) {
+        const { requestId } = paused;
+        switch (rule.action) {
+            case 'block':
+                await this.cdp.send('Fetch.failRequest', { requestId, errorReason: 'BlockedByClient' });
+                break;
+            case 'fail':
+                await this.cdp.send('Fetch.failRequest', { requestId, errorReason: rule.errorReason || 'Failed' });
+                break;
+            case 'mock':
+                await this.cdp.send('Fetch.fulfillRequest', {
+                    requestId,
+                    responseCode: rule.status || 200,
+                    responseHeaders: Object.entries(rule.headers || {}).map(([name, value]) => ({ name, value })),
+                    body: rule.body || '',
+                });
+                break;
+            case 'modify': {
+                const headers: Record<string, string> = { ...paused.request.headers };
+                for (const [name, value] of Object.entries(rule.headers || {})) {
+                    const existing = Object.keys(headers).find(key => key.toLowerCase() === name.toLowerCase());
+                    if (existing) delete headers[existing];
+                    if (value !== '') headers[name] = value;
+                }
+                await this.cdp.send('Fetch.continueRequest', {
+                    requestId,
+                    headers: Object.entries(headers).map(([name, value]) => ({ name, value })),
+                });
+                break;
+            }
+        }
+    }
+}
+
+/**
+ * The session's request interceptor on its shared DevTools connection. When that connection was lost the
+ * rules and HAR replay move to a new one; if they cannot be reinstalled they are dropped and the error thrown.
+ */
+export async function getInterceptor(session: BrowserSession): Promise<RequestInterceptor> {
+    const previous = session.interceptor;
+    if (previous?.attached) return previous;
+    const interceptor = new RequestInterceptor(await getCdpSession(session));
+    session.interceptor = interceptor;
+    if (previous) {
+        try {
+            await interceptor.adopt(previous);
+        } catch (error) {
+            await interceptor.setFallback(undefined).catch(() => undefined);
+            await interceptor.clear().catch(() => undefined);
+            session.harReplay = undefined;
+            throw new Error(`Network rules and HAR replay were lost with the DevTools connection and could not be reinstalled: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    return interceptor;
+}
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { exportScenario } from './scenarioExport.js';
+import { Scenario, ScenarioStep } from '../common/types.js';
+
+function scenario(steps: ScenarioStep[]): Scenario {
+    return {
+        scenarioId: 'scenario-1',
+        name: 'Checkout',
+        sessionId: 'session-1',
+        steps,
+        metadata: { totalSteps: steps.length, duration: 0, createdAt: '2024-01-01T00:00:00.000Z', lastModified: '2024-01-01T00:00:00.000Z', variablesUsed: [] },
+    };
+}
+
+test('exportScenario escapes quotes and backslashes in attribute selectors', () => {
+    const steps: ScenarioStep[] = [
+        { action: 'click', selector: 'Say "hi" \\ bye', by: 'placeholder', timestamp: 1 },
+        { action: 'click', selector: 'a"b', by: 'testid', timestamp: 2 },
+    ];
+    const selenium = exportScenario(scenario(steps), 'selenium-mocha');
+    assert.ok(selenium.includes(String.raw`By.css('[placeholder="Say \\"hi\\" \\\\ bye"]')`));
+    assert.ok(selenium.includes(String.raw`By.css('[data-testid="a\\"b"]')`));
+
+    const playwright = exportScenario(scenario([{ action: 'click', selector: 'a"b', by: 'id', timestamp: 1 }]), 'playwright');
+    assert.ok(playwright.includes(String.raw`page.locator('[id="a\\"b"]')`));
+});
+
+test('exportScenario switches into the frame a step was recorded in', () => {
+    const steps: ScenarioStep[] = [
+        { action: 'click', selector: '#pay', frame: '0/1', timestamp: 1 },
+        { action: 'type', selector: '#card', value: '4242', frame: 'checkout', timestamp: 2 },
+    ];
+    const selenium = exportScenario(scenario(steps), 'selenium-mocha');
+    assert.ok(selenium.includes('async function switchToFrame(driver: WebDriver'));
+    assert.ok(selenium.includes('await switchToFrame(driver, [0, 1]);\n        await driver.wait(until.elementLocated(By.css(\'#pay\')), 10000).click();\n        await driver.switchTo().defaultContent();'));
+    assert.ok(selenium.includes("await switchToFrame(driver, ['checkout']);"));
+
+    const playwright = exportScenario(scenario(steps), 'playwright');
+    assert.ok(playwright.includes("await page.frameLocator('iframe, frame').nth(0).frameLocator('iframe, frame').nth(1).locator('#pay').first().click("));
+    assert.ok(playwright.includes(`page.frameLocator(':is(iframe, frame):is([name="checkout"], [id="checkout"]), checkout').first().locator('#card')`));
+});
+
+test('exportScenario emits waitBefore and waitAfter conditions around the step', () => {
+    const steps: ScenarioStep[] = [{
+        action: 'click',
+        selector: '#save',
+        waitBefore: { selector: '#save', state: 'enabled' },
+        waitAfter: [{ urlPattern: '/done$' }, { type: 'dom_stable', idleTime: 300 }],
+        timestamp: 1,
+    }];
+    const selenium = exportScenario(scenario(steps), 'selenium-mocha').split('\n').map(line => line.trim());
+    const click = selenium.indexOf("await driver.wait(until.elementLocated(By.css('#save')), 10000).click();");
+    assert.equal(selenium[click - 1], "await driver.wait(until.elementIsEnabled(driver.wait(until.elementLocated(By.css('#save')), 10000)), 10000);");
+    assert.equal(selenium[click + 1], "await driver.wait(until.urlMatches(new RegExp('/done$')), 10000);");
+    assert.equal(selenium[click + 2], '// Wait not exported: no DOM mutations for 300ms');
+
+    const playwright = exportScenario(scenario([{ action: 'navigate', url: 'https://example.com', waitAfter: { type: 'network_idle' }, timestamp: 1 }]), 'playwright');
+    assert.ok(playwright.includes("await page.goto('https://example.com');\n    await page.waitForLoadState('networkidle', { timeout: 10000 });"));
+});
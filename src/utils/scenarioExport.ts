@@ -0,0 +1,560 @@
+import { Scenario, ScenarioStep } from '../common/types.js';
+import { FrameLocator, hasFrame, parseFrameLocator } from './frames.js';
+import { findVariables } from './scenarioVariables.js';
+import { conditionType, describeCondition, predicateScript, WaitCondition } from './waitConditions.js';
+
+export type ExportTarget = 'selenium-mocha' | 'selenium-jest' | 'playwright';
+
+export const EXPORT_TARGETS: ExportTarget[] = ['selenium-mocha', 'selenium-jest', 'playwright'];
+
+const DEFAULT_TIMEOUT = 10000;
+// Button fill_form clicks when submitAfter is set without a submitSelector
+const SUBMIT_SELECTOR = 'button[type="submit"], input[type="submit"]';
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Render a string as a TypeScript literal. Strings with {{name}} placeholders become
+ * template literals reading from the generated `variables` object.
+ */
+function literal(text: string | undefined): string {
+    const value = text ?? '';
+    if (value.search(PLACEHOLDER_PATTERN) !== -1) {
+        const escaped = value.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+        return '`' + escaped.replace(PLACEHOLDER_PATTERN, (_, name) => `\${variables['${name}']}`) + '`';
+    }
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n').replace(/\r/g, '\\r')}'`;
+}
+
+/**
+ * Expected values written as /pattern/flags are emitted as regex literals
+ */
+function expectedLiteral(text: string): { code: string; regex: boolean } {
+    return /^\/(.+)\/([gimsuy]*)$/.test(text) ? { code: text, regex: true } : { code: literal(text), regex: false };
+}
+
+/**
+ * XPath string literal, using concat() when the value holds both quote kinds
+ */
+function xpathString(value: string): string {
+    if (!value.includes("'")) return `'${value}'`;
+    if (!value.includes('"')) return `"${value}"`;
+    return `concat(${value.split("'").map(part => `'${part}'`).join(`, "'", `)})`;
+}
+
+/**
+ * Double-quoted CSS string for attribute selectors
+ */
+function cssString(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\a ')}"`;
+}
+
+function parseRole(selector: string): { role: string; name?: string; exact: boolean } {
+    const match = selector.trim().match(/^([\w-]+)\s*(?:\[\s*name\s*(\*?=)\s*(["'])(.*)\3\s*\])?$/);
+    if (!match) return { role: selector.trim(), exact: true };
+    return { role: match[1], name: match[4], exact: match[2] !== '*=' };
+}
+
+// Elements carrying each ARIA role implicitly, for Selenium exports
+const IMPLICIT_ROLES: Record<string, string> = {
+    button: "self::button or self::input[@type='button' or @type='submit' or @type='reset' or @type='image']",
+    link: 'self::a[@href]',
+    textbox: "self::textarea or self::input[not(@type) or @type='text' or @type='email' or @type='tel' or @type='url']",
+    checkbox: "self::input[@type='checkbox']",
+    radio: "self::input[@type='radio']",
+    combobox: 'self::select',
+    heading: 'self::h1 or self::h2 or self::h3 or self::h4 or self::h5 or self::h6',
+    option: 'self::option',
+    listitem: 'self::li',
+    img: 'self::img',
+};
+
+function seleniumBy(selector: string | undefined, by: string | undefined): string {
+    const value = selector ?? '';
+    switch ((by || 'css').replace(/[-_\s]/g, '').toLowerCase()) {
+        case 'xpath': return `By.xpath(${literal(value)})`;
+        case 'id': return `By.id(${literal(value)})`;
+        case 'name': return `By.name(${literal(value)})`;
+        case 'classname': return `By.className(${literal(value)})`;
+        case 'tagname': return `By.css(${literal(value)})`;
+        case 'text': {
+            const text = xpathString(value.replace(/\s+/g, ' ').trim());
+            return `By.xpath(${literal(`//*[normalize-space(.)=${text} and not(*[normalize-space(.)=${text}])]`)})`;
+        }
+        case 'partialtext': {
+            const text = xpathString(value.trim());
+            return `By.xpath(${literal(`//*[contains(normalize-space(.), ${text}) and not(*[contains(normalize-space(.), ${text})])]`)})`;
+        }
+        case 'role': {
+            const { role, name, exact } = parseRole(value);
+            const roleTest = [`@role=${xpathString(role)}`, ...(IMPLICIT_ROLES[role] ? [IMPLICIT_ROLES[role]] : [])].join(' or ');
+            if (name === undefined) return `By.xpath(${literal(`//*[${roleTest}]`)})`;
+            const named = xpathString(name);
+            const nameTest = exact
+                ? `@aria-label=${named} or @value=${named} or @alt=${named} or normalize-space(.)=${named}`
+                : `contains(@aria-label, ${named}) or contains(@value, ${named}) or contains(@alt, ${named}) or contains(normalize-space(.), ${named})`;
+            return `By.xpath(${literal(`//*[(${roleTest}) and (${nameTest})]`)})`;
+        }
+        case 'label': {
+            const text = xpathString(value.trim());
+            return `By.xpath(${literal(`//*[@id=//label[normalize-space(.)=${text}]/@for] | //label[normalize-space(.)=${text}]//*[self::input or self::textarea or self::select] | //*[@aria-label=${text}]`)})`;
+        }
+        case 'placeholder': return `By.css(${literal(`[placeholder=${cssString(value)}]`)})`;
+        case 'testid':
+        case 'datatestid': return `By.css(${literal(`[data-testid=${cssString(value)}]`)})`;
+        default: return `By.css(${literal(value)})`;
+    }
+}
+
+/**
+ * CSS selectors written host >>> inner reach into open shadow roots, one host per segment
+ */
+function shadowParts(selector: string | undefined, by: string | undefined): string[] | null {
+    const strategy = (by || 'css').replace(/[-_\s]/g, '').toLowerCase();
+    if (strategy !== 'css' || !selector?.includes('>>>')) return null;
+    return selector.split('>>>').map(part => part.trim());
+}
+
+/**
+ * Expression resolving to the located WebElement, waiting up to timeout. Shadow-piercing selectors go
+ * through the generated findInShadow helper since By.css cannot cross shadow roots.
+ */
+function seleniumElement(selector: string | undefined, by: string | undefined, timeout: number): string {
+    const parts = shadowParts(selector, by);
+    if (parts) return `findInShadow(driver, [${parts.map(part => literal(part)).join(', ')}], ${timeout})`;
+    return `driver.wait(until.elementLocated(${seleniumBy(selector, by)}), ${timeout})`;
+}
+
+const FIND_IN_SHADOW = [
+    '// Finds host >>> inner selectors by querying each segment inside the previous host\'s shadow root',
+    'function findInShadow(driver: WebDriver, selectors: string[], timeout: number): WebElementPromise {',
+    '    return new WebElementPromise(driver, driver.wait(async () => await driver.executeScript(`',
+    '        let scope = document;',
+    '        let element = null;',
+    '        for (const selector of arguments[0]) {',
+    '            if (element && !(scope = element.shadowRoot)) return null;',
+    '            if (!(element = scope.querySelector(selector))) return null;',
+    '        }',
+    '        return element;',
+    '    `, selectors) as WebElement | null, timeout, `Element not found: ${selectors.join(\' >>> \')}`) as Promise<WebElement>);',
+    '}',
+    '',
+];
+
+const SWITCH_TO_FRAME = [
+    '// Enters nested frames the way replay does: by index among the page\'s frames (shadow roots included), name or id, then CSS selector',
+    'async function switchToFrame(driver: WebDriver, path: Array<number | string>): Promise<void> {',
+    '    await driver.switchTo().defaultContent();',
+    '    for (const segment of path) {',
+    '        const frame = await driver.executeScript(`',
+    '            const frames = [];',
+    '            const visit = scope => {',
+    '                for (const el of scope.querySelectorAll(\'*\')) {',
+    '                    if (el.tagName === \'IFRAME\' || el.tagName === \'FRAME\') frames.push(el);',
+    '                    if (el.shadowRoot) visit(el.shadowRoot);',
+    '                }',
+    '            };',
+    '            visit(document);',
+    '            const segment = arguments[0];',
+    '            if (typeof segment === \'number\') return frames[segment] || null;',
+    '            return frames.find(f => f.getAttribute(\'name\') === segment || f.id === segment)',
+    '                || frames.find(f => { try { return f.matches(segment); } catch { return false; } }) || null;',
+    '        `, segment) as WebElement | null;',
+    '        if (!frame) throw new Error(`Frame not found: ${segment}`);',
+    '        await driver.switchTo().frame(frame);',
+    '    }',
+    '}',
+    '',
+];
+
+function frameSegments(frame: FrameLocator): string {
+    return `[${parseFrameLocator(frame).map(segment => (typeof segment === 'number' ? String(segment) : literal(segment))).join(', ')}]`;
+}
+
+/**
+ * Steps recorded in a frame switch into it first and return to the top-level document afterwards
+ */
+function seleniumInFrame(step: ScenarioStep, lines: string[]): string[] {
+    if (!hasFrame(step.frame)) return lines;
+    return [`await switchToFrame(driver, ${frameSegments(step.frame)});`, ...lines, 'await driver.switchTo().defaultContent();'];
+}
+
+/**
+ * FrameLocator chain for a recorded frame. Indexes count <iframe>/<frame> elements in document order,
+ * other segments match a frame by name or id, or as a CSS selector.
+ */
+function playwrightFrame(frame: FrameLocator): string {
+    return parseFrameLocator(frame).reduce<string>((root, segment) => {
+        if (typeof segment === 'number') return `${root}.frameLocator('iframe, frame').nth(${segment})`;
+        const named = `:is(iframe, frame):is([name=${cssString(segment)}], [id=${cssString(segment)}])`;
+        return `${root}.frameLocator(${literal(`${named}, ${segment}`)}).first()`;
+    }, 'page');
+}
+
+function playwrightLocator(selector: string | undefined, by: string | undefined, root: string = 'page'): string {
+    const value = selector ?? '';
+    // Playwright CSS already pierces open shadow roots, so each host segment scopes the next
+    const parts = shadowParts(selector, by);
+    if (parts) return `${root}${parts.map(part => `.locator(${literal(part)})`).join('')}`;
+    switch ((by || 'css').replace(/[-_\s]/g, '').toLowerCase()) {
+        case 'xpath': return `${root}.locator(${literal(`xpath=${value}`)})`;
+        case 'id': return `${root}.locator(${literal(`[id=${cssString(value)}]`)})`;
+        case 'name': return `${root}.locator(${literal(`[name=${cssString(value)}]`)})`;
+        case 'classname': return `${root}.locator(${literal(`.${value}`)})`;
+        case 'text': return `${root}.getByText(${literal(value)}, { exact: true })`;
+        case 'partialtext': return `${root}.getByText(${literal(value)})`;
+        case 'role': {
+            const { role, name, exact } = parseRole(value);
+            return name === undefined
+                ? `${root}.getByRole(${literal(role)})`
+                : `${root}.getByRole(${literal(role)}, { name: ${literal(name)}, exact: ${exact} })`;
+        }
+        case 'label': return `${root}.getByLabel(${literal(value)})`;
+        case 'placeholder': return `${root}.getByPlaceholder(${literal(value)})`;
+        case 'testid':
+        case 'datatestid': return `${root}.getByTestId(${literal(value)})`;
+        default: return `${root}.locator(${literal(value)})`;
+    }
+}
+
+function waitList(conditions: WaitCondition | WaitCondition[] | undefined): WaitCondition[] {
+    return Array.isArray(conditions) ? conditions : conditions ? [conditions] : [];
+}
+
+function scriptArgs(condition: WaitCondition): string {
+    return (condition.args || []).map(arg => JSON.stringify(arg)).join(', ');
+}
+
+/**
+ * Selenium equivalent of a waitBefore/waitAfter condition. Conditions without one are named in a comment.
+ */
+function seleniumWait(condition: WaitCondition): string[] {
+    const timeout = condition.timeout ?? DEFAULT_TIMEOUT;
+    const gone = condition.state === 'detached' || condition.state === 'hidden';
+    switch (conditionType(condition)) {
+        case 'selector': {
+            const state = condition.state || 'attached';
+            if (state === 'attached') return [`await ${seleniumElement(condition.selector, condition.by, timeout)};`];
+            if (state === 'visible') return [`await driver.wait(until.elementIsVisible(${seleniumElement(condition.selector, condition.by, timeout)}), ${timeout});`];
+            if (state === 'enabled') return [`await driver.wait(until.elementIsEnabled(${seleniumElement(condition.selector, condition.by, timeout)}), ${timeout});`];
+            if (shadowParts(condition.selector, condition.by)) break;
+            const found = `await driver.findElements(${seleniumBy(condition.selector, condition.by)})`;
+            return state === 'detached'
+                ? [`await driver.wait(async () => (${found}).length === 0, ${timeout});`]
+                : [`await driver.wait(async () => !(await Promise.all((${found}).map(el => el.isDisplayed()))).includes(true), ${timeout});`];
+        }
+        case 'text': {
+            if (condition.selector) {
+                if (gone) break;
+                return [`await driver.wait(until.elementTextContains(${seleniumElement(condition.selector, condition.by, timeout)}, ${literal(condition.text)}), ${timeout});`];
+            }
+            const found = `(await driver.executeScript('return document.body.innerText') as string).includes(${literal(condition.text)})`;
+            return [`await driver.wait(async () => ${gone ? `!${found}` : found}, ${timeout});`];
+        }
+        case 'url':
+            return [`await driver.wait(until.urlMatches(new RegExp(${literal(condition.urlPattern)})), ${timeout});`];
+        case 'function': {
+            const args = scriptArgs(condition);
+            return [`await driver.wait(async () => !!(await driver.executeScript(${literal(predicateScript(condition.script ?? ''))}${args ? ', ' + args : ''})), ${timeout});`];
+        }
+    }
+    return [`// Wait not exported: ${describeCondition(condition)}`];
+}
+
+/**
+ * Playwright equivalent of a waitBefore/waitAfter condition, waiting outside any frame as replay does
+ */
+function playwrightWait(condition: WaitCondition): string[] {
+    const timeout = condition.timeout ?? DEFAULT_TIMEOUT;
+    const gone = condition.state === 'detached' || condition.state === 'hidden';
+    switch (conditionType(condition)) {
+        case 'selector': {
+            const locator = `${playwrightLocator(condition.selector, condition.by)}.first()`;
+            return condition.state === 'enabled'
+                ? [`await expect(${locator}).toBeEnabled({ timeout: ${timeout} });`]
+                : [`await ${locator}.waitFor({ state: '${condition.state || 'attached'}', timeout: ${timeout} });`];
+        }
+        case 'text': {
+            const scope = condition.selector ? `${playwrightLocator(condition.selector, condition.by)}.first()` : `page.locator('body')`;
+            return [`await expect(${scope}).${gone ? 'not.' : ''}toContainText(${literal(condition.text)}, { timeout: ${timeout} });`];
+        }
+        case 'url':
+            return [`await page.waitForURL(new RegExp(${literal(condition.urlPattern)}), { timeout: ${timeout} });`];
+        case 'network_idle':
+            return [`await page.waitForLoadState('networkidle', { timeout: ${timeout} });`];
+        case 'function':
+            return [`await page.waitForFunction(([script, args]) => new Function(script)(...args), [${literal(predicateScript(condition.script ?? ''))}, [${scriptArgs(condition)}]] as const, { timeout: ${timeout} });`];
+    }
+    return [`// Wait not exported: ${describeCondition(condition)}`];
+}
+
+function seleniumStep(step: ScenarioStep): string[] {
+    return [
+        ...waitList(step.waitBefore).flatMap(seleniumWait),
+        ...seleniumInFrame(step, seleniumAction(step)),
+        ...waitList(step.waitAfter).flatMap(seleniumWait),
+    ];
+}
+
+function seleniumAction(step: ScenarioStep): string[] {
+    const timeout = step.timeout ?? DEFAULT_TIMEOUT;
+    switch (step.action) {
+        case 'navigate':
+            return [`await driver.get(${literal(step.url)});`];
+        case 'click':
+            return [`await ${seleniumElement(step.selector, step.by, timeout)}.click();`];
+        case 'type':
+            return [
+                '{',
+                `    const input = await ${seleniumElement(step.selector, step.by, timeout)};`,
+                ...(step.append ? [] : ['    await input.clear();']),
+                `    await input.sendKeys(${literal(step.value)});`,
+                '}',
+            ];
+        case 'wait':
+            return [`await driver.sleep(${step.timeout ?? 1000});`];
+        case 'wait_for_page_change':
+            return step.pattern
+                ? [`await driver.wait(until.urlMatches(new RegExp(${literal(step.pattern)})), ${timeout});`]
+                : [`await driver.wait(async () => (await driver.executeScript('return document.readyState')) === 'complete', ${timeout});`];
+        case 'fill_form':
+            return [
+                ...Object.entries(step.fields || {}).flatMap(([name, field]) => [
+                    `// ${name}`,
+                    '{',
+                    `    const field = await ${seleniumElement(field.selector, field.by, timeout)};`,
+                    '    await field.clear();',
+                    `    await field.sendKeys(${literal(field.value)});`,
+                    '}',
+                ]),
+                ...(step.submitAfter
+                    ? [`await ${seleniumElement(step.submitSelector || SUBMIT_SELECTOR, step.submitSelector ? step.submitBy : 'css', timeout)}.click();`]
+                    : []),
+            ];
+        case 'select_option': {
+            const option = step.option || { by: 'text' };
+            const call = option.by === 'index'
+                ? `selectByIndex(${option.index ?? 0})`
+                : option.by === 'value' ? `selectByValue(${literal(option.value)})` : `selectByVisibleText(${literal(option.text)})`;
+            return [`await new Select(await ${seleniumElement(step.selector, step.by, timeout)}).${call};`];
+        }
+        case 'execute_script': {
+            const args = (step.args || []).map(a => literal(a));
+            return [`await driver.executeScript(${literal(step.script)}${args.length ? ', ' + args.join(', ') : ''});`];
+        }
+        case 'screenshot':
+            return [`fs.writeFileSync(${literal(screenshotName(step))}, await driver.takeScreenshot(), 'base64');`];
+        default:
+            return [`// Unsupported step: ${(step as any).action}`];
+    }
+}
+
+function playwrightStep(step: ScenarioStep): string[] {
+    return [
+        ...waitList(step.waitBefore).flatMap(playwrightWait),
+        ...playwrightAction(step),
+        ...waitList(step.waitAfter).flatMap(playwrightWait),
+    ];
+}
+
+function playwrightAction(step: ScenarioStep): string[] {
+    const timeout = step.timeout ?? DEFAULT_TIMEOUT;
+    const root = hasFrame(step.frame) ? playwrightFrame(step.frame) : 'page';
+    switch (step.action) {
+        case 'navigate':
+            return [`await page.goto(${literal(step.url)});`];
+        case 'click':
+            return [`await ${playwrightLocator(step.selector, step.by, root)}.first().click({ timeout: ${timeout} });`];
+        case 'type':
+            if (step.mode === 'native' || step.append) {
+                const locator = `${playwrightLocator(step.selector, step.by, root)}.first()`;
+                return [
+                    ...(step.append ? [] : [`await ${locator}.clear({ timeout: ${timeout} });`]),
+                    `await ${locator}.pressSequentially(${literal(step.value)}, { delay: ${step.delay ?? 0}, timeout: ${timeout} });`,
+                ];
+            }
+            return [`await ${playwrightLocator(step.selector, step.by, root)}.first().fill(${literal(step.value)}, { timeout: ${timeout} });`];
+        case 'wait':
+            return [`await page.waitForTimeout(${step.timeout ?? 1000});`];
+        case 'wait_for_page_change':
+            return step.pattern
+                ? [`await page.waitForURL(new RegExp(${literal(step.pattern)}), { timeout: ${timeout} });`]
+                : [`await page.waitForLoadState('load', { timeout: ${timeout} });`];
+        case 'fill_form':
+            return [
+                ...Object.entries(step.fields || {}).map(([, field]) =>
+                    `await ${playwrightLocator(field.selector, field.by, root)}.first().fill(${literal(field.value)}, { timeout: ${timeout} });`),
+                ...(step.submitAfter
+                    ? [`await ${playwrightLocator(step.submitSelector || SUBMIT_SELECTOR, step.submitSelector ? step.submitBy : 'css', root)}.first().click({ timeout: ${timeout} });`]
+                    : []),
+            ];
+        case 'select_option': {
+            const option = step.option || { by: 'text' };
+            const value = option.by === 'index'
+                ? `{ index: ${option.index ?? 0} }`
+                : option.by === 'value' ? `{ value: ${literal(option.value)} }` : `{ label: ${literal(option.text)} }`;
+            return [`await ${playwrightLocator(step.selector, step.by, root)}.first().selectOption(${value}, { timeout: ${timeout} });`];
+        }
+        case 'execute_script': {
+            const args = (step.args || []).map(a => literal(a));
+            return [
+                '// Script bodies use WebDriver-style arguments[n]',
+                `await page.evaluate(([script, args]) => new Function(script)(...args), [${literal(step.script)}, [${args.join(', ')}]] as const);`,
+            ];
+        }
+        case 'screenshot':
+            return [`await page.screenshot({ path: ${literal(screenshotName(step))} });`];
+        default:
+            return [`// Unsupported step: ${(step as any).action}`];
+    }
+}
+
+function screenshotName(step: ScenarioStep): string {
+    const name = step.filename || `screenshot-${step.timestamp}`;
+    return name.endsWith('.png') ? name : `${name}.png`;
+}
+
+function seleniumExpectations(scenario: Scenario, target: ExportTarget): string[] {
+    const expected = scenario.expectedResult;
+    if (!expected) return [];
+    const jest = target === 'selenium-jest';
+    const lines: string[] = [];
+
+    const compare = (actual: string, value: string) => {
+        const { code, regex } = expectedLiteral(value);
+        if (jest) return `expect(${actual}).${regex ? 'toMatch' : 'toBe'}(${code});`;
+        return regex ? `assert.match(${actual}, ${code});` : `assert.equal(${actual}, ${code});`;
+    };
+
+    if (expected.finalUrl) lines.push(compare('await driver.getCurrentUrl()', expected.finalUrl));
+    if (expected.title) lines.push(compare('await driver.getTitle()', expected.title));
+    if (expected.element) {
+        const count = `(await driver.findElements(By.css(${literal(expected.element)}))).length`;
+        lines.push(jest ? `expect(${count}).toBeGreaterThan(0);` : `assert.ok(${count} > 0, ${literal(`Expected element ${expected.element}`)});`);
+    }
+    return lines.length ? ['', '// Expected result', ...lines] : [];
+}
+
+function playwrightExpectations(scenario: Scenario): string[] {
+    const expected = scenario.expectedResult;
+    if (!expected) return [];
+    const lines: string[] = [];
+    if (expected.finalUrl) lines.push(`await expect(page).toHaveURL(${expectedLiteral(expected.finalUrl).code});`);
+    if (expected.title) lines.push(`await expect(page).toHaveTitle(${expectedLiteral(expected.title).code});`);
+    if (expected.element) lines.push(`await expect(page.locator(${literal(expected.element)}).first()).toBeAttached();`);
+    return lines.length ? ['', '// Expected result', ...lines] : [];
+}
+
+function variablesBlock(scenario: Scenario): string[] {
+    // Derived from the steps, so scenarios saved before variables were tracked still declare them
+    const names = findVariables(scenario.steps);
+    if (names.length === 0) return [];
+    const defaults = scenario.variables || {};
+    return [
+        '// Scenario variables - replace the defaults to run with other data',
+        'const variables: Record<string, string> = {',
+        ...names.map(name => `    ${literal(name)}: ${literal(defaults[name] ?? '')},`),
+        '};',
+        '',
+    ];
+}
+
+function indent(lines: string[], depth: number): string {
+    const pad = ' '.repeat(depth * 4);
+    return lines.map(line => (line ? pad + line : line)).join('\n');
+}
+
+function header(scenario: Scenario): string[] {
+    return [
+        '/**',
+        ` * Generated from scenario ${scenario.scenarioId} (${scenario.name})`,
+        ...(scenario.description ? [` * ${scenario.description}`] : []),
+        ' */',
+    ];
+}
+
+/**
+ * Render a scenario as a standalone test file for the given target
+ */
+export function exportScenario(scenario: Scenario, target: ExportTarget): string {
+    const testName = literal(scenario.description || scenario.name);
+    const suiteName = literal(scenario.name);
+    const usesScreenshot = scenario.steps.some(s => s.action === 'screenshot');
+    const usesSelect = scenario.steps.some(s => s.action === 'select_option');
+
+    if (target === 'playwright') {
+        const body = [...scenario.steps.flatMap(playwrightStep), ...playwrightExpectations(scenario)];
+        return [
+            ...header(scenario),
+            "import { test, expect } from '@playwright/test';",
+            '',
+            ...variablesBlock(scenario),
+            `test(${testName}, async ({ page }) => {`,
+            indent(body, 1),
+            '});',
+            '',
+        ].join('\n');
+    }
+
+    const jest = target === 'selenium-jest';
+    const usesShadow = scenario.steps.some(step =>
+        shadowParts(step.selector, step.by) || shadowParts(step.submitSelector, step.submitBy)
+        || Object.values(step.fields || {}).some(field => shadowParts(field.selector, field.by)));
+    const usesFrame = scenario.steps.some(step => hasFrame(step.frame));
+    const seleniumImports = [
+        'Builder', 'By', ...(usesSelect ? ['Select'] : []), 'until', 'WebDriver',
+        ...(usesShadow || usesFrame ? ['WebElement'] : []), ...(usesShadow ? ['WebElementPromise'] : []),
+    ];
+    const body = [...scenario.steps.flatMap(seleniumStep), ...seleniumExpectations(scenario, target)];
+    const imports = [
+        `import { ${seleniumImports.join(', ')} } from 'selenium-webdriver';`,
+        ...(usesScreenshot ? ["import * as fs from 'fs';"] : []),
+        ...(!jest ? ["import { strict as assert } from 'assert';"] : []),
+    ];
+
+    const suite = jest
+        ? [
+            `describe(${suiteName}, () => {`,
+            '    let driver: WebDriver;',
+            '',
+            '    beforeAll(async () => {',
+            "        driver = await new Builder().forBrowser('chrome').build();",
+            '    }, 60000);',
+            '',
+            '    afterAll(async () => {',
+            '        await driver?.quit();',
+            '    });',
+            '',
+            `    test(${testName}, async () => {`,
+            indent(body, 2),
+            '    }, 120000);',
+            '});',
+        ]
+        : [
+            `describe(${suiteName}, function () {`,
+            '    this.timeout(120000);',
+            '    let driver: WebDriver;',
+            '',
+            '    before(async () => {',
+            "        driver = await new Builder().forBrowser('chrome').build();",
+            '    });',
+            '',
+            '    after(async () => {',
+            '        await driver?.quit();',
+            '    });',
+            '',
+            `    it(${testName}, async () => {`,
+            indent(body, 2),
+            '    });',
+            '});',
+        ];
+
+    return [...header(scenario), ...imports, '', ...variablesBlock(scenario), ...(usesShadow ? FIND_IN_SHADOW : []), ...(usesFrame ? SWITCH_TO_FRAME : []), ...suite, ''].join('\n');
+}
+
+/**
+ * File name for an exported scenario, following each runner's default test file pattern
+ */
+export function exportFileName(scenario: Scenario, target: ExportTarget): string {
+    const slug = (scenario.name || scenario.scenarioId).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || scenario.scenarioId;
+    return target === 'selenium-jest' ? `${slug}.test.ts` : `${slug}.spec.ts`;
+}
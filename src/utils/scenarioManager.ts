@@ -0,0 +1,148 @@
+import { Scenario, ScenarioStep } from '../common/types.js';
+import { Logger } from './logger.js';
+import { getScenariosDir } from './projectDir.js';
+import { findVariables } from './scenarioVariables.js';
+import * as fs from 'fs';
+import * as path from 'path';
+
+interface ActiveRecording {
+    scenario: Scenario;
+    startedAt: number;
+}
+
+export class ScenarioManager {
+    private logger: Logger;
+    private recordings: Map<string, ActiveRecording> = new Map();
+
+    constructor(logger: Logger) {
+        this.logger = logger;
+    }
+
+    startRecording(browserId: string, sessionId: string, name: string, description?: string): Scenario {
+        if (this.recordings.has(browserId)) {
+            throw new Error(`Browser '${browserId}' is already recording`);
+        }
+
+        const now = Date.now();
+        const scenario: Scenario = {
+            scenarioId: `scenario-${now}`,
+            name,
+            sessionId,
+            description,
+            steps: [],
+            metadata: {
+                totalSteps: 0,
+                duration: 0,
+                createdAt: new Date(now).toISOString(),
+                lastModified: new Date(now).toISOString(),
+                variablesUsed: [],
+            },
+        };
+
+        this.recordings.set(browserId, { scenario, startedAt: now });
+        this.logger.info('Scenario recording started', { browserId, scenarioId: scenario.scenarioId, name });
+        return scenario;
+    }
+
+    isRecording(browserId: string): boolean {
+        return this.recordings.has(browserId);
+    }
+
+    /**
+     * Capture a successful tool call into the active recording for its browserId.
+     * Calls for browsers that are not recording, and tools that have no step equivalent, are ignored.
+     * Actions located by ref are recorded with the selector reported in the result data, since refs do not survive a reload.
+     */
+    recordToolCall(toolName: string, args: any, data?: any) {
+        const recording = args?.browserId ? this.recordings.get(args.browserId) : undefined;
+        if (!recording) return;
+
+        const step = this.toolCallToStep(toolName, args?.ref && data?.selector ? { ...args, selector: data.selector, by: 'css' } : args);
+        if (!step) return;
+
+        recording.scenario.steps.push(step);
+        recording.scenario.metadata.totalSteps = recording.scenario.steps.length;
+        this.logger.debug('Scenario step recorded', { browserId: args.browserId, action: step.action });
+    }
+
+    async stopRecording(browserId: string, expectedResult?: Scenario['expectedResult']): Promise<{ scenario: Scenario; filePath: string }> {
+        const recording = this.recordings.get(browserId);
+        if (!recording) {
+            throw new Error(`Browser '${browserId}' is not recording`);
+        }
+        this.recordings.delete(browserId);
+
+        const { scenario, startedAt } = recording;
+        const now = Date.now();
+        scenario.metadata.totalSteps = scenario.steps.length;
+        scenario.metadata.duration = (now - startedAt) / 1000;
+        scenario.metadata.lastModified = new Date(now).toISOString();
+        if (expectedResult) {
+            scenario.expectedResult = expectedResult;
+        }
+
+        const filePath = await this.saveScenario(scenario);
+        this.logger.info('Scenario recording stopped', { browserId, scenarioId: scenario.scenarioId, steps: scenario.steps.length, filePath });
+        return { scenario, filePath };
+    }
+
+    async saveScenario(scenario: Scenario, providedProjectDir?: string): Promise<string> {
+        const scenariosDir = getScenariosDir(providedProjectDir);
+        if (!fs.existsSync(scenariosDir)) {
+            fs.mkdirSync(scenariosDir, { recursive: true });
+        }
+        scenario.metadata.variablesUsed = findVariables(scenario.steps);
+        const filePath = path.join(scenariosDir, `${scenario.scenarioId}.json`);
+        await fs.promises.writeFile(filePath, JSON.stringify(scenario, null, 2));
+        return filePath;
+    }
+
+    /**
+     * Load a scenario by scenarioId, falling back to a match on name
+     */
+    async loadScenario(idOrName: string, providedProjectDir?: string): Promise<Scenario | null> {
+        const scenarios = await this.listScenarios(providedProjectDir);
+        return scenarios.find(s => s.scenarioId === idOrName) || scenarios.find(s => s.name === idOrName) || null;
+    }
+
+    async listScenarios(providedProjectDir?: string): Promise<Scenario[]> {
+        const scenariosDir = getScenariosDir(providedProjectDir);
+        if (!fs.existsSync(scenariosDir)) {
+            return [];
+        }
+
+        const scenarios: Scenario[] = [];
+        for (const file of fs.readdirSync(scenariosDir)) {
+            if (!file.endsWith('.json')) continue;
+            try {
+                const content = await fs.promises.readFile(path.join(scenariosDir, file), 'utf8');
+                scenarios.push(JSON.parse(content));
+            } catch (error) {
+                this.logger.warn('Failed to read scenario file', { file, error: error instanceof Error ? error.message : String(error) });
+            }
+        }
+        return scenarios;
+    }
+
+    private toolCallToStep(toolName: string, args: any): ScenarioStep | null {
+        const timestamp = Date.now();
+        switch (toolName) {
+            case 'navigate_to':
+                return { action: 'navigate', url: args.url, waitBefore: args.waitBefore, waitAfter: args.waitAfter, timestamp };
+            case 'click_element':
+                return { action: 'click', selector: args.selector, by: args.by, frame: args.frame, mode: args.mode, force: args.force, timeout: args.timeout, waitBefore: args.waitBefore, waitAfter: args.waitAfter, timestamp };
+            case 'type_text':
+                return { action: 'type', selector: args.selector, by: args.by, value: args.text, frame: args.frame, mode: args.mode, append: args.append, delay: args.delay, force: args.force, timeout: args.timeout, waitBefore: args.waitBefore, waitAfter: args.waitAfter, timestamp };
+            case 'take_screenshot':
+                return { action: 'screenshot', filename: args.filename, timestamp };
+            case 'fill_form':
+                return { action: 'fill_form', fields: args.fields, submitAfter: args.submitAfter, submitSelector: args.submitSelector, submitBy: args.submitBy, timestamp };
+            case 'select_option':
+                return { action: 'select_option', selector: args.selector, by: args.by, frame: args.frame, option: args.option, timestamp };
+            case 'wait_for_page_change':
+                return { action: 'wait_for_page_change', pattern: args.toUrlPattern, timeout: args.timeout, timestamp };
+            default:
+                return null;
+        }
+    }
+}
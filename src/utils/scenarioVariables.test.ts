@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findVariables, parseCsv, resolveStepVariables } from './scenarioVariables.js';
+import { ScenarioStep } from '../common/types.js';
+
+test('parseCsv reads a header row and records', () => {
+    assert.deepEqual(parseCsv('user,password\nalice,secret\nbob,hunter2\n'), [
+        { user: 'alice', password: 'secret' },
+        { user: 'bob', password: 'hunter2' },
+    ]);
+});
+
+test('parseCsv handles quotes, escaped quotes, separators and newlines inside cells', () => {
+    assert.deepEqual(parseCsv('name,note\r\n"Smith, Jane","said ""hi""\nthen left"\r\n'), [
+        { name: 'Smith, Jane', note: 'said "hi"\nthen left' },
+    ]);
+});
+
+test('parseCsv skips blank rows and fills missing cells', () => {
+    assert.deepEqual(parseCsv('\n a , b \n\n1\n,\n2,3\n'), [
+        { a: '1', b: '' },
+        { a: '2', b: '3' },
+    ]);
+});
+
+test('parseCsv strips a leading byte order mark', () => {
+    assert.deepEqual(parseCsv('\uFEFFuser,password\nalice,secret\n'), [{ user: 'alice', password: 'secret' }]);
+});
+
+test('parseCsv returns nothing for empty input', () => {
+    assert.deepEqual(parseCsv(''), []);
+    assert.deepEqual(parseCsv('a,b\n'), []);
+});
+
+test('findVariables lists each placeholder once', () => {
+    const steps: ScenarioStep[] = [
+        { action: 'navigate', url: 'https://example.com/{{ env }}/login', timestamp: 1 },
+        { action: 'type', selector: '#user', value: '{{user}}', timestamp: 2 },
+        { action: 'fill_form', fields: { pass: { selector: '[name={{field}}]', value: '{{password}}' } }, timestamp: 3 },
+        { action: 'type', selector: '#again', value: '{{user}}', timestamp: 4 },
+    ];
+    assert.deepEqual(findVariables(steps), ['env', 'user', 'field', 'password']);
+});
+
+test('resolveStepVariables substitutes known values and reports missing ones', () => {
+    const step: ScenarioStep = { action: 'type', selector: '#{{id}}', value: '{{user}} / {{unknown}}', timestamp: 1 };
+    const { step: resolved, missing } = resolveStepVariables(step, { id: 'login', user: 'alice' });
+    assert.equal(resolved.selector, '#login');
+    assert.equal(resolved.value, 'alice / {{unknown}}');
+    assert.deepEqual(missing, ['unknown']);
+    assert.equal(step.value, '{{user}} / {{unknown}}');
+});
+
+test('resolveStepVariables substitutes inside fill_form fields', () => {
+    const step: ScenarioStep = { action: 'fill_form', fields: { email: { selector: '#email', value: '{{email}}' } }, timestamp: 1 };
+    const { step: resolved, missing } = resolveStepVariables(step, { email: 'a@example.com' });
+    assert.deepEqual(resolved.fields, { email: { selector: '#email', value: 'a@example.com' } });
+    assert.deepEqual(missing, []);
+});
+
+test('resolveStepVariables keeps the locator strategy of fill_form fields', () => {
+    const step: ScenarioStep = { action: 'fill_form', fields: { email: { selector: '{{label}}', value: 'x', by: 'label' } }, timestamp: 1 };
+    const { step: resolved } = resolveStepVariables(step, { label: 'Email' });
+    assert.deepEqual(resolved.fields, { email: { selector: 'Email', value: 'x', by: 'label' } });
+});
@@ -0,0 +1,142 @@
+import { ScenarioStep } from '../common/types.js';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+function substitute(text: string, variables: Record<string, string>, missing: Set<string>): string {
+    return text.replace(PLACEHOLDER_PATTERN, (match, name) => {
+        if (Object.prototype.hasOwnProperty.call(variables, name)) {
+            return variables[name];
+        }
+        missing.add(name);
+        return match;
+    });
+}
+
+function collect(text: string | undefined, found: Set<string>) {
+    if (!text) return;
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+        found.add(match[1]);
+    }
+}
+
+/**
+ * List every {{name}} placeholder used by the substitutable fields of the given steps
+ */
+export function findVariables(steps: ScenarioStep[]): string[] {
+    const found = new Set<string>();
+    for (const step of steps) {
+        collect(step.url, found);
+        collect(step.value, found);
+        collect(step.selector, found);
+        for (const field of Object.values(step.fields || {})) {
+            collect(field.selector, found);
+            collect(field.value, found);
+        }
+    }
+    return Array.from(found);
+}
+
+/**
+ * Return a copy of the step with {{name}} placeholders in url, value, selector and fields replaced.
+ * Placeholders without a value are left untouched and reported in `missing`.
+ */
+export function resolveStepVariables(step: ScenarioStep, variables: Record<string, string>): { step: ScenarioStep; missing: string[] } {
+    const missing = new Set<string>();
+    const resolved: ScenarioStep = { ...step };
+
+    if (step.url !== undefined) resolved.url = substitute(step.url, variables, missing);
+    if (step.value !== undefined) resolved.value = substitute(step.value, variables, missing);
+    if (step.selector !== undefined) resolved.selector = substitute(step.selector, variables, missing);
+    if (step.fields) {
+        resolved.fields = {};
+        for (const [name, field] of Object.entries(step.fields)) {
+            resolved.fields[name] = {
+                ...field,
+                selector: substitute(field.selector, variables, missing),
+                value: substitute(field.value, variables, missing),
+            };
+        }
+    }
+
+    return { step: resolved, missing: Array.from(missing) };
+}
+
+/**
+ * Records from CSV text: RFC 4180 quoting, CRLF or LF line ends, the first non-empty row as header
+ */
+export function parseCsv(content: string): Record<string, string>[] {
+    // Spreadsheet exports often start with a byte order mark, which would end up in the first header
+    if (content.charCodeAt(0) === 0xfeff) content = content.slice(1);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    const nonEmpty = rows.filter(r => r.some(c => c.trim() !== ''));
+    if (nonEmpty.length === 0) return [];
+
+    const headers = nonEmpty[0].map(h => h.trim());
+    return nonEmpty.slice(1).map(values => {
+        const record: Record<string, string> = {};
+        headers.forEach((header, index) => {
+            record[header] = values[index] ?? '';
+        });
+        return record;
+    });
+}
+
+/**
+ * Load a dataset of variable rows from a local CSV (header row required) or JSON (array of objects) file
+ */
+export async function loadDataset(datasetPath: string): Promise<Record<string, string>[]> {
+    const content = await fs.promises.readFile(datasetPath, 'utf8');
+
+    if (path.extname(datasetPath).toLowerCase() === '.json') {
+        const parsed = JSON.parse(content);
+        if (!Array.isArray(parsed)) {
+            throw new Error('JSON dataset must be an array of objects');
+        }
+        return parsed.map((item: any) => {
+            const record: Record<string, string> = {};
+            for (const [key, value] of Object.entries(item || {})) {
+                record[key] = value === null || value === undefined ? '' : String(value);
+            }
+            return record;
+        });
+    }
+
+    return parseCsv(content);
+}
@@ -0,0 +1,139 @@
+import { WebDriver, WebElement } from 'selenium-webdriver';
+import { sendCdp } from './cdp.js';
+import { locateAll } from './locator.js';
+
+export type ImageFormat = 'png' | 'jpeg';
+
+export interface MaskTarget {
+    selector: string;
+    by?: string;
+}
+
+export interface CaptureOptions {
+    format?: ImageFormat;
+    quality?: number;
+    maxDimension?: number;
+    fullPage?: boolean;
+    element?: WebElement;
+    mask?: Array<string | MaskTarget>;
+}
+
+export interface CapturedImage {
+    data: string;
+    mimeType: string;
+    format: ImageFormat;
+    masked?: number;
+}
+
+export const DEFAULT_JPEG_QUALITY = 80;
+
+const MASK_ID = '__mcp-screenshot-mask';
+
+/**
+ * Runs in the page. Covers each element with an opaque box positioned in document coordinates,
+ * so masks stay in place in full-page captures too.
+ */
+const MASK_SCRIPT = `
+const elements = arguments[0];
+const layer = document.createElement('div');
+layer.id = '${MASK_ID}';
+layer.style.cssText = 'position:absolute;left:0;top:0;width:0;height:0;pointer-events:none;z-index:2147483647;';
+for (const el of elements) {
+    const rect = el.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) continue;
+    const box = document.createElement('div');
+    box.style.cssText = 'position:absolute;background:#000;left:' + (rect.left + scrollX) + 'px;top:' + (rect.top + scrollY) + 'px;width:' + rect.width + 'px;height:' + rect.height + 'px;';
+    layer.appendChild(box);
+}
+document.documentElement.appendChild(layer);
+return layer.childElementCount;
+`;
+
+const UNMASK_SCRIPT = `document.getElementById('${MASK_ID}')?.remove();`;
+
+interface Area {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    dpr: number;
+}
+
+const VIEWPORT_SCRIPT = `
+return { x: scrollX, y: scrollY, width: innerWidth, height: innerHeight, dpr: devicePixelRatio || 1 };
+`;
+
+const FULL_PAGE_SCRIPT = `
+const doc = document.documentElement;
+const body = document.body || doc;
+return {
+    x: 0, y: 0,
+    width: Math.max(doc.scrollWidth, body.scrollWidth, doc.clientWidth),
+    height: Math.max(doc.scrollHeight, body.scrollHeight, doc.clientHeight),
+    dpr: devicePixelRatio || 1,
+};
+`;
+
+const ELEMENT_SCRIPT = `
+const el = arguments[0];
+el.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+const rect = el.getBoundingClientRect();
+return { x: rect.left + scrollX, y: rect.top + scrollY, width: rect.width, height: rect.height, dpr: devicePixelRatio || 1 };
+`;
+
+/**
+ * Black out the elements matching the mask selectors; returns how many boxes were drawn
+ */
+async function applyMask(driver: WebDriver, mask: Array<string | MaskTarget>): Promise<number> {
+    const elements: WebElement[] = [];
+    for (const target of mask) {
+        const { selector, by } = typeof target === 'string' ? { selector: target, by: undefined } : target;
+        const { elements: found } = await locateAll(driver, selector, by);
+        elements.push(...found);
+    }
+    return await driver.executeScript(MASK_SCRIPT, elements) as number;
+}
+
+/**
+ * Capture the viewport, the whole page or one element.
+ * Plain PNGs of the viewport or an element use WebDriver; JPEG, downscaling and full pages go through
+ * CDP Page.captureScreenshot, whose clip scale shrinks the image so its longest side is at most maxDimension pixels.
+ */
+export async function captureScreenshot(driver: WebDriver, options: CaptureOptions = {}): Promise<CapturedImage> {
+    const format = options.format === 'jpeg' ? 'jpeg' : 'png';
+    const mimeType = `image/${format}`;
+
+    let masked: number | undefined;
+    try {
+        if (options.mask?.length) {
+            masked = await applyMask(driver, options.mask);
+        }
+
+        if (format === 'png' && !options.maxDimension && !options.fullPage) {
+            const data = options.element ? await options.element.takeScreenshot(true) : await driver.takeScreenshot();
+            return { data, mimeType, format, masked };
+        }
+
+        const area = options.element
+            ? await driver.executeScript(ELEMENT_SCRIPT, options.element) as Area
+            : await driver.executeScript(options.fullPage ? FULL_PAGE_SCRIPT : VIEWPORT_SCRIPT) as Area;
+        if (area.width === 0 || area.height === 0) {
+            throw new Error('Nothing to capture: the element has no size');
+        }
+        const longest = Math.max(area.width, area.height) * area.dpr;
+        const scale = options.maxDimension && longest > options.maxDimension ? options.maxDimension / longest : 1;
+
+        const result = await sendCdp<{ data: string }>(driver, 'Page.captureScreenshot', {
+            format,
+            ...(format === 'jpeg' ? { quality: Math.max(0, Math.min(100, Math.round(options.quality ?? DEFAULT_JPEG_QUALITY))) } : {}),
+            clip: { x: area.x, y: area.y, width: area.width, height: area.height, scale },
+            // Renders content outside the viewport instead of clipping it, for full pages and tall elements
+            captureBeyondViewport: !!options.fullPage || !!options.element,
+        });
+        return { data: result.data, mimeType, format, masked };
+    } finally {
+        if (masked !== undefined) {
+            await driver.executeScript(UNMASK_SCRIPT).catch(() => undefined);
+        }
+    }
+}
@@ -0,0 +1,93 @@
+import { WebDriver } from 'selenium-webdriver';
+import { PAGE_HELPERS } from './locator.js';
+
+export interface Mark {
+    mark: number;
+    ref: string;
+    tag: string;
+    role: string;
+    text: string;
+    selector: string;
+    box: { x: number; y: number; width: number; height: number };
+}
+
+const OVERLAY_ID = '__mcp-set-of-marks';
+const DEFAULT_MAX_MARKS = 100;
+
+/**
+ * Runs in the page. Numbers the interactive elements that can be hit in the viewport (the same notion of
+ * interactive as get_page_elements), draws a box and label over each, and returns the legend.
+ */
+const MARK_SCRIPT = `
+const maxMarks = arguments[0];
+const pierceShadow = arguments[1];
+${PAGE_HELPERS}
+// Only elements whose centre is actually theirs, so every mark can be clicked
+const hittable = (el, rect) => {
+    const x = rect.left + rect.width / 2;
+    const y = rect.top + rect.height / 2;
+    if (x < 0 || y < 0 || x >= innerWidth || y >= innerHeight) return false;
+    const root = el.getRootNode();
+    let hit = (root.elementFromPoint ? root : document).elementFromPoint(x, y);
+    while (hit && hit !== el) hit = hit.parentElement || (hit.getRootNode() instanceof ShadowRoot ? hit.getRootNode().host : null);
+    return !!hit;
+};
+
+const candidates = [];
+const visit = scope => {
+    for (const el of scope.querySelectorAll('*')) {
+        if (isInteractive(el)) candidates.push(el);
+        if (pierceShadow && el.shadowRoot) visit(el.shadowRoot);
+    }
+};
+visit(document);
+
+const marks = [];
+for (const el of candidates) {
+    if (marks.length >= maxMarks) break;
+    const rect = el.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0 || getComputedStyle(el).visibility === 'hidden' || !hittable(el, rect)) continue;
+    marks.push({
+        mark: marks.length + 1,
+        ref: refFor(el),
+        tag: el.tagName.toLowerCase(),
+        role: roleOf(el) || '',
+        text: (el.getAttribute('aria-label') || el.innerText || el.value || el.getAttribute('placeholder') || el.getAttribute('title') || '').replace(/\\s+/g, ' ').trim().slice(0, 60),
+        selector: selectorOf(el),
+        box: { x: Math.round(rect.left), y: Math.round(rect.top), width: Math.round(rect.width), height: Math.round(rect.height) },
+    });
+}
+
+const overlay = document.createElement('div');
+overlay.id = '${OVERLAY_ID}';
+overlay.style.cssText = 'position:fixed;inset:0;pointer-events:none;z-index:2147483647;';
+const colors = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#008080', '#f032e6', '#9a6324'];
+for (const m of marks) {
+    const color = colors[(m.mark - 1) % colors.length];
+    const box = document.createElement('div');
+    box.style.cssText = 'position:fixed;box-sizing:border-box;border:2px solid ' + color + ';left:' + m.box.x + 'px;top:' + m.box.y + 'px;width:' + m.box.width + 'px;height:' + m.box.height + 'px;';
+    const label = document.createElement('div');
+    label.textContent = String(m.mark);
+    label.style.cssText = 'position:fixed;background:' + color + ';color:#fff;font:bold 11px/14px monospace;padding:0 3px;border-radius:2px;' +
+        'left:' + Math.max(0, m.box.x) + 'px;top:' + (m.box.y >= 14 ? m.box.y - 14 : m.box.y) + 'px;';
+    overlay.appendChild(box);
+    overlay.appendChild(label);
+}
+document.documentElement.appendChild(overlay);
+return marks;
+`;
+
+const CLEAR_SCRIPT = `document.getElementById('${OVERLAY_ID}')?.remove();`;
+
+/**
+ * Draw numbered marks over the interactive elements in the viewport and return the legend.
+ * The overlay stays until clearMarks is called.
+ */
+export async function drawMarks(driver: WebDriver, maxMarks: number = DEFAULT_MAX_MARKS, pierceShadow: boolean = true): Promise<Mark[]> {
+    await clearMarks(driver);
+    return await driver.executeScript(MARK_SCRIPT, maxMarks, pierceShadow) as Mark[];
+}
+
+export async function clearMarks(driver: WebDriver): Promise<void> {
+    await driver.executeScript(CLEAR_SCRIPT);
+}
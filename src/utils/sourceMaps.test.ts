@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeVlq, originalPositionFor, parseSourceMap, SourceMapResolver } from './sourceMaps.js';
+
+test('decodeVlq decodes known segments', () => {
+    assert.deepEqual(decodeVlq('A'), [0]);
+    assert.deepEqual(decodeVlq('C'), [1]);
+    assert.deepEqual(decodeVlq('D'), [-1]);
+    assert.deepEqual(decodeVlq('gB'), [16]);
+    assert.deepEqual(decodeVlq('hB'), [-16]);
+    assert.deepEqual(decodeVlq('AAgBC'), [0, 0, 16, 1]);
+    assert.deepEqual(decodeVlq('2Hw+BC'), [123, 1000, 1]);
+});
+
+test('decodeVlq rejects characters outside base64', () => {
+    assert.throws(() => decodeVlq('A*'), /Invalid VLQ character/);
+});
+
+// Generated line 1 maps to original line 1; line 2 has segments at columns 0 and 2 on original line 2
+const MAP = {
+    version: 3,
+    sources: ['app.ts'],
+    sourceRoot: 'src',
+    names: ['start'],
+    mappings: 'AAAAA;AACA,EAAE',
+};
+
+test('parseSourceMap resolves sources against the map URL and sourceRoot', () => {
+    const map = parseSourceMap(MAP, 'https://example.com/assets/app.js.map');
+    assert.deepEqual(map.sources, ['https://example.com/assets/src/app.ts']);
+});
+
+test('originalPositionFor finds the last segment at or before the column', () => {
+    const map = parseSourceMap(MAP, 'https://example.com/app.js.map');
+    assert.deepEqual(originalPositionFor(map, 0, 5), { source: 'https://example.com/src/app.ts', line: 1, column: 1, name: 'start' });
+    assert.deepEqual(originalPositionFor(map, 1, 1), { source: 'https://example.com/src/app.ts', line: 2, column: 1 });
+    assert.deepEqual(originalPositionFor(map, 1, 7), { source: 'https://example.com/src/app.ts', line: 2, column: 3 });
+    assert.equal(originalPositionFor(map, 5, 0), null);
+});
+
+test('parseSourceMap rejects unsupported maps', () => {
+    assert.throws(() => parseSourceMap({ version: 3, sections: [] }, 'https://example.com/a.map'), /Unsupported source map/);
+});
+
+test('SourceMapResolver follows sourceMappingURL, inline data URLs included', async () => {
+    const inline = `data:application/json;base64,${Buffer.from(JSON.stringify(MAP)).toString('base64')}`;
+    const files: Record<string, string> = {
+        'https://example.com/linked.js': 'x()\n//# sourceMappingURL=linked.js.map',
+        'https://example.com/linked.js.map': JSON.stringify({ ...MAP, sourceRoot: '' }),
+        'https://example.com/inline.js': `x()\n//# sourceMappingURL=${inline}`,
+        'https://example.com/plain.js': 'x()',
+    };
+    const resolver = new SourceMapResolver(async url => files[url]);
+    assert.deepEqual(await resolver.resolve('https://example.com/linked.js', 1, 2), { source: 'https://example.com/app.ts', line: 2, column: 3 });
+    assert.deepEqual(await resolver.resolve('https://example.com/inline.js', 1, 2), { source: 'https://example.com/src/app.ts', line: 2, column: 3 });
+    assert.equal(await resolver.resolve('https://example.com/plain.js', 0, 0), null);
+});
+
+test('SourceMapResolver retries scripts whose map failed to load', async () => {
+    let available = false;
+    const loader = async (url: string) => {
+        if (!available) throw new Error('ECONNREFUSED');
+        return url.endsWith('.map') ? JSON.stringify({ ...MAP, sourceRoot: '' }) : 'x()\n//# sourceMappingURL=app.js.map';
+    };
+    const retrying = new SourceMapResolver(loader, 0);
+    assert.equal(await retrying.resolve('https://example.com/app.js', 1, 2), null);
+    available = true;
+    assert.deepEqual(await retrying.resolve('https://example.com/app.js', 1, 2), { source: 'https://example.com/app.ts', line: 2, column: 3 });
+
+    available = false;
+    const waiting = new SourceMapResolver(loader);
+    assert.equal(await waiting.resolve('https://example.com/app.js', 1, 2), null);
+    available = true;
+    assert.equal(await waiting.resolve('https://example.com/app.js', 1, 2), null);
+});
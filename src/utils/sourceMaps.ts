@@ -0,0 +1,170 @@
+/**
+ * Source map (v3) lookup for stack frames: finds the map a script points to with sourceMappingURL,
+ * decodes its VLQ mappings and translates generated positions back to original file:line:column.
+ */
+
+export interface OriginalPosition {
+    source: string;
+    line: number; // 1-based
+    column: number; // 1-based
+    name?: string;
+}
+
+// One decoded mapping segment: generated column, source index, original line, original column, name index
+type Segment = [number, number, number, number, number | undefined];
+
+interface ParsedSourceMap {
+    sources: string[];
+    names: string[];
+    lines: Segment[][]; // Indexed by generated line, segments sorted by generated column
+}
+
+/**
+ * Fetches script and map text. The default goes over the network from the server process; callers can
+ * supply one that reads bodies the browser already downloaded.
+ */
+export type TextLoader = (url: string) => Promise<string | undefined>;
+
+const FETCH_TIMEOUT = 5000;
+// Scripts whose map could not be loaded are tried again after this long
+const RETRY_FAILED_AFTER = 30000;
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map([...BASE64].map((char, index) => [char, index]));
+
+export async function fetchText(url: string): Promise<string | undefined> {
+    if (!/^https?:/i.test(url)) return undefined;
+    try {
+        const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT) });
+        return response.ok ? await response.text() : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Signed values of one base64 VLQ mapping segment
+ */
+export function decodeVlq(segment: string): number[] {
+    const values: number[] = [];
+    let value = 0;
+    let shift = 0;
+    for (const char of segment) {
+        const digit = BASE64_VALUES.get(char);
+        if (digit === undefined) throw new Error(`Invalid VLQ character '${char}'`);
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+            shift += 5;
+        } else {
+            values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+            value = 0;
+            shift = 0;
+        }
+    }
+    return values;
+}
+
+export function parseSourceMap(json: any, mapUrl: string): ParsedSourceMap {
+    if (json.version !== 3 || typeof json.mappings !== 'string') {
+        throw new Error('Unsupported source map (only version 3 maps without sections)');
+    }
+    const root = json.sourceRoot ? String(json.sourceRoot).replace(/\/?$/, '/') : '';
+    const sources = (json.sources || []).map((source: string) => {
+        try {
+            return new URL(root + source, mapUrl).toString();
+        } catch {
+            return root + source;
+        }
+    });
+
+    // Source, original line/column and name fields are deltas that carry across lines
+    let source = 0;
+    let originalLine = 0;
+    let originalColumn = 0;
+    let name = 0;
+    const lines: Segment[][] = json.mappings.split(';').map((line: string) => {
+        let generatedColumn = 0;
+        const segments: Segment[] = [];
+        for (const raw of line.split(',')) {
+            if (!raw) continue;
+            const fields = decodeVlq(raw);
+            generatedColumn += fields[0];
+            if (fields.length < 4) continue;
+            source += fields[1];
+            originalLine += fields[2];
+            originalColumn += fields[3];
+            if (fields.length > 4) name += fields[4];
+            segments.push([generatedColumn, source, originalLine, originalColumn, fields.length > 4 ? name : undefined]);
+        }
+        return segments.sort((a, b) => a[0] - b[0]);
+    });
+    return { sources, names: json.names || [], lines };
+}
+
+/**
+ * Position in the original source for a 0-based generated line and column, as CDP reports them
+ */
+export function originalPositionFor(map: ParsedSourceMap, line: number, column: number): OriginalPosition | null {
+    const segments = map.lines[line];
+    if (!segments || segments.length === 0) return null;
+    // Last segment starting at or before the column
+    let low = 0;
+    let high = segments.length - 1;
+    let found = -1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (segments[mid][0] <= column) {
+            found = mid;
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+    if (found < 0) return null;
+    const [, source, originalLine, originalColumn, name] = segments[found];
+    return {
+        source: map.sources[source],
+        line: originalLine + 1,
+        column: originalColumn + 1,
+        ...(name !== undefined && map.names[name] ? { name: map.names[name] } : {}),
+    };
+}
+
+export class SourceMapResolver {
+    private maps: Map<string, { map: Promise<ParsedSourceMap | null>; loadedAt: number }> = new Map();
+
+    constructor(private loadText: TextLoader = fetchText, private retryAfter: number = RETRY_FAILED_AFTER) {}
+
+    async resolve(scriptUrl: string, line: number, column: number): Promise<OriginalPosition | null> {
+        if (!scriptUrl) return null;
+        let cached = this.maps.get(scriptUrl);
+        // Failed loads (server still starting, network blip) are only remembered for a short while
+        if (!cached || ((await cached.map) === null && Date.now() - cached.loadedAt >= this.retryAfter)) {
+            cached = { map: this.load(scriptUrl), loadedAt: Date.now() };
+            this.maps.set(scriptUrl, cached);
+        }
+        const map = await cached.map;
+        return map ? originalPositionFor(map, line, column) : null;
+    }
+
+    private async load(scriptUrl: string): Promise<ParsedSourceMap | null> {
+        try {
+            const script = await this.loadText(scriptUrl);
+            if (!script) return null;
+            const matches = [...script.matchAll(/[#@]\s*sourceMappingURL=(\S+)/g)];
+            const reference = matches.length ? matches[matches.length - 1][1] : null;
+            if (!reference) return null;
+
+            if (reference.startsWith('data:')) {
+                const [header, payload] = reference.split(',', 2);
+                const text = header.includes(';base64') ? Buffer.from(payload, 'base64').toString('utf8') : decodeURIComponent(payload);
+                return parseSourceMap(JSON.parse(text), scriptUrl);
+            }
+            const mapUrl = new URL(reference, scriptUrl).toString();
+            const text = await this.loadText(mapUrl);
+            return text ? parseSourceMap(JSON.parse(text), mapUrl) : null;
+        } catch {
+            // Missing, unreachable or malformed maps leave the generated positions as they are
+            return null;
+        }
+    }
+}
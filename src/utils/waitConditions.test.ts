@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebDriver } from 'selenium-webdriver';
+import { waitForCondition } from './waitConditions.js';
+import { NetworkCollector, NetworkEntry } from './networkCollector.js';
+
+// The in-page tracker reports a quiet page: it never saw requests started before it was installed
+const quietPage = { executeScript: async () => ({ readyState: 'complete', pending: 0, idleFor: 1000 }) } as unknown as WebDriver;
+
+function collector(entries: Array<Partial<NetworkEntry>>): NetworkCollector {
+    return { isRunning: true, list: () => entries } as unknown as NetworkCollector;
+}
+
+test('network_idle waits for requests already in flight when capture is running', async () => {
+    const request: Partial<NetworkEntry> = { requestId: 'r1', type: 'Fetch', finished: false };
+    const network = collector([request, { requestId: 'r2', type: 'Image', finished: false }]);
+    setTimeout(() => { request.finished = true; }, 250);
+
+    const result = await waitForCondition(quietPage, { type: 'network_idle' }, 2000, network);
+    assert.equal(result.success, true);
+    assert.ok(result.data.elapsed >= 200);
+    assert.equal(result.data.detail.earlierPending, 0);
+});
+
+test('network_idle relies on the in-page tracker without a collector', async () => {
+    const result = await waitForCondition(quietPage, { type: 'network_idle' }, 2000);
+    assert.equal(result.success, true);
+    assert.equal(result.data.detail.earlierPending, undefined);
+});
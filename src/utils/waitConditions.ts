@@ -0,0 +1,367 @@
+import { WebDriver } from 'selenium-webdriver';
+import { isPermanentFailure, locateAll, LOCATOR_STRATEGIES, LOCATOR_DESCRIPTION } from './locator.js';
+import { checkElement } from './actionability.js';
+import { NetworkCollector } from './networkCollector.js';
+
+export type WaitConditionType = 'selector' | 'text' | 'url' | 'network_idle' | 'dom_stable' | 'function';
+export type SelectorState = 'attached' | 'detached' | 'visible' | 'hidden' | 'enabled';
+
+export const WAIT_CONDITION_TYPES: WaitConditionType[] = ['selector', 'text', 'url', 'network_idle', 'dom_stable', 'function'];
+export const SELECTOR_STATES: SelectorState[] = ['attached', 'detached', 'visible', 'hidden', 'enabled'];
+
+export interface WaitCondition {
+    type?: WaitConditionType;
+    selector?: string;
+    by?: string;
+    state?: SelectorState;
+    text?: string;
+    urlPattern?: string;
+    idleTime?: number;
+    script?: string;
+    args?: any[];
+    timeout?: number;
+}
+
+export interface WaitResult {
+    success: boolean;
+    message: string;
+    data: { type: WaitConditionType | null; condition: string; elapsed: number; detail?: any };
+}
+
+const DEFAULT_TIMEOUT = 10000;
+const DEFAULT_IDLE_TIME = 500;
+const POLL_INTERVAL = 100;
+
+/**
+ * JSON schema for one condition, shared by wait_for and the waitBefore/waitAfter options of other tools
+ */
+export const WAIT_CONDITION_SCHEMA = {
+    type: 'object',
+    properties: {
+        type: {
+            type: 'string',
+            enum: WAIT_CONDITION_TYPES,
+            description: 'Condition to wait for. Inferred when omitted: script → function, urlPattern → url, text → text, selector → selector',
+        },
+        selector: {
+            type: 'string',
+            description: 'For selector: the element to watch. For text: limit the search to matching elements',
+        },
+        by: {
+            type: 'string',
+            enum: LOCATOR_STRATEGIES,
+            description: LOCATOR_DESCRIPTION,
+        },
+        state: {
+            type: 'string',
+            enum: SELECTOR_STATES,
+            description: 'For selector: attached (default), detached, visible, hidden or enabled. For text: attached/visible wait for the text to appear (default), detached/hidden for it to disappear',
+        },
+        text: {
+            type: 'string',
+            description: 'For text: substring of the rendered text to wait for',
+        },
+        urlPattern: {
+            type: 'string',
+            description: 'For url: regular expression the current URL must match',
+        },
+        idleTime: {
+            type: 'number',
+            description: 'For network_idle: milliseconds with no fetch/XHR/resource activity (requests already in flight when the wait starts are only seen while dev tools network capture is on). For dom_stable: milliseconds with no DOM mutations. Default: 500',
+        },
+        script: {
+            type: 'string',
+            description: 'For function: JavaScript expression or function body (with return) evaluated in the page until truthy. Promises are awaited',
+        },
+        args: {
+            type: 'array',
+            description: 'For function: arguments passed to the script as arguments[0], arguments[1], ...',
+        },
+        timeout: {
+            type: 'number',
+            description: 'Maximum time to wait in milliseconds. Default: 10000',
+        },
+    },
+};
+
+/**
+ * Runs in the page. Counts in-flight fetch/XHR requests and records the last network activity,
+ * installing the hooks on first use in each document.
+ */
+const NETWORK_IDLE_SCRIPT = `
+if (!window.__mcpNetworkTracker) {
+    const tracker = { pending: 0, lastActivity: performance.now() };
+    const touch = () => { tracker.lastActivity = performance.now(); };
+    const originalFetch = window.fetch;
+    if (originalFetch) {
+        window.fetch = function(...args) {
+            tracker.pending++; touch();
+            return originalFetch.apply(this, args).finally(() => { tracker.pending--; touch(); });
+        };
+    }
+    const originalSend = XMLHttpRequest.prototype.send;
+    XMLHttpRequest.prototype.send = function(...args) {
+        tracker.pending++; touch();
+        this.addEventListener('loadend', () => { tracker.pending--; touch(); }, { once: true });
+        return originalSend.apply(this, args);
+    };
+    try { new PerformanceObserver(touch).observe({ type: 'resource' }); } catch (e) {}
+    window.__mcpNetworkTracker = tracker;
+}
+const tracker = window.__mcpNetworkTracker;
+return { readyState: document.readyState, pending: tracker.pending, idleFor: Math.round(performance.now() - tracker.lastActivity) };
+`;
+
+/**
+ * Runs in the page. Records the time of the last DOM mutation, installing the observer on first use in each document.
+ */
+const DOM_STABLE_SCRIPT = `
+if (!window.__mcpDomTracker) {
+    const tracker = { lastMutation: performance.now(), mutations: 0 };
+    new MutationObserver(records => { tracker.lastMutation = performance.now(); tracker.mutations += records.length; })
+        .observe(document, { subtree: true, childList: true, attributes: true, characterData: true });
+    window.__mcpDomTracker = tracker;
+}
+const tracker = window.__mcpDomTracker;
+return { quietFor: Math.round(performance.now() - tracker.lastMutation), mutations: tracker.mutations };
+`;
+
+const TEXT_SCRIPT = `
+const text = arguments[0];
+const scopes = arguments[1] && arguments[1].length ? arguments[1] : [document.body || document.documentElement];
+return scopes.some(el => (el.innerText || el.textContent || '').includes(text));
+`;
+
+/**
+ * Work out the condition type from the fields given when type is omitted
+ */
+export function conditionType(condition: WaitCondition): WaitConditionType | null {
+    if (condition.type) return condition.type;
+    if (condition.script) return 'function';
+    if (condition.urlPattern) return 'url';
+    if (condition.text !== undefined) return 'text';
+    if (condition.selector) return 'selector';
+    return null;
+}
+
+export function describeCondition(condition: WaitCondition): string {
+    const type = conditionType(condition);
+    switch (type) {
+        case 'selector':
+            return `${condition.by && condition.by !== 'css' ? `${condition.by} ` : ''}'${condition.selector}' ${condition.state || 'attached'}`;
+        case 'text': {
+            const gone = condition.state === 'detached' || condition.state === 'hidden';
+            return `text '${condition.text}' ${gone ? 'gone' : 'present'}${condition.selector ? ` in '${condition.selector}'` : ''}`;
+        }
+        case 'url':
+            return `URL matching /${condition.urlPattern}/`;
+        case 'network_idle':
+            return `network idle for ${condition.idleTime ?? DEFAULT_IDLE_TIME}ms`;
+        case 'dom_stable':
+            return `no DOM mutations for ${condition.idleTime ?? DEFAULT_IDLE_TIME}ms`;
+        case 'function':
+            return `predicate ${condition.script!.length > 60 ? condition.script!.slice(0, 60) + '...' : condition.script}`;
+        default:
+            return 'unknown condition';
+    }
+}
+
+/**
+ * Wrap a function condition's script so it returns the (called) value, the way executeScript runs it
+ */
+export function predicateScript(script: string): string {
+    const source = script.trim();
+    const body = source.startsWith('return ') ? source : `return (${source});`;
+    return `const value = (function() { ${body} }).apply(null, arguments);\nreturn typeof value === 'function' ? value() : value;`;
+}
+
+/**
+ * Fetch/XHR requests the network collector saw start and not yet finish. The in-page tracker only counts
+ * requests made after it is installed, so these seed network_idle when capture is running.
+ */
+function requestsInFlight(network: NetworkCollector | undefined, only?: Set<string>): string[] {
+    if (!network?.isRunning) return [];
+    return network.list()
+        .filter(entry => !entry.finished && !entry.failed && (entry.type === 'Fetch' || entry.type === 'XHR'))
+        .filter(entry => !only || only.has(entry.requestId))
+        .map(entry => entry.requestId);
+}
+
+/**
+ * One evaluation of a condition. Throws for conditions that can never be met (bad regex, invalid locator).
+ */
+async function evaluate(
+    driver: WebDriver,
+    type: WaitConditionType,
+    condition: WaitCondition,
+    network?: NetworkCollector,
+    earlierRequests?: Set<string>
+): Promise<{ met: boolean; detail?: any }> {
+    const idleTime = condition.idleTime ?? DEFAULT_IDLE_TIME;
+    switch (type) {
+        case 'selector': {
+            const { elements, reason } = await locateAll(driver, condition.selector!, condition.by);
+            const state = condition.state || 'attached';
+            // A removed ref is exactly what detached and hidden wait for
+            const gone = (state === 'detached' || state === 'hidden') && /^(Unknown|Stale) ref/.test(reason || '');
+            if (isPermanentFailure(reason) && !gone) throw new Error(reason);
+            if (state === 'attached') return { met: elements.length > 0, detail: { matchCount: elements.length } };
+            if (state === 'detached') return { met: elements.length === 0, detail: { matchCount: elements.length } };
+
+            const checks = state === 'enabled' ? ['attached', 'enabled'] as const : ['attached', 'visible'] as const;
+            let lastFailure;
+            for (const element of elements) {
+                const failure = await checkElement(driver, element, [...checks]).catch(() => null);
+                if (!failure) {
+                    return { met: state !== 'hidden', detail: { matchCount: elements.length } };
+                }
+                lastFailure = failure.reason;
+            }
+            return { met: state === 'hidden', detail: { matchCount: elements.length, reason: lastFailure || reason } };
+        }
+        case 'text': {
+            let scopes: any[] = [];
+            if (condition.selector) {
+                const { elements, reason } = await locateAll(driver, condition.selector, condition.by);
+                if (isPermanentFailure(reason)) throw new Error(reason);
+                scopes = elements;
+            }
+            const gone = condition.state === 'detached' || condition.state === 'hidden';
+            const found = condition.selector && scopes.length === 0
+                ? false
+                : await driver.executeScript(TEXT_SCRIPT, condition.text, scopes) as boolean;
+            return { met: gone ? !found : found, detail: { found } };
+        }
+        case 'url': {
+            const url = await driver.getCurrentUrl();
+            return { met: new RegExp(condition.urlPattern!).test(url), detail: { url } };
+        }
+        case 'network_idle': {
+            const state = await driver.executeScript(NETWORK_IDLE_SCRIPT) as { readyState: string; pending: number; idleFor: number };
+            const earlier = earlierRequests?.size ? requestsInFlight(network, earlierRequests).length : 0;
+            return {
+                met: state.readyState === 'complete' && state.pending === 0 && earlier === 0 && state.idleFor >= idleTime,
+                detail: { ...state, ...(earlierRequests?.size ? { earlierPending: earlier } : {}) },
+            };
+        }
+        case 'dom_stable': {
+            const state = await driver.executeScript(DOM_STABLE_SCRIPT) as { quietFor: number; mutations: number };
+            return { met: state.quietFor >= idleTime, detail: state };
+        }
+        case 'function': {
+            const value = await driver.executeScript(predicateScript(condition.script!), ...(condition.args || []));
+            return { met: !!value, detail: { value } };
+        }
+    }
+}
+
+function validate(type: WaitConditionType | null, condition: WaitCondition): string | null {
+    if (!type) return 'Condition needs a type, or one of selector, text, urlPattern or script';
+    if (!WAIT_CONDITION_TYPES.includes(type)) return `Unknown condition type '${type}'. Use one of: ${WAIT_CONDITION_TYPES.join(', ')}`;
+    if (type === 'selector' && !condition.selector) return 'selector required';
+    if (type === 'selector' && condition.state && !SELECTOR_STATES.includes(condition.state)) return `Unknown state '${condition.state}'. Use one of: ${SELECTOR_STATES.join(', ')}`;
+    if (type === 'text' && !condition.text) return 'text required';
+    if (type === 'url') {
+        if (!condition.urlPattern) return 'urlPattern required';
+        try {
+            new RegExp(condition.urlPattern);
+        } catch (error) {
+            return `Invalid urlPattern: ${error instanceof Error ? error.message : String(error)}`;
+        }
+    }
+    if (type === 'function' && !condition.script?.trim()) return 'script required';
+    return null;
+}
+
+/**
+ * Poll a condition until it holds or its timeout passes. Errors while polling (for example while the page navigates)
+ * are retried; the last one is reported on timeout. With the session's network collector, network_idle also
+ * waits for requests that were already in flight when the wait began.
+ */
+export async function waitForCondition(
+    driver: WebDriver,
+    condition: WaitCondition,
+    defaultTimeout: number = DEFAULT_TIMEOUT,
+    network?: NetworkCollector
+): Promise<WaitResult> {
+    const type = conditionType(condition);
+    const description = describeCondition(condition);
+    const timeout = condition.timeout ?? defaultTimeout;
+    const start = Date.now();
+
+    const invalid = validate(type, condition);
+    if (invalid) {
+        return { success: false, message: invalid, data: { type, condition: description, elapsed: 0 } };
+    }
+
+    const earlierRequests = type === 'network_idle' ? new Set(requestsInFlight(network)) : undefined;
+    let detail: any;
+    let lastError: string | undefined;
+    while (true) {
+        try {
+            const result = await evaluate(driver, type!, condition, network, earlierRequests);
+            detail = result.detail;
+            lastError = undefined;
+            if (result.met) {
+                const elapsed = Date.now() - start;
+                return { success: true, message: `Condition met: ${description} (${elapsed}ms)`, data: { type, condition: description, elapsed, detail } };
+            }
+        } catch (error) {
+            lastError = error instanceof Error ? error.message : String(error);
+            if (isPermanentFailure(lastError)) {
+                return { success: false, message: lastError, data: { type, condition: description, elapsed: Date.now() - start } };
+            }
+        }
+
+        const elapsed = Date.now() - start;
+        if (elapsed >= timeout) {
+            return {
+                success: false,
+                message: `Timed out after ${elapsed}ms waiting for ${description}${lastError ? `: ${lastError}` : ''}`,
+                data: { type, condition: description, elapsed, detail: lastError ? { error: lastError } : detail },
+            };
+        }
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+    }
+}
+
+/**
+ * Wait for each condition in turn, stopping at the first that is not met
+ */
+export async function waitForConditions(
+    driver: WebDriver,
+    conditions: WaitCondition | WaitCondition[] | undefined,
+    network?: NetworkCollector
+): Promise<WaitResult | null> {
+    const list = Array.isArray(conditions) ? conditions : conditions ? [conditions] : [];
+    for (const condition of list) {
+        const result = await waitForCondition(driver, condition, DEFAULT_TIMEOUT, network);
+        if (!result.success) return result;
+    }
+    return null;
+}
+
+/**
+ * Run an action between its waitBefore and waitAfter conditions. A failed post-condition fails the call,
+ * but the message says the action itself went through.
+ */
+export async function withWaitConditions<T extends { success: boolean; message?: string; data?: any }>(
+    driver: WebDriver,
+    args: { waitBefore?: WaitCondition | WaitCondition[]; waitAfter?: WaitCondition | WaitCondition[] },
+    run: () => Promise<T>,
+    network?: NetworkCollector
+): Promise<T | { success: false; message: string; data: any }> {
+    const before = await waitForConditions(driver, args.waitBefore, network);
+    if (before) {
+        return { success: false, message: `waitBefore not met: ${before.message}`, data: { waitBefore: before.data } };
+    }
+
+    const result = await run();
+    if (!result.success) return result;
+
+    const after = await waitForConditions(driver, args.waitAfter, network);
+    if (after) {
+        return { success: false, message: `Action completed but waitAfter not met: ${after.message}`, data: { ...result.data, waitAfter: after.data } };
+    }
+    return result;
+}
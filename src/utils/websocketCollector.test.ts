@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebSocketCollector } from './websocketCollector.js';
+import { CdpSession } from './cdp.js';
+
+// Lets a test emit CDP events to the collector
+function fakeCdp() {
+    const handlers = new Map<string, (params: any) => void>();
+    const cdp = {
+        isOpen: true,
+        on: (method: string, handler: (params: any) => void) => { handlers.set(method, handler); return () => handlers.delete(method); },
+        send: async () => ({}),
+    } as unknown as CdpSession;
+    const receive = (payloadData: string) => handlers.get('Network.webSocketFrameReceived')!({ requestId: 's1', response: { opcode: 1, payloadData } });
+    return { cdp, receive };
+}
+
+test('waitForFrame ignores frames captured before the call', async () => {
+    const { cdp, receive } = fakeCdp();
+    const collector = new WebSocketCollector(cdp);
+    await collector.start();
+    receive('{"type":"ready"}');
+
+    const waiting = collector.waitForFrame({ match: 'ready' }, 1000);
+    setTimeout(() => receive('{"type":"ready","again":true}'), 20);
+    assert.equal((await waiting)?.index, 2);
+    assert.equal((await collector.waitForFrame({ match: 'ready', afterIndex: 0 }, 0))?.index, 1);
+    assert.equal(await collector.waitForFrame({ match: 'ready' }, 0), null);
+});
@@ -0,0 +1,200 @@
+import { BrowserSession } from '../common/types.js';
+import { CdpSession, getCdpSession } from './cdp.js';
+
+/**
+ * WebSocket capture from CDP Network.webSocket* events, with the frames in both directions. Sockets the page
+ * opens while capture runs are known from their creation, including ones opened before the in-page hooks were
+ * installed. Sockets already open when capture started show up on their first frame without a URL: CDP only
+ * reports it at creation. URL filters keep those rather than guess.
+ */
+
+export type FrameDirection = 'sent' | 'received';
+
+export interface WebSocketFrame {
+    index: number; // Increasing sequence number, for waiting on frames after a known point
+    socketId: string;
+    url?: string; // Unknown for sockets opened before capture started
+    direction: FrameDirection;
+    opcode: number; // 1 text, 2 binary
+    payload: string; // Text, or base64 for binary frames
+    json?: unknown; // Parsed payload when decodeJson is requested and the payload is JSON
+    size: number;
+    timestamp: string;
+}
+
+export interface WebSocketInfo {
+    socketId: string;
+    url?: string; // Unknown for sockets opened before capture started
+    openedAt?: string;
+    status?: number; // Handshake status, 101 when the upgrade succeeded
+    closedAt?: string;
+    error?: string;
+    sent: number;
+    received: number;
+}
+
+export interface FrameFilter {
+    urlPattern?: string; // Regular expression tested against the socket URL, when it is known
+    direction?: FrameDirection;
+    match?: string; // Regular expression tested against the payload
+    afterIndex?: number;
+    limit?: number;
+}
+
+const DEFAULT_MAX_FRAMES = 2000;
+const POLL_INTERVAL = 100;
+
+export function validateFrameFilter(filter: FrameFilter): string | null {
+    for (const key of ['urlPattern', 'match'] as const) {
+        if (!filter[key]) continue;
+        try {
+            new RegExp(filter[key]!);
+        } catch (error) {
+            return `Invalid ${key}: ${error instanceof Error ? error.message : String(error)}`;
+        }
+    }
+    if (filter.direction && !['sent', 'received'].includes(filter.direction)) {
+        return `Invalid direction '${filter.direction}'. Use sent or received`;
+    }
+    return null;
+}
+
+export function decodeFrame(frame: WebSocketFrame): WebSocketFrame {
+    if (frame.opcode !== 1) return frame;
+    try {
+        return { ...frame, json: JSON.parse(frame.payload) };
+    } catch {
+        return frame;
+    }
+}
+
+export class WebSocketCollector {
+    private frames: WebSocketFrame[] = [];
+    private sockets: Map<string, WebSocketInfo> = new Map();
+    private nextIndex = 1;
+    private unsubscribers: Array<() => void> = [];
+    private running = false;
+
+    constructor(private cdp: CdpSession, private maxFrames: number = DEFAULT_MAX_FRAMES) {}
+
+    get isRunning(): boolean {
+        return this.running && this.cdp.isOpen;
+    }
+
+    get lastIndex(): number {
+        return this.nextIndex - 1;
+    }
+
+    async start() {
+        if (this.running) return;
+        this.unsubscribers = [
+            this.cdp.on('Network.webSocketCreated', params => {
+                this.sockets.set(params.requestId, {
+                    socketId: params.requestId,
+                    url: params.url,
+                    openedAt: new Date().toISOString(),
+                    sent: 0,
+                    received: 0,
+                });
+            }),
+            this.cdp.on('Network.webSocketHandshakeResponseReceived', params => {
+                const socket = this.sockets.get(params.requestId);
+                if (socket) socket.status = params.response?.status;
+            }),
+            this.cdp.on('Network.webSocketFrameSent', params => this.onFrame(params, 'sent')),
+            this.cdp.on('Network.webSocketFrameReceived', params => this.onFrame(params, 'received')),
+            this.cdp.on('Network.webSocketFrameError', params => {
+                const socket = this.sockets.get(params.requestId);
+                if (socket) socket.error = params.errorMessage;
+            }),
+            this.cdp.on('Network.webSocketClosed', params => {
+                const socket = this.sockets.get(params.requestId);
+                if (socket) socket.closedAt = new Date().toISOString();
+            }),
+        ];
+        await this.cdp.send('Network.enable', {});
+        this.running = true;
+    }
+
+    stop() {
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+        this.running = false;
+    }
+
+    clear() {
+        this.frames = [];
+        // Keep open sockets so later frames still resolve their URL
+        for (const [id, socket] of this.sockets) {
+            if (socket.closedAt) this.sockets.delete(id);
+        }
+    }
+
+    listSockets(urlPattern?: string): WebSocketInfo[] {
+        const pattern = urlPattern ? new RegExp(urlPattern) : null;
+        return [...this.sockets.values()].filter(socket => !pattern || socket.url === undefined || pattern.test(socket.url));
+    }
+
+    list(filter: FrameFilter = {}): WebSocketFrame[] {
+        const urlPattern = filter.urlPattern ? new RegExp(filter.urlPattern) : null;
+        const match = filter.match ? new RegExp(filter.match) : null;
+        const matched = this.frames.filter(frame =>
+            (filter.afterIndex === undefined || frame.index > filter.afterIndex) &&
+            (!filter.direction || frame.direction === filter.direction) &&
+            (!urlPattern || frame.url === undefined || urlPattern.test(frame.url)) &&
+            (!match || match.test(frame.payload))
+        );
+        return filter.limit ? matched.slice(-filter.limit) : matched;
+    }
+
+    /**
+     * Poll until a frame passes the filter (its match pattern included) or the timeout ends.
+     * Without afterIndex only frames captured after the call count.
+     */
+    async waitForFrame(filter: FrameFilter, timeout: number): Promise<WebSocketFrame | null> {
+        const deadline = Date.now() + timeout;
+        const pending = { ...filter, afterIndex: filter.afterIndex ?? this.lastIndex, limit: undefined };
+        for (;;) {
+            const found = this.list(pending)[0];
+            if (found) return found;
+            if (Date.now() >= deadline || !this.isRunning) return null;
+            await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+        }
+    }
+
+    private onFrame(params: any, direction: FrameDirection) {
+        let socket = this.sockets.get(params.requestId);
+        if (!socket) {
+            // Opened before capture started: its frames still count, under an unknown URL
+            socket = { socketId: params.requestId, sent: 0, received: 0 };
+            this.sockets.set(params.requestId, socket);
+        }
+        const payload: string = params.response?.payloadData ?? '';
+        const opcode: number = params.response?.opcode ?? 1;
+        socket[direction]++;
+        this.frames.push({
+            index: this.nextIndex++,
+            socketId: params.requestId,
+            url: socket.url,
+            direction,
+            opcode,
+            payload,
+            size: opcode === 2 ? Buffer.from(payload, 'base64').length : Buffer.byteLength(payload),
+            timestamp: new Date().toISOString(),
+        });
+        if (this.frames.length > this.maxFrames) {
+            this.frames.splice(0, this.frames.length - this.maxFrames);
+        }
+    }
+}
+
+/**
+ * Start (or keep) the session's WebSocket collector on its shared DevTools connection
+ */
+export async function startWebSocketCapture(session: BrowserSession): Promise<WebSocketCollector> {
+    if (!session.websockets || !session.websockets.isRunning) {
+        session.websockets = new WebSocketCollector(await getCdpSession(session));
+        await session.websockets.start();
+    }
+    return session.websockets;
+}